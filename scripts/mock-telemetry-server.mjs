@@ -0,0 +1,234 @@
+// Local telemetry feed for testing smart bin sensors without hardware.
+// Serves the default telemetry URL (ws://localhost:8090) and answers both ways
+// the app can connect:
+//   - plain WebSocket: a JSON array of readings every interval
+//   - MQTT over WebSocket (subprotocol "mqtt"): a tiny broker that accepts any
+//     CONNECT/SUBSCRIBE and publishes one reading per bin to bins/<id>/telemetry
+//
+// Usage: npm run mock:telemetry
+// Environment: PORT (8090), INTERVAL_MS (5000), SILENT_BINS (comma-separated
+// bin ids that never report, to see them flagged stale), FAULTY_BINS (bin ids
+// that report random levels, to see their anomalies flagged)
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8090;
+const INTERVAL_MS = Number(process.env.INTERVAL_MS) || 5000;
+const binList = (value) => new Set((value || '').split(',').map(id => id.trim()).filter(Boolean));
+const SILENT_BINS = binList(process.env.SILENT_BINS);
+const FAULTY_BINS = binList(process.env.FAULTY_BINS);
+const FIRMWARE_VERSIONS = ['1.3.0', '1.4.2'];
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const database = JSON.parse(readFileSync(new URL('../src/data/database.json', import.meta.url), 'utf8'));
+const sensors = database.smartBins
+  .filter(bin => bin.isSmartBin && !SILENT_BINS.has(bin.id))
+  .map((bin, index) => ({
+    binId: bin.id,
+    level: bin.currentLevel,
+    battery: 60 + Math.random() * 40,
+    firmware: FIRMWARE_VERSIONS[index % FIRMWARE_VERSIONS.length],
+    rate: 0.2 + Math.random() * 1.5,
+    faulty: FAULTY_BINS.has(bin.id)
+  }));
+
+// Bins fill a little each tick and are emptied when nearly full; faulty sensors report noise
+function tick() {
+  const timestamp = Date.now();
+  return sensors.map(sensor => {
+    if (sensor.faulty) {
+      sensor.level = Math.random() * 100;
+    } else {
+      sensor.level = sensor.level >= 95 && Math.random() < 0.3 ? Math.random() * 5 : Math.min(100, sensor.level + sensor.rate);
+    }
+    sensor.battery = Math.max(0, sensor.battery - 0.01);
+    return {
+      binId: sensor.binId,
+      level: Math.round(sensor.level),
+      battery: Math.round(sensor.battery),
+      firmware: sensor.firmware,
+      timestamp
+    };
+  });
+}
+
+// --- WebSocket framing (server side: unmasked frames out, masked frames in) ---
+
+function frame(opcode, payload) {
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 65536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(length)); return b; })()]);
+  return Buffer.concat([header, payload]);
+}
+
+// Complete frames at the front of `buffer`, and the unread remainder
+function readFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let index = offset + 2;
+    if (length === 126) {
+      if (buffer.length < index + 2) break;
+      length = buffer.readUInt16BE(index);
+      index += 2;
+    } else if (length === 127) {
+      if (buffer.length < index + 8) break;
+      length = Number(buffer.readBigUInt64BE(index));
+      index += 8;
+    }
+    const maskOffset = index;
+    if (masked) index += 4;
+    if (buffer.length < index + length) break;
+
+    const payload = Buffer.from(buffer.subarray(index, index + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    frames.push({ opcode, payload });
+    offset = index + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+// --- MQTT 3.1.1, only what the app's subscriber sends ---
+
+function mqttPacket(type, flags, body) {
+  const lengthBytes = [];
+  let length = body.length;
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    lengthBytes.push(byte);
+  } while (length > 0);
+  return Buffer.concat([Buffer.from([(type << 4) | flags, ...lengthBytes]), body]);
+}
+
+function mqttString(value) {
+  const bytes = Buffer.from(value, 'utf8');
+  return Buffer.concat([Buffer.from([bytes.length >> 8, bytes.length & 0xff]), bytes]);
+}
+
+function readMqttPackets(buffer) {
+  const packets = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    let length = 0;
+    let multiplier = 1;
+    let index = offset + 1;
+    let complete = false;
+    while (index < buffer.length && index < offset + 5) {
+      const byte = buffer[index++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+      if ((byte & 0x80) === 0) {
+        complete = true;
+        break;
+      }
+    }
+    if (!complete || index + length > buffer.length) break;
+    packets.push({ type: buffer[offset] >> 4, body: buffer.subarray(index, index + length) });
+    offset = index + length;
+  }
+  return { packets, rest: buffer.subarray(offset) };
+}
+
+const clients = new Set();
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Connect with a WebSocket client\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const protocols = (request.headers['sec-websocket-protocol'] || '').split(',').map(p => p.trim());
+  const mqtt = protocols.includes('mqtt');
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    ...(mqtt ? ['Sec-WebSocket-Protocol: mqtt'] : []),
+    '', ''
+  ].join('\r\n'));
+
+  const client = { socket, mqtt, subscribed: false };
+  clients.add(client);
+  console.log(`${mqtt ? 'MQTT' : 'WebSocket'} client connected (${clients.size} total)`);
+
+  let frameBuffer = Buffer.alloc(0);
+  let mqttBuffer = Buffer.alloc(0);
+
+  socket.on('data', (chunk) => {
+    const { frames, rest } = readFrames(Buffer.concat([frameBuffer, chunk]));
+    frameBuffer = Buffer.from(rest);
+
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(frame(0x8, Buffer.alloc(0)));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(frame(0xa, payload));
+        return;
+      }
+      if (!mqtt || opcode !== 0x2) return;
+
+      const parsed = readMqttPackets(Buffer.concat([mqttBuffer, payload]));
+      mqttBuffer = Buffer.from(parsed.rest);
+      parsed.packets.forEach(({ type, body }) => {
+        if (type === 1) {
+          socket.write(frame(0x2, mqttPacket(2, 0, Buffer.from([0, 0]))));
+        } else if (type === 8) {
+          socket.write(frame(0x2, mqttPacket(9, 0, Buffer.from([body[0], body[1], 0]))));
+          client.subscribed = true;
+        } else if (type === 12) {
+          socket.write(frame(0x2, mqttPacket(13, 0, Buffer.alloc(0))));
+        } else if (type === 14) {
+          socket.end(frame(0x8, Buffer.alloc(0)));
+        }
+      });
+    });
+  });
+
+  const drop = () => {
+    if (clients.delete(client)) console.log(`Client disconnected (${clients.size} total)`);
+  };
+  socket.on('close', drop);
+  socket.on('error', drop);
+});
+
+setInterval(() => {
+  const readings = tick();
+  clients.forEach(({ socket, mqtt, subscribed }) => {
+    if (!mqtt) {
+      socket.write(frame(0x1, Buffer.from(JSON.stringify(readings))));
+    } else if (subscribed) {
+      readings.forEach(reading => {
+        const body = Buffer.concat([mqttString(`bins/${reading.binId}/telemetry`), Buffer.from(JSON.stringify(reading))]);
+        socket.write(frame(0x2, mqttPacket(3, 0, body)));
+      });
+    }
+  });
+}, INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`Mock telemetry on ws://localhost:${PORT} for ${sensors.length} bins every ${INTERVAL_MS} ms`);
+  if (SILENT_BINS.size > 0) console.log(`Silent: ${[...SILENT_BINS].join(', ')}`);
+  if (FAULTY_BINS.size > 0) console.log(`Faulty: ${[...FAULTY_BINS].join(', ')}`);
+});
@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { UserRole } from '../../src/types';
+import { createApp } from './app';
+import { openAudit } from './audit';
+import { openAuth } from './auth';
+import { openStore } from './store';
+
+// The API against an in-memory database seeded from src/data/database.json
+
+const SESSION_TTL_MS = 60 * 60 * 1000;
+const PASSWORD = 'correct horse';
+
+let server: ReturnType<typeof openServer>;
+
+function openServer() {
+  const store = openStore(':memory:');
+  const auth = openAuth(store.db, SESSION_TTL_MS);
+  const audit = openAudit(store.db);
+  return { store, auth, audit, app: createApp(store, auth, audit) };
+}
+
+function request(path: string, { token, method = 'GET', body }: { token?: string; method?: string; body?: unknown } = {}) {
+  return server.app.request(`/api${path}`, {
+    method,
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(body !== undefined && { 'Content-Type': 'application/json' })
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) })
+  });
+}
+
+const login = (username: string, password = PASSWORD) =>
+  request('/auth/login', { method: 'POST', body: { username, password } });
+
+async function signIn(username: string, role: UserRole, extra: { areas?: string[] } = {}) {
+  const user = await server.auth.createUser({ username, name: username, role, password: PASSWORD, ...extra });
+  const response = await login(username);
+  const { token } = await response.json() as { token: string };
+  return { user, token };
+}
+
+beforeEach(() => {
+  server = openServer();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  server.store.close();
+});
+
+describe('sign-in', () => {
+  it('locks a username after five failed attempts, even with the right password', async () => {
+    await server.auth.createUser({ username: 'ravi', name: 'Ravi', role: 'admin', password: PASSWORD });
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await login('ravi', 'wrong password')).status).toBe(401);
+    }
+    expect((await login('ravi')).status).toBe(429);
+    expect((await login('RAVI ')).status).toBe(429);
+  });
+
+  it('unlocks once the failure window has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await server.auth.createUser({ username: 'ravi', name: 'Ravi', role: 'admin', password: PASSWORD });
+    for (let attempt = 0; attempt < 5; attempt++) await login('ravi', 'wrong password');
+
+    vi.setSystemTime(Date.now() + 16 * 60 * 1000);
+    expect((await login('ravi')).status).toBe(200);
+  });
+});
+
+describe('sessions', () => {
+  it('expire after the session lifetime', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { token } = await signIn('admin', 'admin');
+    expect((await request('/auth/session', { token })).status).toBe(200);
+
+    vi.setSystemTime(Date.now() + SESSION_TTL_MS + 1);
+    expect(server.auth.getSession(token)).toBeNull();
+    expect((await request('/auth/session', { token })).status).toBe(401);
+  });
+
+  it('keep an admin signed in after resetting their own password, and sign out anyone else reset', async () => {
+    const { user: admin, token } = await signIn('admin', 'admin');
+    const { user: viewer, token: viewerToken } = await signIn('viewer', 'viewer');
+    const reset = (id: string, role: UserRole) =>
+      request(`/users/${id}`, { token, method: 'PUT', body: { name: id, role, password: 'new password' } });
+
+    expect((await reset(admin.id, 'admin')).status).toBe(200);
+    expect((await request('/auth/session', { token })).status).toBe(200);
+
+    expect((await reset(viewer.id, 'viewer')).status).toBe(200);
+    expect((await request('/auth/session', { token: viewerToken })).status).toBe(401);
+  });
+});
+
+describe('change permissions', () => {
+  const binChange = (id: string, changes: Record<string, unknown>) =>
+    ({ op: 'put', collection: 'bins', item: { ...server.store.get('bins', id), ...changes } });
+  const levelOf = (id: string) => server.store.get('bins', id)?.currentLevel;
+
+  it('lets a supervisor change bins in their areas', async () => {
+    const { token } = await signIn('zone', 'supervisor', { areas: ['Kukatpally'] });
+    const response = await request('/changes', { token, method: 'POST', body: [binChange('BIN002', { currentLevel: 12 })] });
+
+    expect(response.status).toBe(200);
+    expect(levelOf('BIN002')).toBe(12);
+  });
+
+  it('rejects the whole batch when one bin is outside the supervisor\'s areas', async () => {
+    const { token } = await signIn('zone', 'supervisor', { areas: ['Kukatpally'] });
+    const before = levelOf('BIN002');
+    const response = await request('/changes', {
+      token,
+      method: 'POST',
+      body: [binChange('BIN002', { currentLevel: 12 }), binChange('BIN001', { currentLevel: 12 })]
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'You cannot change bins item BIN001' });
+    expect(levelOf('BIN002')).toBe(before);
+  });
+
+  it('does not let a supervisor move a bin out of their areas or delete one outside them', async () => {
+    const { token } = await signIn('zone', 'supervisor', { areas: ['Kukatpally'] });
+
+    const moved = await request('/changes', { token, method: 'POST', body: [binChange('BIN002', { area: 'Madhapur' })] });
+    expect(moved.status).toBe(403);
+    const deleted = await request('/bins/BIN001', { token, method: 'DELETE' });
+    expect(deleted.status).toBe(403);
+    expect(server.store.get('bins', 'BIN001')).not.toBeNull();
+  });
+
+  it('lets viewers read but not write', async () => {
+    const { token } = await signIn('watcher', 'viewer');
+
+    expect((await request('/bins/BIN002', { token })).status).toBe(200);
+    const response = await request('/changes', { token, method: 'POST', body: [binChange('BIN002', { currentLevel: 12 })] });
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('audit log', () => {
+  it('records a whole-database replacement item by item', async () => {
+    const { token } = await signIn('admin', 'admin');
+    const database = server.store.readDatabase();
+    const [first, second, ...rest] = database.smartBins;
+    const body = {
+      ...database,
+      smartBins: [{ ...first, currentLevel: 3 }, ...rest, { ...second, id: 'BIN999' }]
+    };
+
+    expect((await request('/database', { token, method: 'PUT', body })).status).toBe(200);
+
+    const entries = server.audit.list({});
+    expect(new Set(entries.map(entry => entry.batchId)).size).toBe(1);
+    expect(entries.find(entry => entry.entity === 'database')?.action).toBe('replace');
+    expect(entries.filter(entry => entry.entity !== 'database').map(({ action, entity, entityId, before, after, reason }) =>
+      ({ action, entity, entityId, before, after, reason }))).toEqual(expect.arrayContaining([
+      { action: 'update', entity: 'bins', entityId: first.id, before: { currentLevel: first.currentLevel }, after: { currentLevel: 3 }, reason: 'Whole database replaced' },
+      { action: 'delete', entity: 'bins', entityId: second.id, before: second, after: undefined, reason: 'Whole database replaced' },
+      { action: 'create', entity: 'bins', entityId: 'BIN999', before: undefined, after: { ...second, id: 'BIN999' }, reason: 'Whole database replaced' }
+    ]));
+    // Unchanged items are not logged
+    expect(entries).toHaveLength(4);
+  });
+});
+
+describe('audit filters', () => {
+  it('accepts only positive whole limits', async () => {
+    const { token } = await signIn('admin', 'admin');
+    await request('/bins/BIN001', { token, method: 'PATCH', body: { currentLevel: 1 } });
+    await request('/bins/BIN001', { token, method: 'PATCH', body: { currentLevel: 2 } });
+
+    for (const limit of ['-1', '0', '1.5', 'all']) {
+      expect((await request(`/audit?limit=${limit}`, { token })).status).toBe(400);
+    }
+    const response = await request('/audit?limit=1', { token });
+    expect(await response.json()).toHaveLength(1);
+  });
+
+  it('clamps limits passed to the log directly to at least one entry', () => {
+    server.audit.recorder({ id: 'u1', username: 'admin', name: 'Admin', role: 'admin' })({ action: 'create', entity: 'bins', entityId: 'BIN1' });
+    expect(server.audit.list({ limit: -1 })).toHaveLength(1);
+    expect(server.audit.list({ limit: 0 })).toHaveLength(1);
+  });
+});
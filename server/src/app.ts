@@ -0,0 +1,398 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { HTTPException } from 'hono/http-exception';
+import type { MiddlewareHandler } from 'hono';
+import type { AuditEntity, Database, DatabaseChange, RoutePlan, User, UserRole } from '../../src/types';
+import { canEditEntity, COLLECTION_PERMISSIONS, hasPermission, Permission } from '../../src/lib/permissions';
+import { Audit, AuditFilter, AuditRecorder, databaseSummary, entityChange, planSummary } from './audit';
+import { Auth, MIN_PASSWORD_LENGTH, USER_ROLES } from './auth';
+import { Entity, isCollection, Store, Write } from './store';
+
+// REST API over the store. Bodies are JSON; errors are { error: message } with
+// a 4xx status. Collections: bins, stations, dumpyards, depots, profiles,
+// trucks and sats, each addressed by the entity's own id. The app itself reads
+// GET /database and writes through POST /changes.
+//
+// Everything except /health and /auth/login needs an `Authorization: Bearer
+// <token>` header with a session token from /auth/login. Every user can read;
+// writes follow the role permissions in src/lib/permissions.ts, checked per
+// entity, so a zone supervisor can only change bins and stations in their areas.
+// Every write is recorded in the audit log, which admins read at GET /audit.
+
+const MAX_PLAN_LIST = 50;
+const PUBLIC_PATHS = new Set(['/api/health', '/api/auth/login']);
+// Failed sign-ins allowed per username within the window before it is locked for the rest of it
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+type Env = { Variables: { user: User; token: string } };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isDatabase(value: unknown): value is Database {
+  if (!isObject(value) || !isObject(value.vehicles)) return false;
+  const { vehicles } = value;
+  return Array.isArray(vehicles.trucks) && Array.isArray(vehicles.sats)
+    && ['vehicleProfiles', 'depots', 'smartBins', 'compactStations', 'dumpyards'].every(key => Array.isArray(value[key]));
+}
+
+const isDatabaseChange = (value: unknown): value is DatabaseChange =>
+  isObject(value) && typeof value.collection === 'string' && isCollection(value.collection) && (
+    (value.op === 'put' && isObject(value.item) && typeof value.item.id === 'string') ||
+    (value.op === 'delete' && typeof value.id === 'string')
+  ) && (value.reason === undefined || typeof value.reason === 'string');
+
+const isRoutePlan = (value: unknown): value is RoutePlan =>
+  isObject(value) && Array.isArray(value.routes) && Array.isArray(value.unassigned);
+
+async function readJson(body: Promise<unknown>): Promise<unknown> {
+  try {
+    return await body;
+  } catch {
+    throw new HTTPException(400, { message: 'Body must be JSON' });
+  }
+}
+
+function collectionParam(name: string) {
+  if (!isCollection(name)) throw new HTTPException(404, { message: `Unknown collection "${name}"` });
+  return name;
+}
+
+function requirePermission(permission: Permission): MiddlewareHandler<Env> {
+  return async (c, next) => {
+    if (!hasPermission(c.get('user'), permission)) throw new HTTPException(403, { message: 'Not allowed for your role' });
+    await next();
+  };
+}
+
+// Judged on the item as stored and as written, so an item cannot be moved into or out of a supervisor's areas
+function mayChange(user: User, change: DatabaseChange, store: Store): boolean {
+  const { collection } = change;
+  const existing = store.get(collection, change.op === 'put' ? change.item.id : change.id);
+  if (existing && !canEditEntity(user, collection, existing)) return false;
+  if (change.op === 'put') return canEditEntity(user, collection, change.item);
+  return hasPermission(user, COLLECTION_PERMISSIONS[collection]);
+}
+
+function assertMayChange(user: User, change: DatabaseChange, store: Store) {
+  if (mayChange(user, change, store)) return;
+  const id = change.op === 'put' ? change.item.id : change.id;
+  throw new HTTPException(403, { message: `You cannot change ${change.collection} item ${id}` });
+}
+
+// Saving an empty plan is how the app clears the routes
+const planPermission = (plan: RoutePlan): Permission => plan.routes.length > 0 ? 'routes:generate' : 'routes:clear';
+
+// Records entity writes that changed something
+function auditWrites(record: AuditRecorder, reason?: string) {
+  return (write: Write) => {
+    const change = entityChange(write.before, write.after);
+    if (!change) return;
+    record({ ...change, entity: write.collection, entityId: (write.after ?? write.before)!.id, ...(reason && { reason }) });
+  };
+}
+
+const AUDIT_ENTITIES = new Set<string>(['bins', 'stations', 'dumpyards', 'depots', 'profiles', 'trucks', 'sats', 'plan', 'database']);
+
+// Query parameters of GET /audit; dates are epoch milliseconds
+function auditFilter(query: Record<string, string>): AuditFilter {
+  const numeric = (name: string) => {
+    if (query[name] === undefined) return undefined;
+    const value = Number(query[name]);
+    if (!Number.isFinite(value)) throw new HTTPException(400, { message: `${name} must be a number` });
+    return value;
+  };
+  const limit = numeric('limit');
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new HTTPException(400, { message: 'limit must be a positive integer' });
+  }
+  if (query.entity !== undefined && !AUDIT_ENTITIES.has(query.entity)) {
+    throw new HTTPException(400, { message: `Unknown entity "${query.entity}"` });
+  }
+  return {
+    ...(query.entity && { entity: query.entity as AuditEntity }),
+    ...(query.entityId && { entityId: query.entityId }),
+    ...(query.userId && { userId: query.userId }),
+    from: numeric('from'),
+    to: numeric('to'),
+    limit
+  };
+}
+
+function isRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isUnset = (value: unknown) => value === undefined || value === null || value === '';
+
+// Drivers see the route of one vehicle, so they must be bound to one;
+// supervisors manage the assets of their areas, so they need at least one
+function accountError(role: UserRole, vehicleId: unknown, areas: unknown, store: Store): string | null {
+  if (role === 'supervisor') {
+    if (!Array.isArray(areas) || areas.length === 0 || !areas.every(isText)) return 'Supervisors need at least one area';
+  } else if (!isUnset(areas) && !(Array.isArray(areas) && areas.length === 0)) {
+    return 'Only supervisors have areas';
+  }
+  if (role !== 'driver') return isUnset(vehicleId) ? null : 'Only drivers have a vehicle';
+  if (!isText(vehicleId)) return 'Drivers need a vehicle';
+  const exists = store.get('trucks', vehicleId) || store.get('sats', vehicleId);
+  return exists ? null : `No vehicle ${vehicleId}`;
+}
+
+const areasOf = (areas: unknown) => [...new Set((areas as string[]).map(area => area.trim()))];
+
+function passwordError(password: unknown): string | null {
+  return typeof password === 'string' && password.length >= MIN_PASSWORD_LENGTH
+    ? null
+    : `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+}
+
+function planIdParam(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id < 1) throw new HTTPException(404, { message: `No plan ${value}` });
+  return id;
+}
+
+export function createApp(store: Store, auth: Auth, audit: Audit, corsOrigin = '*') {
+  const app = new Hono<Env>().basePath('/api');
+  const canManageUsers = requirePermission('users:manage');
+  const loginFailures = new Map<string, { count: number; since: number }>();
+
+  app.use('*', cors({ origin: corsOrigin }));
+
+  app.use('*', async (c, next) => {
+    if (c.req.method === 'OPTIONS' || PUBLIC_PATHS.has(c.req.path)) return next();
+    const token = c.req.header('Authorization')?.match(/^Bearer (\S+)$/)?.[1];
+    const session = token ? auth.getSession(token) : null;
+    if (!token || !session) throw new HTTPException(401, { message: 'Sign in to continue' });
+    c.set('user', session.user);
+    c.set('token', token);
+    await next();
+  });
+
+  app.onError((error, c) => {
+    if (error instanceof HTTPException) return c.json({ error: error.message }, error.status);
+    console.error(error);
+    return c.json({ error: 'Internal server error' }, 500);
+  });
+
+  app.notFound(c => c.json({ error: 'Not found' }, 404));
+
+  app.get('/health', c => c.json({ ok: true }));
+
+  app.post('/auth/login', async c => {
+    const body = await readJson(c.req.json());
+    if (!isObject(body) || !isText(body.username) || typeof body.password !== 'string') {
+      throw new HTTPException(400, { message: 'Username and password are required' });
+    }
+    const key = body.username.trim().toLowerCase();
+    const failures = loginFailures.get(key);
+    if (failures && Date.now() - failures.since > LOGIN_WINDOW_MS) loginFailures.delete(key);
+    if ((loginFailures.get(key)?.count ?? 0) >= MAX_LOGIN_FAILURES) {
+      throw new HTTPException(429, { message: 'Too many failed sign-ins. Try again later.' });
+    }
+
+    const user = await auth.verifyLogin(body.username, body.password);
+    if (!user) {
+      const entry = loginFailures.get(key) ?? { count: 0, since: Date.now() };
+      loginFailures.set(key, { ...entry, count: entry.count + 1 });
+      throw new HTTPException(401, { message: 'Invalid username or password' });
+    }
+    loginFailures.delete(key);
+
+    if (user.role === 'driver') {
+      const vehicle = store.get('trucks', user.vehicleId ?? '') ?? store.get('sats', user.vehicleId ?? '');
+      if (!vehicle) throw new HTTPException(403, { message: 'Your account is not assigned to a vehicle' });
+      if (vehicle.status === 'off-duty') throw new HTTPException(403, { message: 'Your vehicle is currently marked as off-duty' });
+    }
+
+    return c.json({ ...auth.createSession(user.id), user });
+  });
+
+  app.get('/auth/session', c => c.json({ user: c.get('user') }));
+
+  app.post('/auth/logout', c => {
+    auth.endSession(c.get('token'));
+    return c.body(null, 204);
+  });
+
+  // Signs out the user's other sessions
+  app.post('/auth/password', async c => {
+    const body = await readJson(c.req.json());
+    if (!isObject(body) || typeof body.currentPassword !== 'string') {
+      throw new HTTPException(400, { message: 'Current password is required' });
+    }
+    const invalid = passwordError(body.newPassword);
+    if (invalid) throw new HTTPException(400, { message: invalid });
+    if (!await auth.verifyPassword(c.get('user').id, body.currentPassword)) {
+      throw new HTTPException(400, { message: 'Current password is incorrect' });
+    }
+    await auth.setPassword(c.get('user').id, body.newPassword as string, c.get('token'));
+    return c.body(null, 204);
+  });
+
+  app.get('/users', canManageUsers, c => c.json(auth.listUsers()));
+
+  app.post('/users', canManageUsers, async c => {
+    const body = await readJson(c.req.json());
+    if (!isObject(body) || !isText(body.username) || !isText(body.name) || !isRole(body.role)) {
+      throw new HTTPException(400, { message: 'Username, name and role are required' });
+    }
+    const invalid = passwordError(body.password) ?? accountError(body.role, body.vehicleId, body.areas, store);
+    if (invalid) throw new HTTPException(400, { message: invalid });
+    if (auth.usernameTaken(body.username)) throw new HTTPException(409, { message: `Username ${body.username} is taken` });
+
+    const user = await auth.createUser({
+      username: body.username,
+      name: body.name,
+      role: body.role,
+      ...(body.role === 'driver' && { vehicleId: body.vehicleId as string }),
+      ...(body.role === 'supervisor' && { areas: areasOf(body.areas) }),
+      password: body.password as string
+    });
+    return c.json(user, 201);
+  });
+
+  // Name, role, vehicle and areas; a password in the body resets it and signs the
+  // user out, except for the session of an admin resetting their own
+  app.put('/users/:id', canManageUsers, async c => {
+    const id = c.req.param('id');
+    const body = await readJson(c.req.json());
+    if (!isObject(body) || !isText(body.name) || !isRole(body.role)) {
+      throw new HTTPException(400, { message: 'Name and role are required' });
+    }
+    const invalid = accountError(body.role, body.vehicleId, body.areas, store) ?? (body.password === undefined ? null : passwordError(body.password));
+    if (invalid) throw new HTTPException(400, { message: invalid });
+    if (body.role !== 'admin' && auth.isLastAdmin(id)) throw new HTTPException(409, { message: 'The last admin cannot change role' });
+
+    const user = auth.updateUser(id, {
+      name: body.name,
+      role: body.role,
+      ...(body.role === 'driver' && { vehicleId: body.vehicleId as string }),
+      ...(body.role === 'supervisor' && { areas: areasOf(body.areas) })
+    });
+    if (!user) throw new HTTPException(404, { message: `No user ${id}` });
+    if (typeof body.password === 'string') {
+      await auth.setPassword(id, body.password, id === c.get('user').id ? c.get('token') : undefined);
+    }
+    return c.json(user);
+  });
+
+  app.delete('/users/:id', canManageUsers, c => {
+    const id = c.req.param('id');
+    if (id === c.get('user').id) throw new HTTPException(409, { message: 'You cannot delete your own account' });
+    if (!auth.deleteUser(id)) throw new HTTPException(404, { message: `No user ${id}` });
+    return c.body(null, 204);
+  });
+
+  app.get('/database', c => c.json(store.readDatabase()));
+
+  app.put('/database', requirePermission('data:import'), async c => {
+    const body = await readJson(c.req.json());
+    if (!isDatabase(body)) throw new HTTPException(400, { message: 'Body must be a complete database' });
+    const record = audit.recorder(c.get('user'));
+    store.db.transaction(() => {
+      const before = databaseSummary(store.readDatabase());
+      record({ action: 'replace', entity: 'database', before, after: databaseSummary(body) });
+      store.replaceDatabase(body, auditWrites(record, 'Whole database replaced'));
+    })();
+    return c.json(store.readDatabase());
+  });
+
+  // Batched writes from the app: [{ op: 'put', collection, item } | { op: 'delete', collection, id }].
+  // One change the user may not make rejects the whole batch.
+  app.post('/changes', async c => {
+    const body = await readJson(c.req.json());
+    if (!Array.isArray(body) || !body.every(isDatabaseChange)) {
+      throw new HTTPException(400, { message: 'Body must be an array of put or delete changes' });
+    }
+    body.forEach(change => assertMayChange(c.get('user'), change, store));
+    const record = audit.recorder(c.get('user'));
+    store.applyChanges(body, (write, change) => auditWrites(record, change.reason)(write));
+    return c.json({ applied: body.length });
+  });
+
+  // Plans are registered before the generic collection routes so "plans" is not taken as a collection
+  app.get('/plans', c => c.json(store.listPlans(MAX_PLAN_LIST)));
+
+  app.get('/plans/latest', c => {
+    const plan = store.latestPlan();
+    if (!plan) throw new HTTPException(404, { message: 'No plan saved yet' });
+    return c.json(plan);
+  });
+
+  app.post('/plans', async c => {
+    const body = await readJson(c.req.json());
+    if (!isRoutePlan(body)) throw new HTTPException(400, { message: 'Body must have routes and unassigned arrays' });
+    if (!hasPermission(c.get('user'), planPermission(body))) throw new HTTPException(403, { message: 'Not allowed for your role' });
+    const plan = store.createPlan(body);
+    audit.recorder(c.get('user'))({
+      action: 'create', entity: 'plan', entityId: String(plan.id), reason: 'Route generation', after: planSummary(plan)
+    });
+    return c.json(plan, 201);
+  });
+
+  app.put('/plans/:id', async c => {
+    const id = planIdParam(c.req.param('id'));
+    const body = await readJson(c.req.json());
+    if (!isRoutePlan(body)) throw new HTTPException(400, { message: 'Body must have routes and unassigned arrays' });
+    if (!hasPermission(c.get('user'), planPermission(body))) throw new HTTPException(403, { message: 'Not allowed for your role' });
+    const before = store.getPlan(id);
+    const plan = store.updatePlan(id, body);
+    if (!before || !plan) throw new HTTPException(404, { message: `No plan ${id}` });
+    const change = entityChange({ id: String(id), ...planSummary(before) }, { id: String(id), ...planSummary(plan) });
+    if (change) {
+      audit.recorder(c.get('user'))({
+        ...change, entity: 'plan', entityId: String(id), ...(plan.routes.length === 0 && { reason: 'Routes cleared' })
+      });
+    }
+    return c.json(plan);
+  });
+
+  app.get('/audit', requirePermission('audit:view'), c => c.json(audit.list(auditFilter(c.req.query()))));
+
+  app.get('/:collection', c => c.json(store.list(collectionParam(c.req.param('collection')))));
+
+  app.get('/:collection/:id', c => {
+    const collection = collectionParam(c.req.param('collection'));
+    const item = store.get(collection, c.req.param('id'));
+    if (!item) throw new HTTPException(404, { message: `No ${collection} item ${c.req.param('id')}` });
+    return c.json(item);
+  });
+
+  // Create or replace; the id in the path wins over one in the body
+  app.put('/:collection/:id', async c => {
+    const collection = collectionParam(c.req.param('collection'));
+    const body = await readJson(c.req.json());
+    if (!isObject(body)) throw new HTTPException(400, { message: 'Body must be an object' });
+    const item: Entity = { ...body, id: c.req.param('id') };
+    assertMayChange(c.get('user'), { op: 'put', collection, item }, store);
+    return c.json(store.put(collection, item, auditWrites(audit.recorder(c.get('user')))));
+  });
+
+  // Shallow merge into an existing item
+  app.patch('/:collection/:id', async c => {
+    const collection = collectionParam(c.req.param('collection'));
+    const id = c.req.param('id');
+    const body = await readJson(c.req.json());
+    if (!isObject(body)) throw new HTTPException(400, { message: 'Body must be an object' });
+    const existing = store.get(collection, id);
+    if (!existing) throw new HTTPException(404, { message: `No ${collection} item ${id}` });
+    const item = { ...existing, ...body, id } as Entity;
+    assertMayChange(c.get('user'), { op: 'put', collection, item }, store);
+    return c.json(store.put(collection, item, auditWrites(audit.recorder(c.get('user')))));
+  });
+
+  app.delete('/:collection/:id', c => {
+    const collection = collectionParam(c.req.param('collection'));
+    const id = c.req.param('id');
+    assertMayChange(c.get('user'), { op: 'delete', collection, id }, store);
+    if (!store.remove(collection, id, auditWrites(audit.recorder(c.get('user'))))) throw new HTTPException(404, { message: `No ${collection} item ${id}` });
+    return c.body(null, 204);
+  });
+
+  return app;
+}
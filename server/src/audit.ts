@@ -0,0 +1,160 @@
+import type Sqlite from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
+import type { AuditAction, AuditEntity, AuditEntry, Database, RoutePlan, User } from '../../src/types';
+import { COLLECTIONS, Entity } from './store';
+
+// Append-only log of every write to assets and plans: who, when, and what
+// changed. Triggers refuse updates and deletes, so entries cannot be edited
+// through the API or by a later bug.
+
+const MAX_ENTRIES = 500;
+
+interface AuditRow {
+  id: number;
+  at: number;
+  user_id: string;
+  username: string;
+  action: AuditAction;
+  entity: AuditEntity;
+  entity_id: string | null;
+  reason: string | null;
+  batch_id: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface AuditFilter {
+  entity?: AuditEntity;
+  entityId?: string;
+  userId?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+export interface NewAuditEntry {
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId?: string;
+  reason?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+const toEntry = (row: AuditRow): AuditEntry => ({
+  id: row.id,
+  at: row.at,
+  userId: row.user_id,
+  username: row.username,
+  action: row.action,
+  entity: row.entity,
+  ...(row.entity_id && { entityId: row.entity_id }),
+  ...(row.reason && { reason: row.reason }),
+  batchId: row.batch_id,
+  ...(row.before && { before: JSON.parse(row.before) }),
+  ...(row.after && { after: JSON.parse(row.after) })
+});
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// The entry for an entity write, or null when the write changed nothing.
+// Updates keep only the fields that differ.
+export function entityChange(before: Entity | null, after: Entity | null): Pick<NewAuditEntry, 'action' | 'before' | 'after'> | null {
+  if (!before && !after) return null;
+  if (!before) return { action: 'create', after: after! };
+  if (!after) return { action: 'delete', before };
+
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => !sameValue(before[field], after[field]));
+  if (fields.length === 0) return null;
+  return {
+    action: 'update',
+    before: Object.fromEntries(fields.filter(field => field in before).map(field => [field, before[field]])),
+    after: Object.fromEntries(fields.filter(field => field in after).map(field => [field, after[field]]))
+  };
+}
+
+// What the log keeps of a plan; the routes themselves are in the plans table
+export function planSummary(plan: RoutePlan): Record<string, unknown> {
+  return {
+    routes: plan.routes.length,
+    unassigned: plan.unassigned.length,
+    vehicles: [...new Set(plan.routes.map(route => route.vehicleId))].length,
+    distanceKm: Math.round(plan.routes.reduce((sum, route) => sum + route.totalDistance, 0) * 10) / 10
+  };
+}
+
+// Item counts per collection, for whole-database replacements
+export function databaseSummary(database: Database): Record<string, number> {
+  return Object.fromEntries(Object.entries(COLLECTIONS).map(([collection, key]) => [
+    collection,
+    (key === 'trucks' || key === 'sats' ? database.vehicles[key] : database[key as Exclude<keyof Database, 'vehicles'>]).length
+  ]));
+}
+
+export function openAudit(db: Sqlite.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      at INTEGER NOT NULL,
+      user_id TEXT NOT NULL,
+      username TEXT NOT NULL,
+      action TEXT NOT NULL,
+      entity TEXT NOT NULL,
+      entity_id TEXT,
+      reason TEXT,
+      batch_id TEXT NOT NULL,
+      before TEXT,
+      after TEXT
+    );
+    CREATE INDEX IF NOT EXISTS audit_log_entity ON audit_log (entity, entity_id);
+    CREATE INDEX IF NOT EXISTS audit_log_user ON audit_log (user_id);
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+  `);
+
+  const insertEntry = db.prepare(`
+    INSERT INTO audit_log (at, user_id, username, action, entity, entity_id, reason, batch_id, before, after)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const selectEntries = db.prepare(`
+    SELECT * FROM audit_log
+    WHERE (@entity IS NULL OR entity = @entity)
+      AND (@entityId IS NULL OR entity_id = @entityId COLLATE NOCASE)
+      AND (@userId IS NULL OR user_id = @userId)
+      AND (@from IS NULL OR at >= @from)
+      AND (@to IS NULL OR at <= @to)
+    ORDER BY id DESC
+    LIMIT @limit
+  `);
+
+  return {
+    // A recorder for one request; its entries share a batch id and timestamp
+    recorder: (user: User) => {
+      const batchId = randomUUID();
+      const at = Date.now();
+      return (entry: NewAuditEntry) => {
+        insertEntry.run(
+          at, user.id, user.username, entry.action, entry.entity, entry.entityId ?? null, entry.reason ?? null, batchId,
+          entry.before ? JSON.stringify(entry.before) : null,
+          entry.after ? JSON.stringify(entry.after) : null
+        );
+      };
+    },
+
+    // Newest first
+    list: (filter: AuditFilter): AuditEntry[] => (selectEntries.all({
+      entity: filter.entity ?? null,
+      entityId: filter.entityId ?? null,
+      userId: filter.userId ?? null,
+      from: filter.from ?? null,
+      to: filter.to ?? null,
+      limit: Math.min(Math.max(1, Math.floor(filter.limit ?? MAX_ENTRIES)), MAX_ENTRIES)
+    }) as AuditRow[]).map(toEntry)
+  };
+}
+
+export type Audit = ReturnType<typeof openAudit>;
+export type AuditRecorder = ReturnType<Audit['recorder']>;
@@ -0,0 +1,169 @@
+import bcrypt from 'bcryptjs';
+import type Sqlite from 'better-sqlite3';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import type { User, UserRole } from '../../src/types';
+
+// User accounts and sessions. Passwords are stored as salted bcrypt hashes.
+// A session is an opaque random token handed to the client; only its SHA-256
+// is stored, so a copy of the database cannot be used to sign in.
+
+export const USER_ROLES: UserRole[] = ['admin', 'supervisor', 'fleet-manager', 'viewer', 'driver'];
+export const MIN_PASSWORD_LENGTH = 8;
+
+const BCRYPT_ROUNDS = 12;
+
+interface UserRow {
+  id: string;
+  username: string;
+  name: string;
+  role: UserRole;
+  vehicle_id: string | null;
+  areas: string | null; // JSON array
+  password_hash: string;
+}
+
+export interface NewUser {
+  username: string;
+  name: string;
+  role: UserRole;
+  vehicleId?: string;
+  areas?: string[];
+  password: string;
+}
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  username: row.username,
+  name: row.name,
+  role: row.role,
+  ...(row.vehicle_id && { vehicleId: row.vehicle_id }),
+  ...(row.areas && { areas: JSON.parse(row.areas) as string[] })
+});
+
+const areasColumn = (areas?: string[]) => areas?.length ? JSON.stringify(areas) : null;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export function openAuth(db: Sqlite.Database, sessionTtlMs: number) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      name TEXT NOT NULL,
+      role TEXT NOT NULL,
+      vehicle_id TEXT,
+      areas TEXT,
+      password_hash TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+      expires_at INTEGER NOT NULL
+    );
+  `);
+  db.pragma('foreign_keys = ON');
+  // Databases created before zone supervisors lack the column
+  const userColumns = db.prepare('PRAGMA table_info(users)').all() as { name: string }[];
+  if (!userColumns.some(column => column.name === 'areas')) db.exec('ALTER TABLE users ADD COLUMN areas TEXT');
+
+  const selectUsers = db.prepare('SELECT * FROM users ORDER BY created_at');
+  const selectUser = db.prepare('SELECT * FROM users WHERE id = ?');
+  const selectUserByName = db.prepare('SELECT * FROM users WHERE username = ?');
+  const insertUser = db.prepare(`
+    INSERT INTO users (id, username, name, role, vehicle_id, areas, password_hash, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const updateUserRow = db.prepare('UPDATE users SET name = ?, role = ?, vehicle_id = ?, areas = ? WHERE id = ?');
+  const updatePasswordRow = db.prepare('UPDATE users SET password_hash = ? WHERE id = ?');
+  const deleteUserRow = db.prepare('DELETE FROM users WHERE id = ?');
+  const countUsers = db.prepare('SELECT COUNT(*) AS count FROM users');
+  const countAdmins = db.prepare(`SELECT COUNT(*) AS count FROM users WHERE role = 'admin'`);
+  const insertSession = db.prepare('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)');
+  const selectSession = db.prepare(`
+    SELECT users.*, sessions.expires_at FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token_hash = ? AND sessions.expires_at > ?
+  `);
+  const deleteSessionRow = db.prepare('DELETE FROM sessions WHERE token_hash = ?');
+  const deleteOtherSessions = db.prepare('DELETE FROM sessions WHERE user_id = ? AND token_hash != ?');
+  const deleteUserSessions = db.prepare('DELETE FROM sessions WHERE user_id = ?');
+  const deleteExpiredSessions = db.prepare('DELETE FROM sessions WHERE expires_at <= ?');
+
+  const findRow = (id: string) => selectUser.get(id) as UserRow | undefined;
+  // Compared against for unknown usernames
+  const unknownUserHash = bcrypt.hashSync(randomBytes(16).toString('hex'), BCRYPT_ROUNDS);
+
+  return {
+    listUsers: (): User[] => (selectUsers.all() as UserRow[]).map(toUser),
+
+    getUser: (id: string): User | null => {
+      const row = findRow(id);
+      return row ? toUser(row) : null;
+    },
+
+    hasUsers: (): boolean => (countUsers.get() as { count: number }).count > 0,
+
+    isLastAdmin: (id: string): boolean =>
+      findRow(id)?.role === 'admin' && (countAdmins.get() as { count: number }).count === 1,
+
+    createUser: async (user: NewUser): Promise<User> => {
+      const id = randomUUID();
+      const passwordHash = await bcrypt.hash(user.password, BCRYPT_ROUNDS);
+      insertUser.run(
+        id, user.username.trim(), user.name.trim(), user.role, user.vehicleId ?? null, areasColumn(user.areas),
+        passwordHash, Date.now()
+      );
+      return toUser(findRow(id)!);
+    },
+
+    usernameTaken: (username: string): boolean => !!selectUserByName.get(username.trim()),
+
+    updateUser: (id: string, changes: Pick<User, 'name' | 'role' | 'vehicleId' | 'areas'>): User | null => {
+      const result = updateUserRow.run(changes.name.trim(), changes.role, changes.vehicleId ?? null, areasColumn(changes.areas), id);
+      if (result.changes === 0) return null;
+      return toUser(findRow(id)!);
+    },
+
+    // Sessions end with the account
+    deleteUser: (id: string): boolean => deleteUserRow.run(id).changes > 0,
+
+    // The user if the password matches. Unknown usernames cost a hash too, so
+    // response times do not reveal which accounts exist.
+    verifyLogin: async (username: string, password: string): Promise<User | null> => {
+      const row = selectUserByName.get(username.trim()) as UserRow | undefined;
+      const matches = await bcrypt.compare(password, row?.password_hash ?? unknownUserHash);
+      return row && matches ? toUser(row) : null;
+    },
+
+    verifyPassword: async (id: string, password: string): Promise<boolean> => {
+      const row = findRow(id);
+      return !!row && bcrypt.compare(password, row.password_hash);
+    },
+
+    // Other sessions of the user are signed out; `keepToken` stays signed in
+    setPassword: async (id: string, password: string, keepToken?: string): Promise<void> => {
+      updatePasswordRow.run(await bcrypt.hash(password, BCRYPT_ROUNDS), id);
+      if (keepToken) deleteOtherSessions.run(id, hashToken(keepToken));
+      else deleteUserSessions.run(id);
+    },
+
+    createSession: (userId: string): { token: string; expiresAt: number } => {
+      deleteExpiredSessions.run(Date.now());
+      const token = randomBytes(32).toString('base64url');
+      const expiresAt = Date.now() + sessionTtlMs;
+      insertSession.run(hashToken(token), userId, expiresAt);
+      return { token, expiresAt };
+    },
+
+    getSession: (token: string): { user: User; expiresAt: number } | null => {
+      const row = selectSession.get(hashToken(token), Date.now()) as (UserRow & { expires_at: number }) | undefined;
+      return row ? { user: toUser(row), expiresAt: row.expires_at } : null;
+    },
+
+    endSession: (token: string) => {
+      deleteSessionRow.run(hashToken(token));
+    }
+  };
+}
+
+export type Auth = ReturnType<typeof openAuth>;
@@ -0,0 +1,42 @@
+import { serve } from '@hono/node-server';
+import { randomBytes } from 'node:crypto';
+import { createApp } from './app';
+import { openAudit } from './audit';
+import { openAuth } from './auth';
+import { openStore } from './store';
+
+// Environment: PORT (8787), DB_PATH (./data/ajastra.db, seeded from
+// src/data/database.json on first run), CORS_ORIGIN (*), SESSION_TTL_HOURS (12),
+// ADMIN_PASSWORD (password of the first admin account; generated if unset)
+
+const PORT = Number(process.env.PORT) || 8787;
+const DB_PATH = process.env.DB_PATH || 'data/ajastra.db';
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+const SESSION_TTL_HOURS = Number(process.env.SESSION_TTL_HOURS) || 12;
+
+const store = openStore(DB_PATH);
+const auth = openAuth(store.db, SESSION_TTL_HOURS * 60 * 60 * 1000);
+const audit = openAudit(store.db);
+
+// The first run creates an admin account to sign in with and create the others
+if (!auth.hasUsers()) {
+  const password = process.env.ADMIN_PASSWORD || randomBytes(9).toString('base64url');
+  await auth.createUser({ username: 'admin', name: 'Administrator', role: 'admin', password });
+  console.log(process.env.ADMIN_PASSWORD
+    ? 'Created user "admin" with the password from ADMIN_PASSWORD'
+    : `Created user "admin" with password ${password} (change it in Settings)`);
+}
+
+const app = createApp(store, auth, audit, CORS_ORIGIN);
+
+const server = serve({ fetch: app.fetch, port: PORT }, info => {
+  console.log(`Ajastra API on http://localhost:${info.port}/api (database ${DB_PATH})`);
+});
+
+const shutdown = () => {
+  server.close();
+  store.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,203 @@
+import Sqlite from 'better-sqlite3';
+import { mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { ApiCollection, Database, DatabaseChange, RoutePlan, SavedPlan, Vehicle } from '../../src/types';
+
+// SQLite persistence. Every entity is a JSON document in one table, keyed by
+// collection and id, so the schema follows the app's types without migrations.
+// Insertion order (rowid) is kept, which is the order lists show in the app.
+
+// Where each collection lives in the app's Database shape (trucks and sats under vehicles)
+export const COLLECTIONS: Record<ApiCollection, keyof Database | keyof Database['vehicles']> = {
+  bins: 'smartBins',
+  stations: 'compactStations',
+  dumpyards: 'dumpyards',
+  depots: 'depots',
+  profiles: 'vehicleProfiles',
+  trucks: 'trucks',
+  sats: 'sats'
+};
+
+export type Collection = ApiCollection;
+
+export interface Entity {
+  id: string;
+  [key: string]: unknown;
+}
+
+// A write as it happened: before is null for a new item, after for a removed one
+export interface Write {
+  collection: Collection;
+  before: Entity | null;
+  after: Entity | null;
+}
+
+export type WriteListener = (write: Write) => void;
+
+const SEED_PATH = new URL('../../src/data/database.json', import.meta.url);
+
+export function isCollection(value: string): value is Collection {
+  return value in COLLECTIONS;
+}
+
+export function openStore(path: string) {
+  if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true });
+  const db = new Sqlite(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS entities (
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (collection, id)
+    );
+    CREATE TABLE IF NOT EXISTS plans (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      routes TEXT NOT NULL,
+      unassigned TEXT NOT NULL
+    );
+  `);
+
+  const selectAll = db.prepare('SELECT data FROM entities WHERE collection = ? ORDER BY rowid');
+  const selectOne = db.prepare('SELECT data FROM entities WHERE collection = ? AND id = ?');
+  const upsert = db.prepare(`
+    INSERT INTO entities (collection, id, data, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+  `);
+  const deleteOne = db.prepare('DELETE FROM entities WHERE collection = ? AND id = ?');
+  const deleteAll = db.prepare('DELETE FROM entities');
+  const countEntities = db.prepare('SELECT COUNT(*) AS count FROM entities');
+
+  const list = <T = Entity>(collection: Collection): T[] =>
+    (selectAll.all(collection) as { data: string }[]).map(row => JSON.parse(row.data) as T);
+
+  const get = (collection: Collection, id: string): Entity | null => {
+    const row = selectOne.get(collection, id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) as Entity : null;
+  };
+
+  const put = (collection: Collection, item: Entity, onWrite?: WriteListener): Entity => {
+    const before = onWrite ? get(collection, item.id) : null;
+    upsert.run(collection, item.id, JSON.stringify(item), Date.now());
+    onWrite?.({ collection, before, after: item });
+    return item;
+  };
+
+  const readDatabase = (): Database => ({
+    vehicles: { trucks: list<Vehicle>('trucks'), sats: list<Vehicle>('sats') },
+    vehicleProfiles: list('profiles'),
+    depots: list('depots'),
+    smartBins: list('bins'),
+    compactStations: list('stations'),
+    dumpyards: list('dumpyards')
+  } as Database);
+
+  // `onWrite` hears every item as replaced, added or removed, against what was stored before
+  const replaceDatabase = db.transaction((database: Database, onWrite?: WriteListener) => {
+    const previous = new Map((Object.keys(COLLECTIONS) as Collection[]).map(collection => [
+      collection, new Map(onWrite ? list<Entity>(collection).map(item => [item.id, item]) : [])
+    ]));
+    deleteAll.run();
+    (Object.keys(COLLECTIONS) as Collection[]).forEach(collection => {
+      const items = collection === 'trucks' || collection === 'sats'
+        ? database.vehicles[collection]
+        : database[COLLECTIONS[collection] as Exclude<keyof Database, 'vehicles'>];
+      const before = previous.get(collection)!;
+      (items as unknown as Entity[]).forEach(item => {
+        put(collection, item);
+        onWrite?.({ collection, before: before.get(item.id) ?? null, after: item });
+        before.delete(item.id);
+      });
+      before.forEach(item => onWrite?.({ collection, before: item, after: null }));
+    });
+  });
+
+  // Vehicles parked at a removed depot fall back to starting at their first stop
+  const remove = db.transaction((collection: Collection, id: string, onWrite?: WriteListener): boolean => {
+    const before = onWrite ? get(collection, id) : null;
+    const removed = deleteOne.run(collection, id).changes > 0;
+    if (removed) onWrite?.({ collection, before, after: null });
+    if (removed && collection === 'depots') {
+      (['trucks', 'sats'] as const).forEach(vehicles => {
+        list<Vehicle>(vehicles).filter(vehicle => vehicle.homeDepotId === id).forEach(vehicle => {
+          const { homeDepotId: _removed, ...rest } = vehicle;
+          put(vehicles, rest as unknown as Entity, onWrite);
+        });
+      });
+    }
+    return removed;
+  });
+
+  // A batch of writes from the app, applied all or nothing. `onWrite` hears
+  // each write along with the change that caused it.
+  const applyChanges = db.transaction((changes: DatabaseChange[], onWrite?: (write: Write, change: DatabaseChange) => void) => {
+    changes.forEach(change => {
+      const listener = onWrite && ((write: Write) => onWrite(write, change));
+      if (change.op === 'put') put(change.collection, change.item as Entity, listener);
+      else remove(change.collection, change.id, listener);
+    });
+  });
+
+  if ((countEntities.get() as { count: number }).count === 0) {
+    replaceDatabase(JSON.parse(readFileSync(SEED_PATH, 'utf8')) as Database);
+  }
+
+  const toPlan = (row: { id: number; created_at: number; updated_at: number; routes: string; unassigned: string }): SavedPlan => ({
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    routes: JSON.parse(row.routes),
+    unassigned: JSON.parse(row.unassigned)
+  });
+  const selectLatestPlan = db.prepare('SELECT * FROM plans ORDER BY id DESC LIMIT 1');
+  const selectPlan = db.prepare('SELECT * FROM plans WHERE id = ?');
+  const selectPlanSummaries = db.prepare('SELECT id, created_at, updated_at, routes, unassigned FROM plans ORDER BY id DESC LIMIT ?');
+  const insertPlan = db.prepare('INSERT INTO plans (created_at, updated_at, routes, unassigned) VALUES (?, ?, ?, ?)');
+  const updatePlanRow = db.prepare('UPDATE plans SET updated_at = ?, routes = ?, unassigned = ? WHERE id = ?');
+
+  return {
+    list,
+    get,
+    put,
+    remove,
+    applyChanges,
+    readDatabase,
+    replaceDatabase,
+
+    latestPlan: (): SavedPlan | null => {
+      const row = selectLatestPlan.get();
+      return row ? toPlan(row as Parameters<typeof toPlan>[0]) : null;
+    },
+
+    // Newest first, without routes, for listing
+    listPlans: (limit: number) => (selectPlanSummaries.all(limit) as Parameters<typeof toPlan>[0][]).map(row => {
+      const plan = toPlan(row);
+      return { id: plan.id, createdAt: plan.createdAt, updatedAt: plan.updatedAt, routeCount: plan.routes.length, unassignedCount: plan.unassigned.length };
+    }),
+
+    createPlan: (plan: RoutePlan): SavedPlan => {
+      const now = Date.now();
+      const { lastInsertRowid } = insertPlan.run(now, now, JSON.stringify(plan.routes), JSON.stringify(plan.unassigned));
+      return { id: Number(lastInsertRowid), createdAt: now, updatedAt: now, ...plan };
+    },
+
+    getPlan: (id: number): SavedPlan | null => {
+      const row = selectPlan.get(id);
+      return row ? toPlan(row as Parameters<typeof toPlan>[0]) : null;
+    },
+
+    updatePlan: (id: number, plan: RoutePlan): SavedPlan | null => {
+      const now = Date.now();
+      if (updatePlanRow.run(now, JSON.stringify(plan.routes), JSON.stringify(plan.unassigned), id).changes === 0) return null;
+      return toPlan(selectPlan.get(id) as Parameters<typeof toPlan>[0]);
+    },
+
+    db,
+    close: () => db.close()
+  };
+}
+
+export type Store = ReturnType<typeof openStore>;
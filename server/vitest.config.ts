@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Every sign-in hashes with bcrypt's full cost
+    testTimeout: 20000
+  }
+});
@@ -3,42 +3,68 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
 import { AuthProvider, useAuth } from "@/context/AuthContext";
 import { DataProvider } from "@/context/DataContext";
 import LoginPage from "./pages/LoginPage";
 import Dashboard from "./pages/Dashboard";
+import { DASHBOARD_TABS, tabPath } from "@/lib/navigation";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
+// Where the login page sends the user once signed in
+interface LoginRedirectState {
+  from?: string;
+}
+
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, isRestoring } = useAuth();
+  const location = useLocation();
+
+  if (isRestoring) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
   
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    const state: LoginRedirectState = { from: `${location.pathname}${location.search}${location.hash}` };
+    return <Navigate to="/login" replace state={state} />;
   }
   
   return <>{children}</>;
 }
 
-function AppRoutes() {
+function LoginRoute() {
   const { isAuthenticated } = useAuth();
-  
+  const location = useLocation();
+
+  if (isAuthenticated) {
+    return <Navigate to={(location.state as LoginRedirectState | null)?.from || "/"} replace />;
+  }
+
+  return <LoginPage />;
+}
+
+function AppRoutes() {
   return (
     <Routes>
-      <Route 
-        path="/login" 
-        element={isAuthenticated ? <Navigate to="/" replace /> : <LoginPage />} 
-      />
-      <Route 
-        path="/" 
-        element={
-          <ProtectedRoute>
-            <Dashboard />
-          </ProtectedRoute>
-        } 
-      />
+      <Route path="/login" element={<LoginRoute />} />
+      {DASHBOARD_TABS.map(tab => (
+        <Route 
+          key={tab}
+          path={tabPath(tab)} 
+          element={
+            <ProtectedRoute>
+              <Dashboard tab={tab} />
+            </ProtectedRoute>
+          } 
+        />
+      ))}
       <Route path="*" element={<NotFound />} />
     </Routes>
   );
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { BinLevelSample } from '@/types';
+import { cn } from '@/lib/utils';
+
+const chartConfig = {
+  level: { label: 'Fill %', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const formatDay = (at: number) => new Date(at).toLocaleDateString([], { day: 'numeric', month: 'short' });
+const formatReading = (at: number) => new Date(at).toLocaleString([], {
+  day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit'
+});
+
+interface BinLevelChartProps {
+  samples: BinLevelSample[];
+  sparkline?: boolean; // bare line without axes or tooltip, for lists
+  className?: string;
+}
+
+// Fill level of one bin over time from its recorded readings
+export default function BinLevelChart({ samples, sparkline = false, className }: BinLevelChartProps) {
+  if (samples.length < 2) {
+    return (
+      <p className={cn('text-[10px] text-muted-foreground', className)}>
+        {samples.length === 0 ? 'No history yet' : 'One reading so far'}
+      </p>
+    );
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className={cn('aspect-auto', className)}>
+      <LineChart
+        data={samples}
+        margin={sparkline ? { top: 2, right: 2, bottom: 2, left: 2 } : { top: 4, right: 8, bottom: 0, left: -24 }}
+      >
+        <XAxis
+          dataKey="at"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          hide={sparkline}
+          tickFormatter={formatDay}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={24}
+        />
+        <YAxis domain={[0, 100]} hide={sparkline} tickLine={false} axisLine={false} />
+        {!sparkline && (
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => formatReading(payload[0]?.payload.at)} />}
+          />
+        )}
+        <Line
+          dataKey="level"
+          type="monotone"
+          stroke="var(--color-level)"
+          strokeWidth={sparkline ? 1.5 : 2}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -1,10 +1,15 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
+import { createRoot } from 'react-dom/client';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet.markercluster/dist/MarkerCluster.css';
 import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
 import 'leaflet.markercluster';
 import { useData } from '@/context/DataContext';
+import { UNASSIGNED_REASON_LABELS } from '@/utils/routeOptimizer';
+import { getBinLevelHistory } from '@/utils/levelHistory';
+import { sensorIssues } from '@/utils/sensorHealth';
+import BinLevelChart from './BinLevelChart';
 
 // Fix Leaflet default marker icons
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -18,6 +23,8 @@ interface MapProps {
   showSmartBins: boolean;
   showCompactStations: boolean;
   showDumpyards: boolean;
+  showDepots: boolean;
+  showSensorIssues: boolean;
   driverVehicleId?: string;
 }
 
@@ -35,35 +42,62 @@ function createCircleIcon(color: string, size: number = 12) {
 const binIcon = createCircleIcon('#22c55e', 14);
 const stationIcon = createCircleIcon('#f59e0b', 16);
 const dumpyardIcon = createCircleIcon('#ef4444', 18);
+const depotIcon = createCircleIcon('#6366f1', 18);
+const uncollectedIcon = createCircleIcon('#dc2626', 16);
+// Hollow ring drawn around a bin whose sensor data can't be trusted
+const untrustedSensorIcon = L.divIcon({
+  html: '<div style="width: 24px; height: 24px; border: 3px solid #f97316; border-radius: 50%; box-shadow: 0 0 6px rgba(249,115,22,0.6);"></div>',
+  className: 'simple-marker',
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+  popupAnchor: [0, -12]
+});
+
+// Popups are plain HTML, so a bin's level chart gets its own React root while the popup is open
+function mountLevelChart(popup: L.Popup, binId: string) {
+  const slot = popup.getElement()?.querySelector<HTMLElement>('.bin-level-chart');
+  if (!slot) return;
+
+  const root = createRoot(slot);
+  let open = true;
+  popup.once('remove', () => {
+    open = false;
+    root.unmount();
+  });
+  getBinLevelHistory(binId).then(samples => {
+    if (open) root.render(<BinLevelChart samples={samples} className="h-full w-full" />);
+  });
+}
 
-export default function HyderabadMap({ showSmartBins, showCompactStations, showDumpyards, driverVehicleId }: MapProps) {
+export default function HyderabadMap({ showSmartBins, showCompactStations, showDumpyards, showDepots, showSensorIssues, driverVehicleId }: MapProps) {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<L.Map | null>(null);
   const binClusterRef = useRef<L.MarkerClusterGroup | null>(null);
   const stationClusterRef = useRef<L.MarkerClusterGroup | null>(null);
   const dumpyardClusterRef = useRef<L.MarkerClusterGroup | null>(null);
+  const depotsRef = useRef<L.LayerGroup | null>(null);
   const routesRef = useRef<L.LayerGroup | null>(null);
+  const uncollectedRef = useRef<L.LayerGroup | null>(null);
+  const sensorIssuesRef = useRef<L.LayerGroup | null>(null);
   const [isMapReady, setIsMapReady] = useState(false);
   
-  const { data, routes } = useData();
-
-  // Get driver's specific route
-  const driverRoute = driverVehicleId 
-    ? routes.find(r => r.vehicleId.toLowerCase() === driverVehicleId.toLowerCase())
-    : null;
-
-  // Get bin/station/dumpyard IDs that are in the driver's route - memoized
-  const { driverBinIds, driverStationIds, driverDumpyardIds } = useMemo(() => ({
-    driverBinIds: new Set(
-      driverRoute?.route.filter(p => p.type === 'smartbin').map(p => p.id) || []
-    ),
-    driverStationIds: new Set(
-      driverRoute?.route.filter(p => p.type === 'compact-station').map(p => p.id) || []
-    ),
-    driverDumpyardIds: new Set(
-      driverRoute?.route.filter(p => p.type === 'dumpyard').map(p => p.id) || []
-    )
-  }), [driverRoute]);
+  const { data, routes, unassignedBins, sensorHealth } = useData();
+
+  // Get driver's trips (a vehicle may make several trips per shift) - memoized
+  const driverRoutes = useMemo(() => driverVehicleId
+    ? routes.filter(r => r.vehicleId.toLowerCase() === driverVehicleId.toLowerCase())
+    : [], [routes, driverVehicleId]);
+
+  // Get bin/station/dumpyard IDs that are in the driver's trips - memoized
+  const { driverBinIds, driverStationIds, driverDumpyardIds, driverDepotIds } = useMemo(() => {
+    const points = driverRoutes.flatMap(r => r.route);
+    return {
+      driverBinIds: new Set(points.filter(p => p.type === 'smartbin').map(p => p.id)),
+      driverStationIds: new Set(points.filter(p => p.type === 'compact-station').map(p => p.id)),
+      driverDumpyardIds: new Set(points.filter(p => p.type === 'dumpyard').map(p => p.id)),
+      driverDepotIds: new Set(points.filter(p => p.type === 'depot').map(p => p.id))
+    };
+  }, [driverRoutes]);
 
   // Memoize filtered data to prevent recalculation
   const filteredData = useMemo(() => ({
@@ -75,8 +109,11 @@ export default function HyderabadMap({ showSmartBins, showCompactStations, showD
       : data.compactStations,
     dumpyardsToShow: driverVehicleId
       ? data.dumpyards.filter(d => driverDumpyardIds.has(d.id))
-      : data.dumpyards
-  }), [data, driverVehicleId, driverBinIds, driverStationIds, driverDumpyardIds]);
+      : data.dumpyards,
+    depotsToShow: driverVehicleId
+      ? data.depots.filter(d => driverDepotIds.has(d.id))
+      : data.depots
+  }), [data, driverVehicleId, driverBinIds, driverStationIds, driverDumpyardIds, driverDepotIds]);
 
   // Initialize map
   useEffect(() => {
@@ -152,7 +189,11 @@ export default function HyderabadMap({ showSmartBins, showCompactStations, showD
       }
     }).addTo(map);
 
+    // Only a handful of depots, so no clustering
+    depotsRef.current = L.layerGroup().addTo(map);
     routesRef.current = L.layerGroup().addTo(map);
+    uncollectedRef.current = L.layerGroup().addTo(map);
+    sensorIssuesRef.current = L.layerGroup().addTo(map);
     mapRef.current = map;
     setIsMapReady(true);
 
@@ -167,7 +208,10 @@ export default function HyderabadMap({ showSmartBins, showCompactStations, showD
       binClusterRef.current = null;
       stationClusterRef.current = null;
       dumpyardClusterRef.current = null;
+      depotsRef.current = null;
       routesRef.current = null;
+      uncollectedRef.current = null;
+      sensorIssuesRef.current = null;
     };
   }, []);
 
@@ -186,8 +230,10 @@ export default function HyderabadMap({ showSmartBins, showCompactStations, showD
             <strong>${bin.id}</strong>
             <div style="color: #666;">${bin.area}</div>
             <div style="margin-top: 4px;">Fill: ${bin.currentLevel}%</div>
+            <div class="bin-level-chart" style="width: 200px; height: 80px; margin-top: 6px;"></div>
           </div>
         `);
+        marker.on('popupopen', (event: L.PopupEvent) => mountLevelChart(event.popup, bin.id));
         markers.push(marker);
       });
       binClusterRef.current.addLayers(markers);
@@ -239,13 +285,86 @@ export default function HyderabadMap({ showSmartBins, showCompactStations, showD
     }
   }, [isMapReady, showDumpyards, filteredData.dumpyardsToShow]);
 
+  // Update depot markers
+  useEffect(() => {
+    if (!isMapReady || !depotsRef.current) return;
+
+    depotsRef.current.clearLayers();
+
+    if (showDepots) {
+      filteredData.depotsToShow.forEach(depot => {
+        const parked = [...data.vehicles.sats, ...data.vehicles.trucks].filter(v => v.homeDepotId === depot.id).length;
+        const marker = L.marker([depot.lat, depot.lng], { icon: depotIcon });
+        marker.bindPopup(`
+          <div style="min-width: 120px; font-size: 12px;">
+            <strong>${depot.name}</strong>
+            <div style="color: #666;">${depot.id}</div>
+            <div style="margin-top: 4px;">${parked} vehicles based here</div>
+          </div>
+        `);
+        depotsRef.current?.addLayer(marker);
+      });
+    }
+  }, [isMapReady, showDepots, filteredData.depotsToShow, data.vehicles]);
+
+  // Update uncollected bin and station markers (admin view only)
+  useEffect(() => {
+    if (!isMapReady || !uncollectedRef.current) return;
+
+    uncollectedRef.current.clearLayers();
+
+    if (driverVehicleId) return;
+
+    unassignedBins.forEach(entry => {
+      const place = 'binId' in entry
+        ? showSmartBins && data.smartBins.find(b => b.id === entry.binId)
+        : showCompactStations && data.compactStations.find(s => s.id === entry.stationId);
+      if (!place) return;
+      const detail = 'stationId' in entry ? `${entry.load} kg not emptied` : 'Uncollected';
+      const marker = L.marker([place.lat, place.lng], { icon: uncollectedIcon, zIndexOffset: 1000 });
+      marker.bindPopup(`
+        <div style="min-width: 120px; font-size: 12px;">
+          <strong>${place.id}</strong>
+          <div style="color: #666;">${place.area}</div>
+          <div style="margin-top: 4px; color: #dc2626;">${detail}: ${UNASSIGNED_REASON_LABELS[entry.reason]}</div>
+        </div>
+      `);
+      uncollectedRef.current?.addLayer(marker);
+    });
+  }, [isMapReady, showSmartBins, showCompactStations, driverVehicleId, unassignedBins, data.smartBins, data.compactStations]);
+
+  // Highlight bins whose sensor data can't be trusted (admin view only)
+  useEffect(() => {
+    if (!isMapReady || !sensorIssuesRef.current) return;
+
+    sensorIssuesRef.current.clearLayers();
+
+    if (driverVehicleId || !showSensorIssues) return;
+
+    data.smartBins.forEach(bin => {
+      const health = sensorHealth.get(bin.id);
+      if (!health || health.trusted) return;
+      const issues = sensorIssues(health).map(issue => `<div style="color: ${issue.severity === 'warning' ? '#d97706' : '#ea580c'};">${issue.label}</div>`);
+      const marker = L.marker([bin.lat, bin.lng], { icon: untrustedSensorIcon, zIndexOffset: 900 });
+      marker.bindPopup(`
+        <div style="min-width: 140px; font-size: 12px;">
+          <strong>${bin.id}</strong>
+          <div style="color: #666;">${bin.area}</div>
+          <div style="margin-top: 4px;">Reported fill: ${bin.currentLevel}%${health.battery !== undefined ? ` · Battery ${Math.round(health.battery)}%` : ''}</div>
+          <div style="margin-top: 4px;">${issues.join('')}</div>
+        </div>
+      `);
+      sensorIssuesRef.current?.addLayer(marker);
+    });
+  }, [isMapReady, showSensorIssues, driverVehicleId, data.smartBins, sensorHealth]);
+
   // Update routes - show only driver's route or all routes
   useEffect(() => {
     if (!isMapReady || !routesRef.current) return;
 
     routesRef.current.clearLayers();
 
-    const routesToShow = driverVehicleId && driverRoute ? [driverRoute] : routes;
+    const routesToShow = driverVehicleId ? driverRoutes : routes;
 
     const routeColors = [
       '#22d3ee', '#f59e0b', '#a855f7', '#22c55e', '#ef4444',
@@ -264,7 +383,7 @@ export default function HyderabadMap({ showSmartBins, showCompactStations, showD
         routesRef.current?.addLayer(polyline);
       }
     });
-  }, [isMapReady, routes, driverVehicleId, driverRoute]);
+  }, [isMapReady, routes, driverVehicleId, driverRoutes]);
 
   return (
     <div 
@@ -5,6 +5,8 @@ interface MapWrapperProps {
   showSmartBins: boolean;
   showCompactStations: boolean;
   showDumpyards: boolean;
+  showDepots: boolean;
+  showSensorIssues: boolean;
   driverVehicleId?: string;
 }
 
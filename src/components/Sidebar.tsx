@@ -1,25 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Home, Edit3, Route, Settings, LogOut, Truck, User, Menu, X } from 'lucide-react';
+import { Home, Edit3, Route, History, Settings, LogOut, Truck, User, Menu, X } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { cn } from '@/lib/utils';
+import { canOpenTab, DashboardTab as TabType } from '@/lib/navigation';
+import { ROLE_LABELS } from '@/lib/permissions';
 import logoDark from '@/assets/logo-dark.jpg';
 import logoLight from '@/assets/logo-light.jpg';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 
-type TabType = 'home' | 'modification' | 'routes' | 'settings';
-
 interface SidebarProps {
   activeTab: TabType;
   onTabChange: (tab: TabType) => void;
 }
 
 const tabs = [
-  { id: 'home' as TabType, label: 'Homepage', icon: Home, adminOnly: false },
-  { id: 'modification' as TabType, label: 'Modification', icon: Edit3, adminOnly: true },
-  { id: 'routes' as TabType, label: 'Routes', icon: Route, adminOnly: false },
-  { id: 'settings' as TabType, label: 'Settings', icon: Settings, adminOnly: false },
+  { id: 'home' as TabType, label: 'Homepage', icon: Home },
+  { id: 'modification' as TabType, label: 'Modification', icon: Edit3 },
+  { id: 'routes' as TabType, label: 'Routes', icon: Route },
+  { id: 'activity' as TabType, label: 'Activity', icon: History },
+  { id: 'settings' as TabType, label: 'Settings', icon: Settings },
 ];
 
 // Mobile Header Component
@@ -41,7 +42,7 @@ export function MobileHeader({ activeTab, onTabChange }: SidebarProps) {
   }, []);
 
   const accessibleTabs = tabs.filter(tab => 
-    !tab.adminOnly || user?.role === 'admin'
+    canOpenTab(tab.id, user)
   );
 
   const handleTabChange = (tab: TabType) => {
@@ -90,17 +91,17 @@ export function MobileHeader({ activeTab, onTabChange }: SidebarProps) {
           <div className="p-4 border-b border-sidebar-border">
             <div className="flex items-center gap-3 p-3 rounded-xl bg-sidebar-accent">
               <div className="w-9 h-9 rounded-lg bg-primary/20 flex items-center justify-center">
-                {user?.role === 'admin' ? (
-                  <User className="w-4 h-4 text-primary" />
-                ) : (
+                {user?.role === 'driver' ? (
                   <Truck className="w-4 h-4 text-primary" />
+                ) : (
+                  <User className="w-4 h-4 text-primary" />
                 )}
               </div>
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-foreground capitalize">{user?.role}</p>
-                {user?.vehicleId && (
-                  <p className="text-xs text-muted-foreground truncate">{user.vehicleId}</p>
-                )}
+                <p className="text-sm font-medium text-foreground truncate">{user?.name}</p>
+                <p className="text-xs text-muted-foreground truncate capitalize">
+                  {user && ROLE_LABELS[user.role]}{user?.vehicleId && ` · ${user.vehicleId}`}
+                </p>
               </div>
             </div>
           </div>
@@ -161,7 +162,7 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
   }, []);
 
   const accessibleTabs = tabs.filter(tab => 
-    !tab.adminOnly || user?.role === 'admin'
+    canOpenTab(tab.id, user)
   );
 
   return (
@@ -191,17 +192,17 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
       <div className="p-4 border-b border-sidebar-border">
         <div className="flex items-center gap-3 p-3 rounded-xl bg-sidebar-accent">
           <div className="w-9 h-9 rounded-lg bg-primary/20 flex items-center justify-center">
-            {user?.role === 'admin' ? (
-              <User className="w-4 h-4 text-primary" />
-            ) : (
+            {user?.role === 'driver' ? (
               <Truck className="w-4 h-4 text-primary" />
+            ) : (
+              <User className="w-4 h-4 text-primary" />
             )}
           </div>
           <div className="flex-1 min-w-0">
-            <p className="text-sm font-medium text-foreground capitalize">{user?.role}</p>
-            {user?.vehicleId && (
-              <p className="text-xs text-muted-foreground truncate">{user.vehicleId}</p>
-            )}
+            <p className="text-sm font-medium text-foreground truncate">{user?.name}</p>
+            <p className="text-xs text-muted-foreground truncate capitalize">
+              {user && ROLE_LABELS[user.role]}{user?.vehicleId && ` · ${user.vehicleId}`}
+            </p>
           </div>
         </div>
       </div>
@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Users, Plus, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/context/AuthContext';
+import { useData } from '@/context/DataContext';
+import { User, UserRole } from '@/types';
+import { createUser, deleteUser, fetchUsers, updateUser, UserInput } from '@/utils/apiClient';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const USERS_QUERY_KEY = ['users'];
+const MIN_PASSWORD_LENGTH = 8; // the server's minimum
+
+interface AccountDraft {
+  username: string;
+  name: string;
+  role: UserRole;
+  vehicleId: string;
+  areas: string[];
+  password: string;
+}
+
+const EMPTY_DRAFT: AccountDraft = { username: '', name: '', role: 'driver', vehicleId: '', areas: [], password: '' };
+
+// Admin-only list of sign-in accounts. Each driver account is bound to one vehicle
+// and each zone supervisor to the areas they manage.
+export default function UserAccounts() {
+  const { user: currentUser } = useAuth();
+  const { data } = useData();
+  const queryClient = useQueryClient();
+  // null while closed; editing holds the account being changed, undefined for a new one
+  const [editing, setEditing] = useState<User | undefined | null>(null);
+  const [draft, setDraft] = useState<AccountDraft>(EMPTY_DRAFT);
+  const [draftError, setDraftError] = useState('');
+
+  const { data: users = [], isLoading, error } = useQuery({
+    queryKey: USERS_QUERY_KEY,
+    queryFn: ({ signal }) => fetchUsers(signal)
+  });
+
+  const vehicleIds = [...data.vehicles.trucks, ...data.vehicles.sats].map(vehicle => vehicle.id);
+  // An account keeps areas whose assets have all been removed, so those are listed too
+  const areaNames = [...new Set([
+    ...[...data.smartBins, ...data.compactStations].map(asset => asset.area),
+    ...draft.areas
+  ])].sort();
+
+  const saveAccount = useMutation({
+    mutationFn: ({ id, input }: { id?: string; input: UserInput }) => id ? updateUser(id, input) : createUser(input),
+    onSuccess: (saved, { id }) => {
+      queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY });
+      toast.success(id ? `Updated ${saved.username}` : `Created ${saved.username}`);
+      setEditing(null);
+    },
+    onError: (err: Error) => setDraftError(err.message)
+  });
+
+  const removeAccount = useMutation({
+    mutationFn: (account: User) => deleteUser(account.id),
+    onSuccess: (_result, account) => {
+      queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY });
+      toast.success(`Deleted ${account.username}`);
+    },
+    onError: (err: Error) => toast.error(err.message)
+  });
+
+  const openEditor = (account?: User) => {
+    setEditing(account);
+    setDraft(account
+      ? {
+          username: account.username, name: account.name, role: account.role,
+          vehicleId: account.vehicleId ?? '', areas: account.areas ?? [], password: ''
+        }
+      : EMPTY_DRAFT);
+    setDraftError('');
+  };
+
+  const handleSave = () => {
+    const isNew = editing === undefined;
+    if ((isNew && !draft.username.trim()) || !draft.name.trim()) {
+      setDraftError(isNew ? 'Username and name are required' : 'Name is required');
+      return;
+    }
+    if (draft.role === 'driver' && !draft.vehicleId) {
+      setDraftError('Choose the vehicle this driver operates');
+      return;
+    }
+    if (draft.role === 'supervisor' && draft.areas.length === 0) {
+      setDraftError('Choose at least one area for this supervisor');
+      return;
+    }
+    if ((isNew || draft.password) && draft.password.length < MIN_PASSWORD_LENGTH) {
+      setDraftError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    saveAccount.mutate({
+      id: editing?.id,
+      input: {
+        ...(isNew && { username: draft.username.trim() }),
+        name: draft.name.trim(),
+        role: draft.role,
+        ...(draft.role === 'driver' && { vehicleId: draft.vehicleId }),
+        ...(draft.role === 'supervisor' && { areas: draft.areas }),
+        ...(draft.password && { password: draft.password })
+      }
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.06 }}
+      className="glass rounded-xl p-4 md:p-6"
+    >
+      <div className="flex items-center justify-between gap-2 mb-4 md:mb-6">
+        <div className="flex items-center gap-2 md:gap-3">
+          <div className="p-1.5 md:p-2 rounded-lg bg-primary/20">
+            <Users className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+          </div>
+          <h2 className="text-base md:text-lg font-semibold text-foreground">User Accounts</h2>
+        </div>
+        <Button variant="outline" size="sm" className="text-xs md:text-sm" onClick={() => openEditor()}>
+          <Plus className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+          Add User
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">Could not load accounts: {(error as Error).message}</p>
+      ) : isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading accounts…</p>
+      ) : (
+        <div className="rounded-lg bg-secondary/50 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Vehicle / Areas</TableHead>
+                <TableHead className="w-20" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map(account => (
+                <TableRow key={account.id}>
+                  <TableCell className="font-mono text-xs">{account.username}</TableCell>
+                  <TableCell>{account.name}</TableCell>
+                  <TableCell>{ROLE_LABELS[account.role]}</TableCell>
+                  <TableCell>{account.vehicleId ?? account.areas?.join(', ') ?? '—'}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(account)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={account.id === currentUser?.id || removeAccount.isPending}
+                        onClick={() => removeAccount.mutate(account)}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => { if (!open) setEditing(null); }}>
+        <DialogContent className="max-w-[90vw] sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.username}` : 'Add User'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'Setting a new password signs the user out everywhere.'
+                : 'Share the username and password with the new user.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 mt-4">
+            {!editing && (
+              <div>
+                <Label>Username</Label>
+                <Input
+                  placeholder="e.g. driver.t101"
+                  value={draft.username}
+                  onChange={(e) => { setDraft({ ...draft, username: e.target.value }); setDraftError(''); }}
+                />
+              </div>
+            )}
+            <div>
+              <Label>Name</Label>
+              <Input
+                placeholder="Full name"
+                value={draft.name}
+                onChange={(e) => { setDraft({ ...draft, name: e.target.value }); setDraftError(''); }}
+              />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select
+                value={draft.role}
+                onValueChange={(role) => { setDraft({ ...draft, role: role as UserRole }); setDraftError(''); }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.role === 'driver' && (
+              <div>
+                <Label>Vehicle</Label>
+                <Select
+                  value={draft.vehicleId}
+                  onValueChange={(vehicleId) => { setDraft({ ...draft, vehicleId }); setDraftError(''); }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a vehicle" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vehicleIds.map(id => (
+                      <SelectItem key={id} value={id}>{id}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {draft.role === 'supervisor' && (
+              <div>
+                <Label>Areas</Label>
+                <div className="mt-2 grid grid-cols-2 gap-2 max-h-40 overflow-auto scrollbar-thin">
+                  {areaNames.map(area => (
+                    <label key={area} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={draft.areas.includes(area)}
+                        onCheckedChange={(checked) => {
+                          setDraft({ ...draft, areas: checked ? [...draft.areas, area] : draft.areas.filter(a => a !== area) });
+                          setDraftError('');
+                        }}
+                      />
+                      {area}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div>
+              <Label>{editing ? 'New Password (optional)' : 'Password'}</Label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                value={draft.password}
+                onChange={(e) => { setDraft({ ...draft, password: e.target.value }); setDraftError(''); }}
+              />
+            </div>
+
+            {draftError && (
+              <p className="text-sm text-destructive">{draftError}</p>
+            )}
+
+            <Button onClick={handleSave} className="w-full" disabled={saveAccount.isPending}>
+              {editing ? 'Save Changes' : 'Create User'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+}
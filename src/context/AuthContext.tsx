@@ -1,28 +1,178 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { User, UserRole } from '@/types';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { AuthSession, User, UserRole } from '@/types';
+import { fetchSession, setAuthToken, setUnauthorizedHandler, signIn, signOut } from '@/utils/apiClient';
+import { hasPermission, Permission } from '@/lib/permissions';
+
+const SESSION_STORAGE_KEY = 'ajastra_session';
+// Shared by all tabs, so working in one keeps the others signed in
+const LAST_ACTIVITY_STORAGE_KEY = 'ajastra_last_activity';
+// Drivers glance at their route between stops without touching the screen, so they get longer
+const IDLE_TIMEOUT_MINUTES: Record<UserRole, number> = {
+  admin: 30,
+  supervisor: 30,
+  'fleet-manager': 30,
+  viewer: 30,
+  driver: 240
+};
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+// Activity is written to localStorage at most this often
+const ACTIVITY_WRITE_INTERVAL_MS = 15 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+// Longer setTimeout delays overflow and fire at once, so far-off expiries are waited for in steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 
 interface AuthContextType {
   user: User | null;
-  login: (role: UserRole, vehicleId?: string) => void;
+  login: (username: string, password: string) => Promise<void>; // rejects with the server's reason
   logout: () => void;
+  can: (permission: Permission, area?: string) => boolean; // see hasPermission
   isAuthenticated: boolean;
+  isRestoring: boolean; // a stored session is being checked with the server
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+function readLastActivity(): number {
+  return Number(localStorage.getItem(LAST_ACTIVITY_STORAGE_KEY)) || 0;
+}
+
+function isIdle(session: AuthSession, now = Date.now()): boolean {
+  return now - readLastActivity() > IDLE_TIMEOUT_MINUTES[session.user.role] * 60 * 1000;
+}
+
+// Load the session saved by an earlier visit, unless it has expired or sat idle too long
+function loadStoredSession(): AuthSession | null {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as AuthSession;
+      if (typeof parsed.token === 'string' && parsed.user?.role in IDLE_TIMEOUT_MINUTES
+        && parsed.expiresAt > Date.now() && !isIdle(parsed)) {
+        return parsed;
+      }
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to load stored session:', error);
+  }
+  return null;
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(() => {
+    const stored = loadStoredSession();
+    setAuthToken(stored?.token ?? null);
+    return stored;
+  });
+  const [isRestoring, setIsRestoring] = useState(() => session !== null);
+  const lastActivityWriteRef = useRef(0);
+
+  const endSession = useCallback(() => {
+    setAuthToken(null);
+    setSession(null);
+  }, []);
+
+  const expireSession = useCallback((message = 'Your session has ended. Please sign in again.') => {
+    endSession();
+    toast.info(message, { id: 'session-expired' });
+  }, [endSession]);
 
-  const login = (role: UserRole, vehicleId?: string) => {
-    setUser({ role, vehicleId });
+  const recordActivity = useCallback(() => {
+    const now = Date.now();
+    if (now - lastActivityWriteRef.current < ACTIVITY_WRITE_INTERVAL_MS) return;
+    lastActivityWriteRef.current = now;
+    localStorage.setItem(LAST_ACTIVITY_STORAGE_KEY, String(now));
+  }, []);
+
+  const login = async (username: string, password: string) => {
+    const next = await signIn(username, password);
+    lastActivityWriteRef.current = 0;
+    recordActivity();
+    setAuthToken(next.token);
+    setSession(next);
   };
 
   const logout = () => {
-    setUser(null);
+    signOut().catch(error => console.warn('Failed to end the session on the server:', error));
+    endSession();
   };
 
+  // Persist the session so a refresh or reopened tab stays signed in
+  useEffect(() => {
+    try {
+      if (session) localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+      else localStorage.removeItem(SESSION_STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to save session to localStorage:', error);
+    }
+  }, [session]);
+
+  // A restored session is confirmed with the server, picking up role or vehicle changes.
+  // If the server is unreachable the stored session stands, so the app still works offline.
+  useEffect(() => {
+    if (!isRestoring) return;
+    fetchSession()
+      .then(({ user }) => setSession(current => current && { ...current, user }))
+      .catch(error => console.warn('Could not confirm the stored session:', error))
+      .finally(() => setIsRestoring(false));
+  }, [isRestoring]);
+
+  // The server rejecting the token (expired, password changed elsewhere, account removed) signs out here too
+  useEffect(() => {
+    setUnauthorizedHandler(() => expireSession());
+    return () => setUnauthorizedHandler(null);
+  }, [expireSession]);
+
+  useEffect(() => {
+    if (!session) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const wait = () => {
+      const remaining = Math.max(0, session.expiresAt - Date.now());
+      timer = remaining > MAX_TIMER_DELAY_MS
+        ? setTimeout(wait, MAX_TIMER_DELAY_MS)
+        : setTimeout(() => expireSession(), remaining);
+    };
+    wait();
+    return () => clearTimeout(timer);
+  }, [session, expireSession]);
+
+  // Idle timeout
+  useEffect(() => {
+    if (!session) return;
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+    const timer = setInterval(() => {
+      if (!isIdle(session)) return;
+      signOut().catch(() => undefined);
+      expireSession(`Signed out after ${IDLE_TIMEOUT_MINUTES[session.user.role]} minutes without activity.`);
+    }, IDLE_CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity));
+      clearInterval(timer);
+    };
+  }, [session, recordActivity, expireSession]);
+
+  // Signing in or out in another tab applies here as well
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== SESSION_STORAGE_KEY) return;
+      const next = event.newValue ? loadStoredSession() : null;
+      setAuthToken(next?.token ?? null);
+      setSession(next);
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const user = session?.user ?? null;
+
+  const can = useCallback(
+    (permission: Permission, area?: string) => hasPermission(user, permission, area),
+    [user]
+  );
+
   return (
-    <AuthContext.Provider value={{ user, login, logout, isAuthenticated: !!user }}>
+    <AuthContext.Provider value={{ user, login, logout, can, isAuthenticated: !!user, isRestoring }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,38 +1,95 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { Database, SmartBin, CompactStation, Dumpyard, Vehicle, OptimizedRoute } from '@/types';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Database, DatabaseChange, SmartBin, CompactStation, Dumpyard, Depot, Vehicle, VehicleProfile, OptimizedRoute, UnassignedEntry, PlanningConfig, RoutingConfig, PlanningProgress, SpeedBand, BinLevelSample, SensorInfo, TelemetryConfig, TelemetryStatus, RoutePlan, SavedPlan } from '@/types';
 import initialData from '@/data/database.json';
+import { useAuth } from '@/context/AuthContext';
+import { DEFAULT_PLANNING_CONFIG, normalizePlanningConfig } from '@/utils/planningConfig';
+import { DEFAULT_ROUTING_CONFIG, normalizeRoutingConfig } from '@/utils/routingProviders';
+import { DEFAULT_SPEED_BANDS, normalizeSpeedBands } from '@/utils/trafficProfile';
+import { clearBinLevelHistory, getAllBinLevelHistory, recordBinLevels } from '@/utils/levelHistory';
+import { acceptsSensorReading, connectTelemetry, DEFAULT_TELEMETRY_CONFIG, isSensorStale, normalizeTelemetryConfig } from '@/utils/telemetry';
+import { evaluateSensorHealth, SensorHealth } from '@/utils/sensorHealth';
+import { applyDatabaseChanges, createPlan, diffDatabase, fetchDatabase, fetchLatestPlan, replaceDatabase, sendDatabaseChanges, updatePlan } from '@/utils/apiClient';
 
 const STORAGE_KEY = 'ajastra_data';
 const ROUTES_STORAGE_KEY = 'ajastra_routes';
+const UNASSIGNED_STORAGE_KEY = 'ajastra_unassigned';
+const PLANNING_CONFIG_STORAGE_KEY = 'ajastra_planning_config';
+const ROUTING_CONFIG_STORAGE_KEY = 'ajastra_routing_config';
+const SPEED_BANDS_STORAGE_KEY = 'ajastra_speed_bands';
+const TELEMETRY_CONFIG_STORAGE_KEY = 'ajastra_telemetry_config';
+// Level readings are written to history in batches rather than one transaction each
+const LEVEL_HISTORY_FLUSH_MS = 1000;
+// How often sensors are re-checked for going stale
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+// The API server is the source of truth; localStorage only keeps the last copy for offline use
+const DATABASE_QUERY_KEY = ['database'];
+const PLAN_QUERY_KEY = ['plan', 'latest'];
+const SERVER_REFRESH_MS = 30 * 1000;
+// Edits are sent in batches, keeping the latest write per entity
+const CHANGE_FLUSH_MS = 300;
+// Routes are edited in bursts (reordering, reassigning), so the plan is saved once they settle
+const PLAN_SAVE_DELAY_MS = 2000;
 
 interface DataContextType {
   data: Database;
   updateData: (newData: Database) => void;
+  withChangeReason: (reason: string, edit: () => void) => void; // labels the edits made by `edit` in the audit log
   addSmartBin: (bin: SmartBin) => void;
   removeSmartBin: (id: string) => void;
-  updateBinLevel: (id: string, level: number) => void;
+  updateBinLevel: (id: string, level: number, sensor?: SensorInfo) => void; // sensor readings older than the applied one are ignored
   addCompactStation: (station: CompactStation) => void;
   removeCompactStation: (id: string) => void;
   updateStationLevel: (id: string, level: number) => void;
   addDumpyard: (dumpyard: Dumpyard) => void;
   removeDumpyard: (id: string) => void;
   updateDumpyardLevel: (id: string, level: number) => void;
+  addDepot: (depot: Depot) => void;
+  removeDepot: (id: string) => void;
+  updateVehicleHomeDepot: (vehicleId: string, depotId?: string) => void;
   addTruck: (truck: Vehicle) => void;
   removeTruck: (id: string) => void;
   updateTruckStatus: (id: string, status: Vehicle['status']) => void;
   addSAT: (sat: Vehicle) => void;
   removeSAT: (id: string) => void;
   updateSATStatus: (id: string, status: Vehicle['status']) => void;
+  addVehicleProfile: (profile: VehicleProfile) => void;
+  removeVehicleProfile: (id: string) => void;
   routes: OptimizedRoute[];
   setRoutes: (routes: OptimizedRoute[]) => void;
+  unassignedBins: UnassignedEntry[]; // bins, and station loads no truck could take
+  setUnassignedBins: (bins: UnassignedEntry[]) => void;
+  planningConfig: PlanningConfig;
+  updatePlanningConfig: (config: PlanningConfig) => void;
+  resetPlanningConfig: () => void;
+  routingConfig: RoutingConfig;
+  updateRoutingConfig: (config: RoutingConfig) => void;
+  resetRoutingConfig: () => void;
+  speedBands: SpeedBand[];
+  updateSpeedBands: (bands: SpeedBand[]) => void;
+  resetSpeedBands: () => void;
+  levelHistoryVersion: number; // bumped after new level readings are stored
+  levelHistory: Map<string, BinLevelSample[]>; // stored readings per bin, oldest first
+  telemetryConfig: TelemetryConfig;
+  updateTelemetryConfig: (config: TelemetryConfig) => void;
+  resetTelemetryConfig: () => void;
+  telemetryStatus: TelemetryStatus;
+  telemetryError: string | null;
+  staleSensorIds: Set<string>; // smart bins whose sensor is silent; empty while telemetry is off
+  sensorHealth: Map<string, SensorHealth>; // per smart bin
   isGeneratingRoutes: boolean;
   setIsGeneratingRoutes: (value: boolean) => void;
+  routeGenerationProgress: PlanningProgress | null;
+  setRouteGenerationProgress: (progress: PlanningProgress | null) => void;
+  beginRouteGeneration: () => AbortSignal; // cancels any run still in flight
+  cancelRouteGeneration: () => void;
   clearStoredData: () => void;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
-// Load data from localStorage or use initial data
+// Load the offline copy of the data from localStorage or use initial data
 function loadStoredData(): Database {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
@@ -40,7 +97,12 @@ function loadStoredData(): Database {
       const parsed = JSON.parse(stored);
       // Validate structure
       if (parsed.vehicles && parsed.smartBins !== undefined) {
-        return parsed as Database;
+        // Data saved before vehicle profiles and depots existed starts with the default ones
+        return {
+          ...parsed,
+          vehicleProfiles: parsed.vehicleProfiles ?? initialData.vehicleProfiles,
+          depots: parsed.depots ?? initialData.depots
+        } as Database;
       }
     }
   } catch (error) {
@@ -62,12 +124,241 @@ function loadStoredRoutes(): OptimizedRoute[] {
   return [];
 }
 
+// Load bins left out of the last plan from localStorage
+function loadStoredUnassigned(): UnassignedEntry[] {
+  try {
+    const stored = localStorage.getItem(UNASSIGNED_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored) as UnassignedEntry[];
+    }
+  } catch (error) {
+    console.warn('Failed to load stored unassigned bins:', error);
+  }
+  return [];
+}
+
+// Load planning parameters from localStorage, filling gaps with defaults
+function loadStoredPlanningConfig(): PlanningConfig {
+  try {
+    const stored = localStorage.getItem(PLANNING_CONFIG_STORAGE_KEY);
+    if (stored) {
+      return normalizePlanningConfig(JSON.parse(stored));
+    }
+  } catch (error) {
+    console.warn('Failed to load planning config:', error);
+  }
+  return DEFAULT_PLANNING_CONFIG;
+}
+
+// Load routing engine settings from localStorage, filling gaps with defaults
+function loadStoredRoutingConfig(): RoutingConfig {
+  try {
+    const stored = localStorage.getItem(ROUTING_CONFIG_STORAGE_KEY);
+    if (stored) {
+      return normalizeRoutingConfig(JSON.parse(stored));
+    }
+  } catch (error) {
+    console.warn('Failed to load routing config:', error);
+  }
+  return DEFAULT_ROUTING_CONFIG;
+}
+
+const changeKey = (change: DatabaseChange) =>
+  `${change.collection}/${change.op === 'put' ? change.item.id : change.id}`;
+
+// Load the time-of-day speed table from localStorage, dropping invalid bands
+function loadStoredSpeedBands(): SpeedBand[] {
+  try {
+    const stored = localStorage.getItem(SPEED_BANDS_STORAGE_KEY);
+    if (stored) {
+      return normalizeSpeedBands(JSON.parse(stored));
+    }
+  } catch (error) {
+    console.warn('Failed to load speed bands:', error);
+  }
+  return DEFAULT_SPEED_BANDS;
+}
+
+// Load sensor telemetry settings from localStorage, filling gaps with defaults
+function loadStoredTelemetryConfig(): TelemetryConfig {
+  try {
+    const stored = localStorage.getItem(TELEMETRY_CONFIG_STORAGE_KEY);
+    if (stored) {
+      return normalizeTelemetryConfig(JSON.parse(stored));
+    }
+  } catch (error) {
+    console.warn('Failed to load telemetry config:', error);
+  }
+  return DEFAULT_TELEMETRY_CONFIG;
+}
+
 export function DataProvider({ children }: { children: ReactNode }) {
-  const [data, setData] = useState<Database>(() => loadStoredData());
+  const queryClient = useQueryClient();
+  const { isAuthenticated, can } = useAuth();
+  // Local edits not yet confirmed by the server, re-applied over every fetch until they are
+  const queuedChangesRef = useRef<Map<string, DatabaseChange>>(new Map());
+  const sendingChangesRef = useRef<DatabaseChange[]>([]);
+  const changeFlushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const changeReasonRef = useRef<string | undefined>(undefined);
+
+  const { data, isError: isOffline } = useQuery({
+    queryKey: DATABASE_QUERY_KEY,
+    queryFn: async ({ signal }) => applyDatabaseChanges(
+      await fetchDatabase(signal),
+      [...sendingChangesRef.current, ...queuedChangesRef.current.values()]
+    ),
+    initialData: loadStoredData,
+    initialDataUpdatedAt: 0, // the offline copy is always refreshed from the server
+    enabled: isAuthenticated,
+    refetchInterval: SERVER_REFRESH_MS,
+    retry: 1
+  });
+
+  const { mutate: sendChanges } = useMutation({
+    mutationFn: sendDatabaseChanges,
+    retry: 2,
+    onError: (error: Error) => {
+      toast.error('Could not save changes to the server', { id: 'sync-error', description: error.message });
+    }
+  });
+
+  const flushChanges = useCallback(() => {
+    changeFlushTimerRef.current = null;
+    if (sendingChangesRef.current.length > 0 || queuedChangesRef.current.size === 0) return;
+
+    const changes = [...queuedChangesRef.current.values()];
+    queuedChangesRef.current.clear();
+    sendingChangesRef.current = changes;
+    sendChanges(changes, {
+      onSettled: (_result, error) => {
+        sendingChangesRef.current = [];
+        // Rejected edits are dropped in favour of what the server has
+        if (error) queryClient.invalidateQueries({ queryKey: DATABASE_QUERY_KEY });
+        if (queuedChangesRef.current.size > 0) {
+          changeFlushTimerRef.current = setTimeout(flushChanges, CHANGE_FLUSH_MS);
+        }
+      }
+    });
+  }, [queryClient, sendChanges]);
+
+  // Applies an edit locally at once and queues the entities it touched for the server
+  const setData = useCallback((update: (prev: Database) => Database) => {
+    queryClient.setQueryData<Database>(DATABASE_QUERY_KEY, prev => {
+      const next = update(prev);
+      const reason = changeReasonRef.current;
+      diffDatabase(prev, next).forEach(change => {
+        queuedChangesRef.current.set(changeKey(change), reason ? { ...change, reason } : change);
+      });
+      return next;
+    });
+    if (queuedChangesRef.current.size > 0 && !changeFlushTimerRef.current) {
+      changeFlushTimerRef.current = setTimeout(flushChanges, CHANGE_FLUSH_MS);
+    }
+  }, [queryClient, flushChanges]);
+
+  // Whole-database writes (resets) replace whatever edits were still queued
+  const { mutate: sendDatabase } = useMutation({
+    mutationFn: replaceDatabase,
+    retry: 2,
+    onError: (error: Error) => {
+      toast.error('Could not save data to the server', { id: 'sync-error', description: error.message });
+      queryClient.invalidateQueries({ queryKey: DATABASE_QUERY_KEY });
+    }
+  });
+
+  const replaceData = useCallback((database: Database) => {
+    if (changeFlushTimerRef.current) clearTimeout(changeFlushTimerRef.current);
+    changeFlushTimerRef.current = null;
+    queuedChangesRef.current.clear();
+    queryClient.setQueryData<Database>(DATABASE_QUERY_KEY, database);
+    sendDatabase(database);
+  }, [queryClient, sendDatabase]);
+
   const [routes, setRoutesState] = useState<OptimizedRoute[]>(() => loadStoredRoutes());
+  const [unassignedBins, setUnassignedBinsState] = useState<UnassignedEntry[]>(() => loadStoredUnassigned());
+  const [planningConfig, setPlanningConfig] = useState<PlanningConfig>(() => loadStoredPlanningConfig());
+  const [routingConfig, setRoutingConfig] = useState<RoutingConfig>(() => loadStoredRoutingConfig());
+  const [speedBands, setSpeedBands] = useState<SpeedBand[]>(() => loadStoredSpeedBands());
   const [isGeneratingRoutes, setIsGeneratingRoutes] = useState(false);
+  const [routeGenerationProgress, setRouteGenerationProgress] = useState<PlanningProgress | null>(null);
+  // Kept here rather than on the Routes page so a run can be cancelled after navigating away
+  const routeGenerationRef = useRef<AbortController | null>(null);
+  const [levelHistoryVersion, setLevelHistoryVersion] = useState(0);
+  const [levelHistory, setLevelHistory] = useState<Map<string, BinLevelSample[]>>(new Map());
+  const pendingLevelsRef = useRef<BinLevelSample[]>([]);
+  const levelFlushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [telemetryConfig, setTelemetryConfig] = useState<TelemetryConfig>(() => loadStoredTelemetryConfig());
+  const [telemetryStatus, setTelemetryStatus] = useState<TelemetryStatus>('disabled');
+  const [telemetryError, setTelemetryError] = useState<string | null>(null);
+  const [staleCheckAt, setStaleCheckAt] = useState(() => Date.now());
+  // The server plan the routes were last loaded from or saved to, and the routes as they were then
+  const savedPlanRef = useRef<{ id: number; updatedAt: number } | null>(null);
+  const syncedPlanRef = useRef<RoutePlan>({ routes, unassigned: unassignedBins });
+  const startNewPlanRef = useRef(false);
 
-  // Persist data to localStorage whenever it changes
+  useEffect(() => {
+    if (!isOffline || !isAuthenticated) return;
+    toast.warning('Working offline', {
+      id: 'sync-offline',
+      description: 'The server could not be reached. Showing the last saved data.'
+    });
+  }, [isOffline, isAuthenticated]);
+
+  const { data: latestPlan } = useQuery({
+    queryKey: PLAN_QUERY_KEY,
+    queryFn: ({ signal }) => fetchLatestPlan(signal),
+    enabled: isAuthenticated,
+    refetchInterval: SERVER_REFRESH_MS,
+    retry: 1
+  });
+
+  // A newer plan from the server (e.g. saved in another browser) replaces the local one,
+  // unless a run is in progress or local changes are waiting to be saved
+  useEffect(() => {
+    if (!latestPlan || isGeneratingRoutes) return;
+    const synced = syncedPlanRef.current;
+    if (routes !== synced.routes || unassignedBins !== synced.unassigned) return;
+    const saved = savedPlanRef.current;
+    if (saved && (latestPlan.id < saved.id || (latestPlan.id === saved.id && latestPlan.updatedAt <= saved.updatedAt))) return;
+
+    savedPlanRef.current = { id: latestPlan.id, updatedAt: latestPlan.updatedAt };
+    syncedPlanRef.current = { routes: latestPlan.routes, unassigned: latestPlan.unassigned };
+    setRoutesState(latestPlan.routes);
+    setUnassignedBinsState(latestPlan.unassigned);
+  }, [latestPlan, isGeneratingRoutes, routes, unassignedBins]);
+
+  // A fresh run is saved as a new plan; edits to its routes update it
+  const { mutate: savePlan } = useMutation({
+    mutationFn: (plan: RoutePlan): Promise<SavedPlan> =>
+      savedPlanRef.current && !startNewPlanRef.current
+        ? updatePlan(savedPlanRef.current.id, plan)
+        : createPlan(plan),
+    onSuccess: (saved, plan) => {
+      savedPlanRef.current = { id: saved.id, updatedAt: saved.updatedAt };
+      syncedPlanRef.current = plan;
+      startNewPlanRef.current = false;
+      queryClient.setQueryData(PLAN_QUERY_KEY, saved);
+    },
+    onError: (error: Error) => {
+      toast.error('Could not save the route plan to the server', { id: 'plan-sync-error', description: error.message });
+    }
+  });
+
+  // Road geometry keeps arriving after a run's routes are ready, so a run is saved
+  // once its paths are final rather than as an update per refined route
+  const isRefiningRoutes = !!routeGenerationProgress && routeGenerationProgress.phase !== 'done';
+
+  useEffect(() => {
+    if (isGeneratingRoutes || isRefiningRoutes) return;
+    const synced = syncedPlanRef.current;
+    if (routes === synced.routes && unassignedBins === synced.unassigned) return;
+    // The server refuses plan writes from roles without these permissions
+    if (!can(routes.length > 0 ? 'routes:generate' : 'routes:clear')) return;
+    const timer = setTimeout(() => savePlan({ routes, unassigned: unassignedBins }), PLAN_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [routes, unassignedBins, isGeneratingRoutes, isRefiningRoutes, savePlan, can]);
+
+  // Keep the offline copy of the data in localStorage
   useEffect(() => {
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
@@ -85,19 +376,176 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   }, [routes]);
 
+  // Persist unassigned bins alongside the routes they belong to
+  useEffect(() => {
+    try {
+      localStorage.setItem(UNASSIGNED_STORAGE_KEY, JSON.stringify(unassignedBins));
+    } catch (error) {
+      console.warn('Failed to save unassigned bins to localStorage:', error);
+    }
+  }, [unassignedBins]);
+
+  // Persist planning parameters alongside the data
+  useEffect(() => {
+    try {
+      localStorage.setItem(PLANNING_CONFIG_STORAGE_KEY, JSON.stringify(planningConfig));
+    } catch (error) {
+      console.warn('Failed to save planning config to localStorage:', error);
+    }
+  }, [planningConfig]);
+
+  // Persist routing engine settings
+  useEffect(() => {
+    try {
+      localStorage.setItem(ROUTING_CONFIG_STORAGE_KEY, JSON.stringify(routingConfig));
+    } catch (error) {
+      console.warn('Failed to save routing config to localStorage:', error);
+    }
+  }, [routingConfig]);
+
+  // Persist the traffic speed table
+  useEffect(() => {
+    try {
+      localStorage.setItem(SPEED_BANDS_STORAGE_KEY, JSON.stringify(speedBands));
+    } catch (error) {
+      console.warn('Failed to save speed bands to localStorage:', error);
+    }
+  }, [speedBands]);
+
+  // Persist sensor telemetry settings
+  useEffect(() => {
+    try {
+      localStorage.setItem(TELEMETRY_CONFIG_STORAGE_KEY, JSON.stringify(telemetryConfig));
+    } catch (error) {
+      console.warn('Failed to save telemetry config to localStorage:', error);
+    }
+  }, [telemetryConfig]);
+
+  // Level readings are recorded where this user changes a level (edits, bulk updates,
+  // imports, sensors), so levels refetched from the server are not taken as new readings
+  const recordLevels = useCallback((samples: BinLevelSample[]) => {
+    if (samples.length === 0) return;
+    pendingLevelsRef.current.push(...samples);
+    if (levelFlushTimerRef.current) return;
+
+    levelFlushTimerRef.current = setTimeout(() => {
+      const batch = pendingLevelsRef.current;
+      pendingLevelsRef.current = [];
+      levelFlushTimerRef.current = null;
+      recordBinLevels(batch).then(() => setLevelHistoryVersion(version => version + 1));
+    }, LEVEL_HISTORY_FLUSH_MS);
+  }, []);
+
+  // Stored readings, reloaded whenever new ones are written
+  useEffect(() => {
+    let cancelled = false;
+    getAllBinLevelHistory().then(samples => {
+      if (cancelled) return;
+      const byBin = new Map<string, BinLevelSample[]>();
+      samples.forEach(sample => {
+        if (!byBin.has(sample.binId)) byBin.set(sample.binId, []);
+        byBin.get(sample.binId)!.push(sample);
+      });
+      setLevelHistory(byBin);
+    });
+    return () => { cancelled = true; };
+  }, [levelHistoryVersion]);
+
+  // Sent as changes to the entities that differ, so each is checked against the user's permissions
   const updateData = (newData: Database) => {
-    setData(newData);
+    const samples: BinLevelSample[] = [];
+    setData(prev => {
+      const now = Date.now();
+      const previousLevels = new Map(prev.smartBins.map(bin => [bin.id, bin.currentLevel]));
+      newData.smartBins.forEach(bin => {
+        if (previousLevels.get(bin.id) === bin.currentLevel) return;
+        samples.push({ binId: bin.id, level: bin.currentLevel, at: now, source: 'manual' });
+      });
+      return newData;
+    });
+    recordLevels(samples);
+  };
+
+  // Edits are applied synchronously, so the reason covers exactly those made inside `edit`
+  const withChangeReason = (reason: string, edit: () => void) => {
+    changeReasonRef.current = reason;
+    try {
+      edit();
+    } finally {
+      changeReasonRef.current = undefined;
+    }
   };
 
   const setRoutes = (newRoutes: OptimizedRoute[]) => {
     setRoutesState(newRoutes);
   };
 
+  const setUnassignedBins = (bins: UnassignedEntry[]) => {
+    setUnassignedBinsState(bins);
+  };
+
+  const updatePlanningConfig = (config: PlanningConfig) => {
+    setPlanningConfig(config);
+  };
+
+  const resetPlanningConfig = () => {
+    setPlanningConfig(DEFAULT_PLANNING_CONFIG);
+  };
+
+  const updateRoutingConfig = (config: RoutingConfig) => {
+    setRoutingConfig(config);
+  };
+
+  const resetRoutingConfig = () => {
+    setRoutingConfig(DEFAULT_ROUTING_CONFIG);
+  };
+
+  const updateSpeedBands = (bands: SpeedBand[]) => {
+    setSpeedBands(bands);
+  };
+
+  const resetSpeedBands = () => {
+    setSpeedBands(DEFAULT_SPEED_BANDS);
+  };
+
+  const updateTelemetryConfig = (config: TelemetryConfig) => {
+    setTelemetryConfig(config);
+  };
+
+  const resetTelemetryConfig = () => {
+    setTelemetryConfig(DEFAULT_TELEMETRY_CONFIG);
+  };
+
+  const beginRouteGeneration = () => {
+    routeGenerationRef.current?.abort();
+    startNewPlanRef.current = true;
+    const controller = new AbortController();
+    routeGenerationRef.current = controller;
+    return controller.signal;
+  };
+
+  const cancelRouteGeneration = () => {
+    routeGenerationRef.current?.abort();
+    routeGenerationRef.current = null;
+    setIsGeneratingRoutes(false);
+    setRouteGenerationProgress(null);
+  };
+
   const clearStoredData = () => {
+    cancelRouteGeneration();
     localStorage.removeItem(STORAGE_KEY);
     localStorage.removeItem(ROUTES_STORAGE_KEY);
-    setData(initialData as Database);
+    localStorage.removeItem(UNASSIGNED_STORAGE_KEY);
+    // The reset levels start a fresh history rather than being recorded as changes
+    if (levelFlushTimerRef.current) clearTimeout(levelFlushTimerRef.current);
+    levelFlushTimerRef.current = null;
+    pendingLevelsRef.current = [];
+    clearBinLevelHistory()
+      .then(() => setLevelHistoryVersion(version => version + 1))
+      .catch(error => console.warn('Failed to clear level history:', error));
+    replaceData(initialData as Database);
     setRoutesState([]);
+    setUnassignedBinsState([]);
   };
 
   const addSmartBin = (bin: SmartBin) => {
@@ -114,14 +562,74 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }));
   };
 
-  const updateBinLevel = (id: string, level: number) => {
+  const updateBinLevel = useCallback((id: string, level: number, sensor?: SensorInfo) => {
+    const samples: BinLevelSample[] = [];
     setData(prev => ({
       ...prev,
-      smartBins: prev.smartBins.map(bin =>
-        bin.id === id ? { ...bin, currentLevel: level } : bin
-      )
+      smartBins: prev.smartBins.map(bin => {
+        if (bin.id !== id) return bin;
+        if (!sensor) {
+          if (bin.currentLevel !== level) samples.push({ binId: id, level, at: Date.now(), source: 'manual' });
+          return { ...bin, currentLevel: level };
+        }
+        if (!acceptsSensorReading(bin, sensor, area => can('bins:edit', area))) return bin;
+        // Every report is kept, even an unchanged level, so stuck sensors show up
+        samples.push({ binId: id, level: Math.round(level), at: sensor.lastReportAt, source: 'sensor' });
+        return { ...bin, currentLevel: Math.round(level), sensor };
+      })
     }));
-  };
+    recordLevels(samples);
+  }, [setData, can, recordLevels]);
+
+  // Sensor feed: readings go through updateBinLevel like any other level change,
+  // so only users who may edit bins connect
+  useEffect(() => {
+    if (!telemetryConfig.enabled || !can('bins:edit')) {
+      setTelemetryStatus('disabled');
+      setTelemetryError(null);
+      return;
+    }
+
+    return connectTelemetry(telemetryConfig, {
+      onReadings: readings => readings.forEach(reading =>
+        updateBinLevel(reading.binId, reading.level, {
+          battery: reading.battery,
+          ...(reading.firmware && { firmware: reading.firmware }),
+          lastReportAt: reading.timestamp
+        })
+      ),
+      onRejected: count => console.warn(`Telemetry: ignored ${count} malformed reading(s)`),
+      onStatus: (status, detail) => {
+        setTelemetryStatus(status);
+        setTelemetryError(status === 'error' ? detail ?? 'Connection failed' : null);
+      }
+    });
+  }, [telemetryConfig, updateBinLevel, can]);
+
+  useEffect(() => {
+    if (!telemetryConfig.enabled) return;
+    setStaleCheckAt(Date.now());
+    const timer = setInterval(() => setStaleCheckAt(Date.now()), STALE_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [telemetryConfig.enabled]);
+
+  const staleSensorIds = useMemo(() => new Set(
+    telemetryConfig.enabled
+      ? data.smartBins
+          .filter(bin => isSensorStale(bin, telemetryConfig.staleAfterMinutes, staleCheckAt))
+          .map(bin => bin.id)
+      : []
+  ), [data.smartBins, telemetryConfig, staleCheckAt]);
+
+  // A collection scheduled between two readings explains a sensor's level dropping
+  const sensorHealth = useMemo(() => {
+    const collections = new Map<string, number[]>();
+    routes.forEach(route => route.route.forEach(point => {
+      if (point.type !== 'smartbin' || route.planStartAt === undefined || point.departureTime === undefined) return;
+      collections.set(point.id, [...(collections.get(point.id) ?? []), route.planStartAt + point.departureTime * 60000]);
+    }));
+    return evaluateSensorHealth(data.smartBins, levelHistory, collections, staleSensorIds, staleCheckAt);
+  }, [data.smartBins, levelHistory, routes, staleSensorIds, staleCheckAt]);
 
   const addCompactStation = (station: CompactStation) => {
     setData(prev => ({
@@ -160,6 +668,41 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }));
   };
 
+  const addDepot = (depot: Depot) => {
+    setData(prev => ({
+      ...prev,
+      depots: [...prev.depots, depot]
+    }));
+  };
+
+  // Vehicles parked at a removed depot fall back to starting at their first stop
+  const removeDepot = (id: string) => {
+    const unpark = (vehicle: Vehicle) => {
+      if (vehicle.homeDepotId !== id) return vehicle;
+      const { homeDepotId: _removed, ...rest } = vehicle;
+      return rest;
+    };
+    setData(prev => ({
+      ...prev,
+      depots: prev.depots.filter(d => d.id !== id),
+      vehicles: {
+        trucks: prev.vehicles.trucks.map(unpark),
+        sats: prev.vehicles.sats.map(unpark)
+      }
+    }));
+  };
+
+  const updateVehicleHomeDepot = (vehicleId: string, depotId?: string) => {
+    const assign = (vehicle: Vehicle) => vehicle.id === vehicleId ? { ...vehicle, homeDepotId: depotId } : vehicle;
+    setData(prev => ({
+      ...prev,
+      vehicles: {
+        trucks: prev.vehicles.trucks.map(assign),
+        sats: prev.vehicles.sats.map(assign)
+      }
+    }));
+  };
+
   const updateDumpyardLevel = (id: string, level: number) => {
     setData(prev => ({
       ...prev,
@@ -233,10 +776,25 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }));
   };
 
+  const addVehicleProfile = (profile: VehicleProfile) => {
+    setData(prev => ({
+      ...prev,
+      vehicleProfiles: [...prev.vehicleProfiles, profile]
+    }));
+  };
+
+  const removeVehicleProfile = (id: string) => {
+    setData(prev => ({
+      ...prev,
+      vehicleProfiles: prev.vehicleProfiles.filter(p => p.id !== id)
+    }));
+  };
+
   return (
     <DataContext.Provider value={{
       data,
       updateData,
+      withChangeReason,
       addSmartBin,
       removeSmartBin,
       updateBinLevel,
@@ -246,16 +804,45 @@ export function DataProvider({ children }: { children: ReactNode }) {
       addDumpyard,
       removeDumpyard,
       updateDumpyardLevel,
+      addDepot,
+      removeDepot,
+      updateVehicleHomeDepot,
       addTruck,
       removeTruck,
       updateTruckStatus,
       addSAT,
       removeSAT,
       updateSATStatus,
+      addVehicleProfile,
+      removeVehicleProfile,
       routes,
       setRoutes,
+      unassignedBins,
+      setUnassignedBins,
+      planningConfig,
+      updatePlanningConfig,
+      resetPlanningConfig,
+      routingConfig,
+      updateRoutingConfig,
+      resetRoutingConfig,
+      speedBands,
+      updateSpeedBands,
+      resetSpeedBands,
+      levelHistoryVersion,
+      levelHistory,
+      telemetryConfig,
+      updateTelemetryConfig,
+      resetTelemetryConfig,
+      telemetryStatus,
+      telemetryError,
+      staleSensorIds,
+      sensorHealth,
       isGeneratingRoutes,
       setIsGeneratingRoutes,
+      routeGenerationProgress,
+      setRouteGenerationProgress,
+      beginRouteGeneration,
+      cancelRouteGeneration,
       clearStoredData
     }}>
       {children}
@@ -0,0 +1,22 @@
+import { User } from '@/types';
+import { hasPermission, Permission } from '@/lib/permissions';
+
+// Dashboard tabs, each at its own URL so a link or a refresh opens the same tab
+export type DashboardTab = 'home' | 'modification' | 'routes' | 'activity' | 'settings';
+
+export const DASHBOARD_TABS: DashboardTab[] = ['home', 'modification', 'routes', 'activity', 'settings'];
+
+// Tabs that need a permission to open
+const TAB_PERMISSIONS: Partial<Record<DashboardTab, Permission>> = {
+  modification: 'assets:view',
+  activity: 'audit:view'
+};
+
+export function tabPath(tab: DashboardTab): string {
+  return tab === 'home' ? '/' : `/${tab}`;
+}
+
+export function canOpenTab(tab: DashboardTab, user: User | null | undefined): boolean {
+  const permission = TAB_PERMISSIONS[tab];
+  return !permission || hasPermission(user, permission);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { User } from '@/types';
+import { canEditEntity, hasPermission } from './permissions';
+
+const supervisor: Pick<User, 'role' | 'areas'> = { role: 'supervisor', areas: ['Kukatpally', ' Hitech City '] };
+
+describe('hasPermission', () => {
+  it('scopes supervisors to their areas, ignoring case and spacing', () => {
+    expect(hasPermission(supervisor, 'bins:edit', 'kukatpally')).toBe(true);
+    expect(hasPermission(supervisor, 'stations:edit', 'Hitech City')).toBe(true);
+    expect(hasPermission(supervisor, 'bins:edit', 'Madhapur')).toBe(false);
+    // Without an area the question is whether the role has the permission at all
+    expect(hasPermission(supervisor, 'bins:edit')).toBe(true);
+  });
+
+  it('gives supervisors nothing beyond bins and stations', () => {
+    expect(hasPermission(supervisor, 'facilities:edit')).toBe(false);
+    expect(hasPermission(supervisor, 'routes:generate')).toBe(false);
+  });
+
+  it('does not scope other roles by area', () => {
+    expect(hasPermission({ role: 'admin' }, 'bins:edit', 'Madhapur')).toBe(true);
+    expect(hasPermission({ role: 'fleet-manager' }, 'bins:edit', 'Madhapur')).toBe(false);
+    expect(hasPermission({ role: 'fleet-manager' }, 'fleet:edit')).toBe(true);
+    expect(hasPermission(null, 'assets:view')).toBe(false);
+  });
+});
+
+describe('canEditEntity', () => {
+  it('checks the entity area against the collection permission', () => {
+    expect(canEditEntity(supervisor, 'bins', { id: 'BIN1', area: 'Kukatpally' })).toBe(true);
+    expect(canEditEntity(supervisor, 'bins', { id: 'BIN2', area: 'Madhapur' })).toBe(false);
+    expect(canEditEntity(supervisor, 'trucks', { id: 'TRUCK1' })).toBe(false);
+  });
+
+  it('refuses supervisors entities without an area', () => {
+    expect(canEditEntity(supervisor, 'stations', { id: 'CS1' })).toBe(false);
+    expect(canEditEntity(supervisor, 'stations', { id: 'CS1', area: 42 })).toBe(false);
+    expect(canEditEntity({ role: 'admin' }, 'stations', { id: 'CS1' })).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import type { ApiCollection, User, UserRole } from '../types';
+
+// What each role may change. The API server enforces the same matrix, so this
+// file is shared with server/ and imports nothing but types.
+
+export type Permission =
+  | 'assets:view' // the asset management tab
+  | 'bins:edit' // smart bins; supervisors only within their areas
+  | 'stations:edit' // compact stations; supervisors only within their areas
+  | 'facilities:edit' // dumpyards and depots
+  | 'fleet:edit' // trucks, SATs and vehicle profiles
+  | 'routes:generate'
+  | 'routes:clear'
+  | 'data:import' // Excel import and whole-database writes
+  | 'settings:edit' // planning, routing, traffic and telemetry settings
+  | 'users:manage'
+  | 'audit:view'; // the activity log
+
+const ALL_PERMISSIONS: Permission[] = [
+  'assets:view', 'bins:edit', 'stations:edit', 'facilities:edit', 'fleet:edit',
+  'routes:generate', 'routes:clear', 'data:import', 'settings:edit', 'users:manage', 'audit:view'
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  supervisor: ['assets:view', 'bins:edit', 'stations:edit'],
+  'fleet-manager': ['assets:view', 'fleet:edit'],
+  viewer: ['assets:view'],
+  driver: []
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  supervisor: 'Zone Supervisor',
+  'fleet-manager': 'Fleet Manager',
+  viewer: 'Viewer',
+  driver: 'Driver'
+};
+
+// Permissions that supervisors hold only for assets in their areas
+const AREA_SCOPED = new Set<Permission>(['bins:edit', 'stations:edit']);
+
+export const COLLECTION_PERMISSIONS: Record<ApiCollection, Permission> = {
+  bins: 'bins:edit',
+  stations: 'stations:edit',
+  dumpyards: 'facilities:edit',
+  depots: 'facilities:edit',
+  profiles: 'fleet:edit',
+  trucks: 'fleet:edit',
+  sats: 'fleet:edit'
+};
+
+const sameArea = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Whether the user holds the permission. With an area, area-scoped permissions
+// also need the area to be one of a supervisor's.
+export function hasPermission(user: Pick<User, 'role' | 'areas'> | null | undefined, permission: Permission, area?: string): boolean {
+  if (!user || !ROLE_PERMISSIONS[user.role]?.includes(permission)) return false;
+  if (user.role !== 'supervisor' || area === undefined || !AREA_SCOPED.has(permission)) return true;
+  return (user.areas ?? []).some(own => sameArea(own, area));
+}
+
+// Whether the user may write this entity of the collection; entities without an area fail area-scoped checks
+export function canEditEntity(user: Pick<User, 'role' | 'areas'> | null | undefined, collection: ApiCollection, entity: { id: string; area?: unknown }): boolean {
+  return hasPermission(user, COLLECTION_PERMISSIONS[collection], typeof entity.area === 'string' ? entity.area : '');
+}
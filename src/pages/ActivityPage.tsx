@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { History, Filter, XCircle } from 'lucide-react';
+import { AuditAction, AuditEntity, AuditEntry } from '@/types';
+import { AuditFilter, fetchAuditLog, fetchUsers } from '@/utils/apiClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const ALL = 'all';
+const MAX_ENTRIES = 500; // the server's page size
+const ENTITY_ID_DEBOUNCE_MS = 300;
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  bins: 'Bins',
+  stations: 'Compact Stations',
+  dumpyards: 'Dumpyards',
+  depots: 'Depots',
+  profiles: 'Vehicle Profiles',
+  trucks: 'Trucks',
+  sats: 'SATs',
+  plan: 'Route Plans',
+  database: 'Whole Database'
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-success/20 text-success',
+  update: 'bg-warning/20 text-warning',
+  delete: 'bg-destructive/20 text-destructive',
+  replace: 'bg-primary/20 text-primary'
+};
+
+const EMPTY_FILTERS = { entity: ALL, entityId: '', userId: ALL, from: '', to: '' };
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// Field-by-field changes; created and deleted items list what they held
+function EntryChanges({ entry }: { entry: AuditEntry }) {
+  const fields = [...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])]
+    .filter(field => field !== 'id');
+
+  return (
+    <div className="space-y-0.5 text-xs">
+      {entry.reason && <p className="text-foreground font-medium">{entry.reason}</p>}
+      {fields.map(field => (
+        <p key={field} className="text-muted-foreground font-mono break-all">
+          <span className="text-foreground">{field}</span>:{' '}
+          {entry.action === 'update' || entry.action === 'replace'
+            ? `${formatValue(entry.before?.[field])} → ${formatValue(entry.after?.[field])}`
+            : formatValue((entry.after ?? entry.before)?.[field])}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// Admin view of the server's audit log: every asset and plan change with who made it
+export default function ActivityPage() {
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [entityId, setEntityId] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setEntityId(filters.entityId.trim()), ENTITY_ID_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.entityId]);
+
+  const query: AuditFilter = {
+    ...(filters.entity !== ALL && { entity: filters.entity as AuditEntity }),
+    ...(entityId && { entityId }),
+    ...(filters.userId !== ALL && { userId: filters.userId }),
+    // Whole local days
+    ...(filters.from && { from: new Date(`${filters.from}T00:00:00`).getTime() }),
+    ...(filters.to && { to: new Date(`${filters.to}T23:59:59.999`).getTime() })
+  };
+
+  const { data: entries = [], isLoading, error } = useQuery({
+    queryKey: ['audit', query],
+    queryFn: ({ signal }) => fetchAuditLog(query, signal)
+  });
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['users'],
+    queryFn: ({ signal }) => fetchUsers(signal)
+  });
+
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  return (
+    <div className="h-full overflow-auto p-4 md:p-6 scrollbar-thin">
+      <div className="mb-4 md:mb-6">
+        <h1 className="text-xl md:text-2xl font-bold text-foreground">Activity</h1>
+        <p className="text-sm md:text-base text-muted-foreground">Who changed which assets and route plans, and when</p>
+      </div>
+
+      <div className="grid gap-4 md:gap-6">
+        {/* Filters */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass rounded-xl p-4 md:p-6"
+        >
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <div className="flex items-center gap-2 md:gap-3">
+              <div className="p-1.5 md:p-2 rounded-lg bg-primary/20">
+                <Filter className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+              </div>
+              <h2 className="text-base md:text-lg font-semibold text-foreground">Filters</h2>
+            </div>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_FILTERS)}>
+                <XCircle className="w-4 h-4 mr-1" /> Clear
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+            <div>
+              <Label className="text-xs md:text-sm">Entity</Label>
+              <Select value={filters.entity} onValueChange={(entity) => setFilters({ ...filters, entity })}>
+                <SelectTrigger className="mt-1 h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All entities</SelectItem>
+                  {(Object.keys(ENTITY_LABELS) as AuditEntity[]).map(entity => (
+                    <SelectItem key={entity} value={entity}>{ENTITY_LABELS[entity]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="activity-entity-id" className="text-xs md:text-sm">ID</Label>
+              <Input
+                id="activity-entity-id"
+                placeholder="e.g., BIN001"
+                value={filters.entityId}
+                onChange={(e) => setFilters({ ...filters, entityId: e.target.value })}
+                className="mt-1 h-8 text-sm"
+              />
+            </div>
+            <div>
+              <Label className="text-xs md:text-sm">User</Label>
+              <Select value={filters.userId} onValueChange={(userId) => setFilters({ ...filters, userId })}>
+                <SelectTrigger className="mt-1 h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {users.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.name} ({account.username})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="activity-from" className="text-xs md:text-sm">From</Label>
+              <Input
+                id="activity-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                className="mt-1 h-8 text-sm"
+              />
+            </div>
+            <div>
+              <Label htmlFor="activity-to" className="text-xs md:text-sm">To</Label>
+              <Input
+                id="activity-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                className="mt-1 h-8 text-sm"
+              />
+            </div>
+          </div>
+        </motion.div>
+
+        {/* Log */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass rounded-xl p-4 md:p-6"
+        >
+          <div className="flex items-center gap-2 md:gap-3 mb-4">
+            <div className="p-1.5 md:p-2 rounded-lg bg-primary/20">
+              <History className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+            </div>
+            <h2 className="text-base md:text-lg font-semibold text-foreground">Changes</h2>
+            <span className="text-sm text-muted-foreground">({entries.length})</span>
+          </div>
+
+          {error ? (
+            <p className="text-sm text-destructive">Could not load the activity log: {(error as Error).message}</p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading activity…</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No changes match these filters.</p>
+          ) : (
+            <div className="rounded-lg bg-secondary/50 overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap align-top">
+                        {new Date(entry.at).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs align-top">{entry.username}</TableCell>
+                      <TableCell className="align-top">
+                        <span className={`px-1.5 py-0.5 rounded text-[10px] uppercase ${ACTION_STYLES[entry.action]}`}>
+                          {entry.action}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap align-top">
+                        {ENTITY_LABELS[entry.entity]}
+                        {entry.entityId && <span className="block font-medium text-foreground">{entry.entityId}</span>}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <EntryChanges entry={entry} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {entries.length >= MAX_ENTRIES && (
+            <p className="text-xs text-muted-foreground mt-3">
+              Showing the newest {MAX_ENTRIES} matching changes. Narrow the filters to see older ones.
+            </p>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,24 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { motion } from 'framer-motion';
+import { Navigate, useNavigate } from 'react-router-dom';
 import Sidebar, { MobileHeader } from '@/components/Sidebar';
 import HomePage from '@/pages/HomePage';
 import ModificationPage from '@/pages/ModificationPage';
 import RoutesPage from '@/pages/RoutesPage';
+import ActivityPage from '@/pages/ActivityPage';
 import SettingsPage from '@/pages/SettingsPage';
+import { useAuth } from '@/context/AuthContext';
+import { canOpenTab, DashboardTab, tabPath } from '@/lib/navigation';
 
-type TabType = 'home' | 'modification' | 'routes' | 'settings';
+export default function Dashboard({ tab: activeTab }: { tab: DashboardTab }) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
 
-export default function Dashboard() {
-  const [activeTab, setActiveTab] = useState<TabType>('home');
+  const setActiveTab = (tab: DashboardTab) => navigate(tabPath(tab));
+
+  if (!canOpenTab(activeTab, user)) {
+    return <Navigate to="/" replace />;
+  }
 
   const renderContent = () => {
     switch (activeTab) {
@@ -19,6 +28,8 @@ export default function Dashboard() {
         return <ModificationPage />;
       case 'routes':
         return <RoutesPage />;
+      case 'activity':
+        return <ActivityPage />;
       case 'settings':
         return <SettingsPage />;
       default:
@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Trash2, Building2, MapPin, Filter, Route, ChevronDown } from 'lucide-react';
+import { Trash2, Building2, MapPin, Filter, Route, ChevronDown, Warehouse, Activity } from 'lucide-react';
 import MapWrapper from '@/components/MapWrapper';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { useData } from '@/context/DataContext';
 import { useAuth } from '@/context/AuthContext';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { projectFacilityFill, fillLimit } from '@/utils/facilityFill';
 import {
   Select,
   SelectContent,
@@ -16,21 +18,33 @@ import {
 } from "@/components/ui/select";
 
 export default function HomePage() {
-  const { data, routes } = useData();
+  const { data, routes, planningConfig, sensorHealth } = useData();
   const { user } = useAuth();
   const [showSmartBins, setShowSmartBins] = useState(true);
   const [showCompactStations, setShowCompactStations] = useState(true);
   const [showDumpyards, setShowDumpyards] = useState(true);
+  const [showDepots, setShowDepots] = useState(true);
+  const [showSensorIssues, setShowSensorIssues] = useState(true);
+  const [showFacilityFill, setShowFacilityFill] = useState(false);
 
-  // Get driver's route if logged in as driver
-  const driverRoute = user?.role === 'driver' && user?.vehicleId
-    ? routes.find(r => r.vehicleId.toLowerCase() === user.vehicleId?.toLowerCase())
-    : null;
+  // Get driver's trips if logged in as driver
+  const driverRoutes = user?.role === 'driver' && user?.vehicleId
+    ? routes.filter(r => r.vehicleId.toLowerCase() === user.vehicleId?.toLowerCase())
+    : [];
+  const driverRoute = driverRoutes[0] || null;
 
-  // Get assigned bin IDs for this driver
-  const assignedBinIds = driverRoute?.route
+  // Get assigned bin IDs for this driver across all trips
+  const assignedBinIds = driverRoutes.flatMap(r => r.route
     .filter(point => point.type === 'smartbin')
-    .map(point => point.id) || [];
+    .map(point => point.id));
+  const driverDistance = Math.round(driverRoutes.reduce((sum, r) => sum + r.totalDistance, 0) * 10) / 10;
+  const driverEndTime = driverRoutes.length > 0
+    ? Math.max(...driverRoutes.map(r => r.startTime + r.estimatedTime))
+    : 0;
+
+  // Where stations and dumpyards end the day if the planned routes are driven
+  const facilityFill = projectFacilityFill(data.compactStations, data.dumpyards, routes);
+  const overfullCount = facilityFill.filter(f => f.projected > fillLimit(f, planningConfig.facilityFillLimit)).length;
 
   const stats = [
     { 
@@ -60,6 +74,24 @@ export default function HomePage() {
       checked: showDumpyards,
       onCheck: setShowDumpyards
     },
+    { 
+      label: 'Depots', 
+      value: data.depots.length, 
+      icon: Warehouse, 
+      color: 'text-primary',
+      bgColor: 'bg-primary/10',
+      checked: showDepots,
+      onCheck: setShowDepots
+    },
+    { 
+      label: 'Sensor Issues', 
+      value: [...sensorHealth.values()].filter(health => !health.trusted).length, 
+      icon: Activity, 
+      color: 'text-warning',
+      bgColor: 'bg-warning/10',
+      checked: showSensorIssues,
+      onCheck: setShowSensorIssues
+    },
   ];
 
   return (
@@ -77,7 +109,7 @@ export default function HomePage() {
                 : 'Real-time waste management map'}
             </p>
           </div>
-          {user?.role === 'admin' && (
+          {user?.role !== 'driver' && (
             <div className="flex items-center gap-2 text-muted-foreground">
               <Filter className="w-4 h-4" />
               <span className="text-sm">Filters</span>
@@ -86,8 +118,8 @@ export default function HomePage() {
         </div>
         
         {/* Filter Checkboxes - Only for admin */}
-        {user?.role === 'admin' && (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 md:gap-4">
+        {user?.role !== 'driver' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2 md:gap-4">
             {stats.map((stat, index) => (
               <motion.div
                 key={stat.label}
@@ -119,6 +151,52 @@ export default function HomePage() {
           </div>
         )}
 
+        {/* Projected end-of-day fill - Only for admin */}
+        {user?.role !== 'driver' && (
+          <div className="mt-2 md:mt-3">
+            <button
+              onClick={() => setShowFacilityFill(!showFacilityFill)}
+              className="flex items-center gap-2 text-xs md:text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ChevronDown className={`w-4 h-4 transition-transform ${showFacilityFill ? 'rotate-180' : ''}`} />
+              Projected end-of-day fill
+              {routes.length === 0 && <span className="text-xs">(no routes planned)</span>}
+              {overfullCount > 0 && (
+                <span className="text-xs font-medium text-destructive">{overfullCount} over {planningConfig.facilityFillLimit}%</span>
+              )}
+            </button>
+            {showFacilityFill && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 mt-2"
+              >
+                {facilityFill.map(facility => {
+                  const percent = facility.capacity > 0 ? Math.round((facility.projected / facility.capacity) * 100) : 0;
+                  const overfull = facility.projected > fillLimit(facility, planningConfig.facilityFillLimit);
+                  return (
+                    <div key={`${facility.kind}-${facility.id}`} className="p-2 rounded-lg glass space-y-1">
+                      <div className="flex items-center justify-between gap-2 text-xs">
+                        <span className="flex items-center gap-1 min-w-0 font-medium text-foreground">
+                          {facility.kind === 'station'
+                            ? <Building2 className="w-3 h-3 text-compact-station shrink-0" />
+                            : <MapPin className="w-3 h-3 text-dumpyard shrink-0" />}
+                          <span className="truncate">{facility.name}</span>
+                        </span>
+                        <span className={`shrink-0 ${overfull ? 'text-destructive font-bold' : 'text-muted-foreground'}`}>{percent}%</span>
+                      </div>
+                      <Progress value={Math.min(100, percent)} className="h-1.5" />
+                      <p className="text-[10px] text-muted-foreground">
+                        {Math.round(facility.current).toLocaleString()} → {Math.round(facility.projected).toLocaleString()} / {facility.capacity.toLocaleString()} {facility.unit}
+                      </p>
+                    </div>
+                  );
+                })}
+              </motion.div>
+            )}
+          </div>
+        )}
+
         {/* Driver info card */}
         {user?.role === 'driver' && driverRoute && (
           <motion.div
@@ -131,10 +209,10 @@ export default function HomePage() {
             </div>
             <div className="flex-1">
               <p className="text-xs md:text-sm font-medium text-foreground">
-                Distance: {driverRoute.totalDistance} km
+                Distance: {driverDistance} km{driverRoutes.length > 1 ? ` · ${driverRoutes.length} trips` : ''}
               </p>
               <p className="text-xs text-muted-foreground">
-                Est. Time: {driverRoute.estimatedTime} min
+                Est. Time: {driverEndTime} min
               </p>
             </div>
           </motion.div>
@@ -153,9 +231,11 @@ export default function HomePage() {
             onError={(e) => console.error('Map render error:', e)}
           >
             <MapWrapper 
-              showSmartBins={user?.role === 'admin' ? showSmartBins : true}
-              showCompactStations={user?.role === 'admin' ? showCompactStations : true}
-              showDumpyards={user?.role === 'admin' ? showDumpyards : true}
+              showSmartBins={user?.role !== 'driver' ? showSmartBins : true}
+              showCompactStations={user?.role !== 'driver' ? showCompactStations : true}
+              showDumpyards={user?.role !== 'driver' ? showDumpyards : true}
+              showDepots={user?.role !== 'driver' ? showDepots : true}
+              showSensorIssues={user?.role !== 'driver' && showSensorIssues}
               driverVehicleId={user?.role === 'driver' ? user.vehicleId : undefined}
             />
           </ErrorBoundary>
@@ -1,111 +1,45 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Truck, User, AlertCircle, LogIn, MapPin, Lock } from 'lucide-react';
+import { User, AlertCircle, LogIn, Lock, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '@/context/AuthContext';
-import { useData } from '@/context/DataContext';
-import { UserRole } from '@/types';
 import logoDark from '@/assets/logo-dark.jpg';
 import logoLight from '@/assets/logo-light.jpg';
 import { toast } from 'sonner';
 
-// Admin password hash stored in localStorage
-const ADMIN_PASSWORD_KEY = 'ajastra_admin_password_hash';
-const DEFAULT_PASSWORD = '12345';
-
-// Simple hash function for password
-function hashPassword(password: string): string {
-  let hash = 0;
-  for (let i = 0; i < password.length; i++) {
-    const char = password.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return hash.toString(36);
-}
-
-// Initialize default password if not set
-function initializePassword() {
-  if (!localStorage.getItem(ADMIN_PASSWORD_KEY)) {
-    localStorage.setItem(ADMIN_PASSWORD_KEY, hashPassword(DEFAULT_PASSWORD));
-  }
-}
-
-export function validateAdminPassword(password: string): boolean {
-  initializePassword();
-  const storedHash = localStorage.getItem(ADMIN_PASSWORD_KEY);
-  return storedHash === hashPassword(password);
-}
-
-export function updateAdminPassword(newPassword: string): void {
-  localStorage.setItem(ADMIN_PASSWORD_KEY, hashPassword(newPassword));
-}
-
 export default function LoginPage() {
-  const [role, setRole] = useState<UserRole | null>(null);
-  const [vehicleId, setVehicleId] = useState('');
-  const [adminPassword, setAdminPassword] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
   const { login } = useAuth();
-  const { data } = useData();
   const [isDarkMode, setIsDarkMode] = useState(true);
 
   useEffect(() => {
     const saved = localStorage.getItem('theme');
     setIsDarkMode(saved ? saved === 'dark' : true);
-    initializePassword();
   }, []);
 
-  const handleLogin = () => {
+  // Drivers sign in with their own account, which the server binds to their vehicle
+  const handleLogin = async () => {
     setError('');
-    
-    if (!role) {
-      setError('Please select your role');
+
+    if (!username.trim() || !password) {
+      setError('Please enter your username and password');
       return;
     }
 
-    if (role === 'driver') {
-      if (!vehicleId.trim()) {
-        setError('Please enter your vehicle ID');
-        return;
-      }
-
-      const allVehicles = [
-        ...data.vehicles.trucks.map(t => ({ ...t, type: 'truck' })),
-        ...data.vehicles.sats.map(s => ({ ...s, type: 'sat' }))
-      ];
-
-      const vehicle = allVehicles.find(v => 
-        v.id.toLowerCase() === vehicleId.trim().toLowerCase()
-      );
-
-      if (!vehicle) {
-        setError('Vehicle ID not found. Please check and try again.');
-        return;
-      }
-
-      if (vehicle.status === 'off-duty') {
-        setError('This vehicle is currently marked as off-duty.');
-        return;
-      }
-
-      login('driver', vehicleId.trim().toUpperCase());
-    } else {
-      // Admin login with password
-      if (!adminPassword.trim()) {
-        setError('Please enter the admin password');
-        return;
-      }
-
-      if (!validateAdminPassword(adminPassword)) {
-        setError('Invalid admin password');
-        return;
-      }
-
-      login('admin');
-      toast.success('Logged in as Admin');
+    setIsSigningIn(true);
+    try {
+      await login(username.trim(), password);
+      toast.success(`Signed in as ${username.trim()}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+      setPassword('');
+    } finally {
+      setIsSigningIn(false);
     }
   };
 
@@ -159,109 +93,70 @@ export default function LoginPage() {
             Sign In to Continue
           </h2>
 
-          {/* Role Selection */}
-          <div className="space-y-3 mb-6">
-            <Label className="text-muted-foreground text-sm">Select Your Role</Label>
-            <div className="grid grid-cols-2 gap-3">
-              <button
-                onClick={() => { setRole('admin'); setError(''); setVehicleId(''); }}
-                className={`p-4 rounded-xl border-2 transition-all duration-200 flex flex-col items-center gap-2 ${
-                  role === 'admin' 
-                    ? 'border-primary bg-primary/10 text-primary' 
-                    : 'border-border bg-secondary/50 text-muted-foreground hover:border-primary/50'
-                }`}
-              >
-                <User className="w-6 h-6" />
-                <span className="font-medium">Admin</span>
-              </button>
-              <button
-                onClick={() => { setRole('driver'); setError(''); setAdminPassword(''); }}
-                className={`p-4 rounded-xl border-2 transition-all duration-200 flex flex-col items-center gap-2 ${
-                  role === 'driver' 
-                    ? 'border-primary bg-primary/10 text-primary' 
-                    : 'border-border bg-secondary/50 text-muted-foreground hover:border-primary/50'
-                }`}
-              >
-                <Truck className="w-6 h-6" />
-                <span className="font-medium">Driver</span>
-              </button>
-            </div>
-          </div>
-
-          {/* Admin Password Input */}
-          {role === 'admin' && (
-            <motion.div
-              initial={{ opacity: 0, height: 0 }}
-              animate={{ opacity: 1, height: 'auto' }}
-              exit={{ opacity: 0, height: 0 }}
-              className="mb-6"
-            >
-              <Label htmlFor="adminPassword" className="text-muted-foreground text-sm mb-2 block">
-                Admin Password
-              </Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="adminPassword"
-                  type="password"
-                  placeholder="Enter admin password"
-                  value={adminPassword}
-                  onChange={(e) => { setAdminPassword(e.target.value); setError(''); }}
-                  className="bg-secondary/50 pl-10"
-                />
+          <form onSubmit={(e) => { e.preventDefault(); handleLogin(); }}>
+            <div className="space-y-4 mb-6">
+              <div>
+                <Label htmlFor="username" className="text-muted-foreground text-sm mb-2 block">
+                  Username
+                </Label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="username"
+                    autoComplete="username"
+                    placeholder="Enter your username"
+                    value={username}
+                    onChange={(e) => { setUsername(e.target.value); setError(''); }}
+                    className="bg-secondary/50 pl-10"
+                  />
+                </div>
               </div>
-              <p className="text-xs text-muted-foreground mt-2">
-                Default password for Admin ('12345')
-              </p>
-            </motion.div>
-          )}
-
-          {/* Vehicle ID Input (for drivers) */}
-          {role === 'driver' && (
-            <motion.div
-              initial={{ opacity: 0, height: 0 }}
-              animate={{ opacity: 1, height: 'auto' }}
-              exit={{ opacity: 0, height: 0 }}
-              className="mb-6"
-            >
-              <Label htmlFor="vehicleId" className="text-muted-foreground text-sm mb-2 block">
-                Vehicle ID
-              </Label>
-              <Input
-                id="vehicleId"
-                placeholder="e.g., T101 or SAT101"
-                value={vehicleId}
-                onChange={(e) => { setVehicleId(e.target.value); setError(''); }}
-                className="bg-secondary/50"
-              />
-              <p className="text-xs text-muted-foreground mt-2">
-                Enter your assigned vehicle ID (Truck: T101, SAT: SAT101)
-              </p>
-            </motion.div>
-          )}
+              <div>
+                <Label htmlFor="password" className="text-muted-foreground text-sm mb-2 block">
+                  Password
+                </Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e) => { setPassword(e.target.value); setError(''); }}
+                    className="bg-secondary/50 pl-10"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Drivers sign in with the account their admin created for their vehicle
+                </p>
+              </div>
+            </div>
 
-          {/* Error Message */}
-          {error && (
-            <motion.div
-              initial={{ opacity: 0, y: -10 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="flex items-center gap-2 text-destructive bg-destructive/10 p-3 rounded-lg mb-6"
+            {/* Error Message */}
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="flex items-center gap-2 text-destructive bg-destructive/10 p-3 rounded-lg mb-6"
+              >
+                <AlertCircle className="w-4 h-4" />
+                <span className="text-sm">{error}</span>
+              </motion.div>
+            )}
+
+            {/* Login Button */}
+            <Button 
+              type="submit"
+              variant="glow"
+              size="xl"
+              className="w-full"
+              disabled={isSigningIn}
             >
-              <AlertCircle className="w-4 h-4" />
-              <span className="text-sm">{error}</span>
-            </motion.div>
-          )}
-
-          {/* Login Button */}
-          <Button 
-            onClick={handleLogin}
-            variant="glow"
-            size="xl"
-            className="w-full"
-          >
-            <LogIn className="w-5 h-5" />
-            Sign In
-          </Button>
+              {isSigningIn ? <Loader2 className="w-5 h-5 animate-spin" /> : <LogIn className="w-5 h-5" />}
+              Sign In
+            </Button>
+          </form>
         </motion.div>
 
         {/* Footer */}
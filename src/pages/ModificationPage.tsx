@@ -3,7 +3,7 @@ import { motion } from 'framer-motion';
 import { 
   Plus, Trash2, Truck, Package, Building2, MapPin, 
   Edit2, AlertTriangle, CheckCircle, XCircle, Settings2,
-  CheckSquare, Square, Search, ToggleLeft, ToggleRight
+  CheckSquare, Square, Search, ToggleLeft, ToggleRight, Gauge, Warehouse, Activity, BatteryLow
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,7 +12,12 @@ import { Slider } from '@/components/ui/slider';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Switch } from '@/components/ui/switch';
 import { useData } from '@/context/DataContext';
-import { Vehicle, SmartBin, CompactStation, Dumpyard } from '@/types';
+import { useAuth } from '@/context/AuthContext';
+import { Vehicle, VehicleProfile, Depot, SmartBin, CompactStation, Dumpyard, TimeWindow } from '@/types';
+import { isValidTimeWindow } from '@/utils/schedule';
+import { findProfile, profileIdFromName } from '@/utils/vehicleProfiles';
+import { sensorIssues } from '@/utils/sensorHealth';
+import BinLevelChart from '@/components/BinLevelChart';
 import { toast } from 'sonner';
 import {
   Dialog,
@@ -35,27 +40,150 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 
 // Permanent dumpyard IDs that cannot be deleted
 const PERMANENT_DUMPYARD_IDS = ['DY001', 'DY002'];
 
+// Optional service window from two time inputs: undefined when both are empty,
+// null when only one is set or both are the same time
+function toServiceWindow(start: string, end: string): TimeWindow | undefined | null {
+  if (!start && !end) return undefined;
+  const window = { start, end };
+  return start && end && isValidTimeWindow(window) ? window : null;
+}
+
+function ServiceWindowInputs({
+  start,
+  end,
+  onChange
+}: {
+  start: string;
+  end: string;
+  onChange: (start: string, end: string) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label>Window Opens (optional)</Label>
+        <Input type="time" value={start} onChange={(e) => onChange(e.target.value, end)} />
+      </div>
+      <div>
+        <Label>Window Closes (optional)</Label>
+        <Input type="time" value={end} onChange={(e) => onChange(start, e.target.value)} />
+      </div>
+    </div>
+  );
+}
+
+// Select value for "none" (Radix Select items cannot use an empty string)
+const NONE = 'none';
+
+function VehicleProfileSelect({
+  profiles,
+  value,
+  onChange
+}: {
+  profiles: VehicleProfile[];
+  value: string;
+  onChange: (profileId: string) => void;
+}) {
+  return (
+    <div>
+      <Label>Vehicle Profile</Label>
+      <Select value={value || NONE} onValueChange={(id) => onChange(id === NONE ? '' : id)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>None (enter capacity)</SelectItem>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function HomeDepotSelect({
+  depots,
+  value,
+  onChange,
+  className,
+  disabled
+}: {
+  depots: Depot[];
+  value?: string;
+  onChange: (depotId: string) => void;
+  className?: string;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value || NONE} onValueChange={(id) => onChange(id === NONE ? '' : id)} disabled={disabled}>
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>No depot</SelectItem>
+        {depots.map(depot => (
+          <SelectItem key={depot.id} value={depot.id}>{depot.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// "12 min ago" style age of a sensor's last report
+function formatReportAge(at?: number): string {
+  if (at === undefined) return 'Never';
+  const minutes = Math.max(0, Math.round((Date.now() - at) / 60000));
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return `${Math.round(minutes / 1440)} d ago`;
+}
+
+const EMPTY_PROFILE_FORM = {
+  name: '', vehicleClass: 'sat' as VehicleProfile['vehicleClass'], weightCapacity: '', volumeCapacity: '',
+  maxSpeed: '', narrowLaneAccess: false, fuelConsumption: '', fixedCostPerTrip: ''
+};
+
 export default function ModificationPage() {
   const { 
     data, 
     addTruck, removeTruck, updateTruckStatus,
     addSAT, removeSAT, updateSATStatus,
+    addVehicleProfile, removeVehicleProfile,
+    addDepot, removeDepot, updateVehicleHomeDepot,
     addSmartBin, removeSmartBin, updateBinLevel,
     addCompactStation, removeCompactStation, updateStationLevel,
     addDumpyard, removeDumpyard, updateDumpyardLevel,
-    updateData
+    updateData, withChangeReason, levelHistory, staleSensorIds, sensorHealth, telemetryConfig
   } = useData();
+  const { can } = useAuth();
+  // Bins and stations are checked per item too, since supervisors only manage their own areas
+  const canEditFleet = can('fleet:edit');
+  const canEditFacilities = can('facilities:edit');
+  const canEditBins = can('bins:edit');
+  const canEditStations = can('stations:edit');
+  const isReadOnly = !canEditFleet && !canEditFacilities && !canEditBins && !canEditStations;
 
   // Form states
-  const [newTruck, setNewTruck] = useState({ id: '', capacity: '' });
-  const [newSAT, setNewSAT] = useState({ id: '', capacity: '' });
-  const [newBin, setNewBin] = useState({ id: '', lat: '', lng: '', capacity: '', area: '', isSmartBin: true });
-  const [newStation, setNewStation] = useState({ id: '', lat: '', lng: '', capacity: '', area: '' });
-  const [newDumpyard, setNewDumpyard] = useState({ id: '', lat: '', lng: '', capacity: '', name: '' });
+  const [newTruck, setNewTruck] = useState({ id: '', capacity: '', profileId: '', homeDepotId: '' });
+  const [newSAT, setNewSAT] = useState({ id: '', capacity: '', profileId: '', homeDepotId: '' });
+  const [newDepot, setNewDepot] = useState({ id: '', name: '', lat: '', lng: '' });
+  const [newProfile, setNewProfile] = useState(EMPTY_PROFILE_FORM);
+  const [newBin, setNewBin] = useState({ id: '', lat: '', lng: '', capacity: '', area: '', isSmartBin: true, narrowLane: false, windowStart: '', windowEnd: '' });
+  const [newStation, setNewStation] = useState({ id: '', lat: '', lng: '', capacity: '', area: '', windowStart: '', windowEnd: '' });
+  const [newDumpyard, setNewDumpyard] = useState({ id: '', lat: '', lng: '', capacity: '', name: '', windowStart: '', windowEnd: '' });
   
   // Multi-select states
   const [selectionMode, setSelectionMode] = useState<'none' | 'bins' | 'stations' | 'dumpyards' | 'trucks' | 'sats'>('none');
@@ -119,6 +247,17 @@ export default function ModificationPage() {
   const filteredSats = filterById?.type === 'sat' 
     ? data.vehicles.sats.filter(s => s.id === filterById.id) 
     : data.vehicles.sats;
+  // Untrusted sensors first, then low batteries
+  const [healthIssuesOnly, setHealthIssuesOnly] = useState(false);
+  const sensorHealthRows = useMemo(() => [...sensorHealth.values()]
+    .filter(health => !healthIssuesOnly || sensorIssues(health).length > 0)
+    .sort((a, b) =>
+      Number(a.trusted) - Number(b.trusted) ||
+      Number(b.lowBattery) - Number(a.lowBattery) ||
+      a.binId.localeCompare(b.binId)
+    ), [sensorHealth, healthIssuesOnly]);
+  const untrustedSensorCount = [...sensorHealth.values()].filter(health => !health.trusted).length;
+
   const filteredBins = filterById?.type === 'bin' 
     ? data.smartBins.filter(b => b.id === filterById.id) 
     : data.smartBins;
@@ -145,10 +284,10 @@ export default function ModificationPage() {
     let items: string[] = [];
     switch (type) {
       case 'bins':
-        items = data.smartBins.map(b => b.id);
+        items = data.smartBins.filter(b => can('bins:edit', b.area)).map(b => b.id);
         break;
       case 'stations':
-        items = data.compactStations.map(s => s.id);
+        items = data.compactStations.filter(s => can('stations:edit', s.area)).map(s => s.id);
         break;
       case 'dumpyards':
         items = data.dumpyards.filter(d => !PERMANENT_DUMPYARD_IDS.includes(d.id)).map(d => d.id);
@@ -175,12 +314,12 @@ export default function ModificationPage() {
     }
     
     // Update selected bins to smart or regular based on bulkSmartBin toggle
-    updateData({
+    withChangeReason(`Bulk set ${selectedItems.size} bins to ${bulkSmartBin ? 'smart' : 'regular'}`, () => updateData({
       ...data,
       smartBins: data.smartBins.map(bin => 
         selectedItems.has(bin.id) ? { ...bin, isSmartBin: bulkSmartBin } : bin
       )
-    });
+    }));
     
     toast.success(`Updated ${selectedItems.size} bins to ${bulkSmartBin ? 'Smart' : 'Regular'}`);
   };
@@ -192,7 +331,7 @@ export default function ModificationPage() {
     }
     
     if (action === 'delete') {
-      selectedItems.forEach(id => {
+      withChangeReason(`Bulk delete of ${selectedItems.size} ${selectionMode}`, () => selectedItems.forEach(id => {
         switch (selectionMode) {
           case 'bins':
             removeSmartBin(id);
@@ -212,10 +351,10 @@ export default function ModificationPage() {
             removeSAT(id);
             break;
         }
-      });
+      }));
       toast.success(`Deleted ${selectedItems.size} items`);
     } else if (action === 'setLevel') {
-      selectedItems.forEach(id => {
+      withChangeReason(`Bulk fill level of ${selectedItems.size} ${selectionMode} set to ${bulkFillLevel}%`, () => selectedItems.forEach(id => {
         switch (selectionMode) {
           case 'bins':
             updateBinLevel(id, bulkFillLevel);
@@ -233,41 +372,91 @@ export default function ModificationPage() {
             }
             break;
         }
-      });
+      }));
       toast.success(`Updated fill level for ${selectedItems.size} items`);
     }
     
     clearSelection();
   };
 
+  // Vehicle from an add form; a profile supplies the capacity
+  const toVehicle = (form: { id: string; capacity: string; profileId: string; homeDepotId: string }): Vehicle | null => {
+    const profile = findProfile(data.vehicleProfiles, form.profileId);
+    if (!form.id || (!profile && !form.capacity)) return null;
+    return {
+      id: form.id.toUpperCase(),
+      capacity: profile ? profile.weightCapacity : parseInt(form.capacity),
+      status: 'active',
+      driver: '',
+      ...(profile && { profileId: profile.id }),
+      ...(form.homeDepotId && { homeDepotId: form.homeDepotId })
+    };
+  };
+
   const handleAddTruck = () => {
-    if (!newTruck.id || !newTruck.capacity) {
+    const truck = toVehicle(newTruck);
+    if (!truck) {
       toast.error('Please fill all fields');
       return;
     }
-    addTruck({
-      id: newTruck.id.toUpperCase(),
-      capacity: parseInt(newTruck.capacity),
-      status: 'active',
-      driver: ''
-    });
-    setNewTruck({ id: '', capacity: '' });
-    toast.success(`Truck ${newTruck.id.toUpperCase()} added successfully`);
+    addTruck(truck);
+    setNewTruck({ id: '', capacity: '', profileId: '', homeDepotId: '' });
+    toast.success(`Truck ${truck.id} added successfully`);
   };
 
   const handleAddSAT = () => {
-    if (!newSAT.id || !newSAT.capacity) {
+    const sat = toVehicle(newSAT);
+    if (!sat) {
       toast.error('Please fill all fields');
       return;
     }
-    addSAT({
-      id: newSAT.id.toUpperCase(),
-      capacity: parseInt(newSAT.capacity),
-      status: 'active',
-      driver: ''
+    addSAT(sat);
+    setNewSAT({ id: '', capacity: '', profileId: '', homeDepotId: '' });
+    toast.success(`SAT ${sat.id} added successfully`);
+  };
+
+  const handleAddProfile = () => {
+    const numbers = [
+      newProfile.weightCapacity, newProfile.volumeCapacity, newProfile.maxSpeed,
+      newProfile.fuelConsumption, newProfile.fixedCostPerTrip
+    ].map(value => parseFloat(value));
+    if (!newProfile.name.trim() || numbers.some(value => !Number.isFinite(value) || value < 0)) {
+      toast.error('Please fill all fields with non-negative numbers');
+      return;
+    }
+    const [weightCapacity, volumeCapacity, maxSpeed, fuelConsumption, fixedCostPerTrip] = numbers;
+    if (weightCapacity === 0 || volumeCapacity === 0 || maxSpeed === 0) {
+      toast.error('Capacities and max speed must be above zero');
+      return;
+    }
+    const id = profileIdFromName(newProfile.name);
+    if (data.vehicleProfiles.some(profile => profile.id === id)) {
+      toast.error(`A profile named "${newProfile.name.trim()}" already exists`);
+      return;
+    }
+    addVehicleProfile({
+      id,
+      name: newProfile.name.trim(),
+      vehicleClass: newProfile.vehicleClass,
+      weightCapacity,
+      volumeCapacity,
+      maxSpeed,
+      narrowLaneAccess: newProfile.narrowLaneAccess,
+      fuelConsumption,
+      fixedCostPerTrip
     });
-    setNewSAT({ id: '', capacity: '' });
-    toast.success(`SAT ${newSAT.id.toUpperCase()} added successfully`);
+    setNewProfile(EMPTY_PROFILE_FORM);
+    toast.success(`Profile ${newProfile.name.trim()} added successfully`);
+  };
+
+  const handleRemoveProfile = (profile: VehicleProfile) => {
+    const inUse = [...data.vehicles.trucks, ...data.vehicles.sats].filter(v => v.profileId === profile.id);
+    if (inUse.length > 0) {
+      toast.error(`${profile.name} is used by ${inUse.length} vehicle(s)`);
+      return;
+    }
+    removeVehicleProfile(profile.id);
+    toast.success(`Profile ${profile.name} removed`);
   };
 
   const handleAddBin = () => {
@@ -275,6 +464,15 @@ export default function ModificationPage() {
       toast.error('Please fill all fields');
       return;
     }
+    const serviceWindow = toServiceWindow(newBin.windowStart, newBin.windowEnd);
+    if (serviceWindow === null) {
+      toast.error('Service window needs two different times');
+      return;
+    }
+    if (!can('bins:edit', newBin.area)) {
+      toast.error(`You cannot manage bins in ${newBin.area}`);
+      return;
+    }
     addSmartBin({
       id: newBin.id.toUpperCase(),
       lat: parseFloat(newBin.lat),
@@ -282,9 +480,11 @@ export default function ModificationPage() {
       capacity: parseInt(newBin.capacity),
       currentLevel: 0,
       area: newBin.area,
-      isSmartBin: newBin.isSmartBin
+      isSmartBin: newBin.isSmartBin,
+      ...(newBin.narrowLane && { narrowLane: true }),
+      ...(serviceWindow && { serviceWindow })
     });
-    setNewBin({ id: '', lat: '', lng: '', capacity: '', area: '', isSmartBin: true });
+    setNewBin({ id: '', lat: '', lng: '', capacity: '', area: '', isSmartBin: true, narrowLane: false, windowStart: '', windowEnd: '' });
     toast.success(`${newBin.isSmartBin ? 'Smart Bin' : 'Regular Bin'} ${newBin.id.toUpperCase()} added successfully`);
   };
 
@@ -293,15 +493,25 @@ export default function ModificationPage() {
       toast.error('Please fill all fields');
       return;
     }
+    const serviceWindow = toServiceWindow(newStation.windowStart, newStation.windowEnd);
+    if (serviceWindow === null) {
+      toast.error('Service window needs two different times');
+      return;
+    }
+    if (!can('stations:edit', newStation.area)) {
+      toast.error(`You cannot manage stations in ${newStation.area}`);
+      return;
+    }
     addCompactStation({
       id: newStation.id.toUpperCase(),
       lat: parseFloat(newStation.lat),
       lng: parseFloat(newStation.lng),
       capacity: parseInt(newStation.capacity),
       currentLevel: 0,
-      area: newStation.area
+      area: newStation.area,
+      ...(serviceWindow && { serviceWindow })
     });
-    setNewStation({ id: '', lat: '', lng: '', capacity: '', area: '' });
+    setNewStation({ id: '', lat: '', lng: '', capacity: '', area: '', windowStart: '', windowEnd: '' });
     toast.success(`Compact Station ${newStation.id.toUpperCase()} added successfully`);
   };
 
@@ -310,18 +520,55 @@ export default function ModificationPage() {
       toast.error('Please fill all fields');
       return;
     }
+    const serviceWindow = toServiceWindow(newDumpyard.windowStart, newDumpyard.windowEnd);
+    if (serviceWindow === null) {
+      toast.error('Gate hours need two different times');
+      return;
+    }
     addDumpyard({
       id: newDumpyard.id.toUpperCase(),
       lat: parseFloat(newDumpyard.lat),
       lng: parseFloat(newDumpyard.lng),
       capacity: parseInt(newDumpyard.capacity),
       currentLevel: 0,
-      name: newDumpyard.name
+      name: newDumpyard.name,
+      ...(serviceWindow && { serviceWindow })
     });
-    setNewDumpyard({ id: '', lat: '', lng: '', capacity: '', name: '' });
+    setNewDumpyard({ id: '', lat: '', lng: '', capacity: '', name: '', windowStart: '', windowEnd: '' });
     toast.success(`Dumpyard ${newDumpyard.name} added successfully`);
   };
 
+  const handleAddDepot = () => {
+    if (!newDepot.id || !newDepot.name || !newDepot.lat || !newDepot.lng) {
+      toast.error('Please fill all fields');
+      return;
+    }
+    const id = newDepot.id.toUpperCase();
+    if (data.depots.some(depot => depot.id === id)) {
+      toast.error(`Depot ${id} already exists`);
+      return;
+    }
+    addDepot({
+      id,
+      name: newDepot.name,
+      lat: parseFloat(newDepot.lat),
+      lng: parseFloat(newDepot.lng)
+    });
+    setNewDepot({ id: '', name: '', lat: '', lng: '' });
+    toast.success(`Depot ${newDepot.name} added successfully`);
+  };
+
+  const vehiclesAtDepot = (depotId: string) =>
+    [...data.vehicles.trucks, ...data.vehicles.sats].filter(v => v.homeDepotId === depotId).length;
+
+  const handleDeleteDepot = (depot: Depot) => {
+    const parked = vehiclesAtDepot(depot.id);
+    removeDepot(depot.id);
+    toast.success(parked > 0
+      ? `${depot.name} removed; ${parked} vehicle(s) no longer have a home depot`
+      : `${depot.name} removed`);
+  };
+
   const handleDeleteDumpyard = (id: string, name: string) => {
     if (PERMANENT_DUMPYARD_IDS.includes(id)) {
       toast.error(`${name} is a permanent dumpyard and cannot be deleted`);
@@ -335,7 +582,9 @@ export default function ModificationPage() {
     <div className="h-full overflow-auto p-4 md:p-6 scrollbar-thin">
       <div className="mb-4 md:mb-6">
         <h1 className="text-xl md:text-2xl font-bold text-foreground">Asset Management</h1>
-        <p className="text-sm md:text-base text-muted-foreground">Add, remove, and manage all waste management assets</p>
+        <p className="text-sm md:text-base text-muted-foreground">
+          {isReadOnly ? 'View all waste management assets' : 'Add, remove, and manage all waste management assets'}
+        </p>
       </div>
 
       {/* Global Search */}
@@ -504,7 +753,7 @@ export default function ModificationPage() {
               </div>
               <Dialog>
                 <DialogTrigger asChild>
-                  <Button variant="outline" size="sm" className="text-xs md:text-sm">
+                  <Button variant="outline" size="sm" className="text-xs md:text-sm" disabled={!canEditFleet}>
                     <Plus className="w-3 h-3 md:w-4 md:h-4 mr-1" /> Add Truck
                   </Button>
                 </DialogTrigger>
@@ -522,15 +771,30 @@ export default function ModificationPage() {
                         onChange={(e) => setNewTruck({ ...newTruck, id: e.target.value })}
                       />
                     </div>
+                    <VehicleProfileSelect
+                      profiles={data.vehicleProfiles.filter(p => p.vehicleClass === 'truck')}
+                      value={newTruck.profileId}
+                      onChange={(profileId) => setNewTruck({ ...newTruck, profileId })}
+                    />
                     <div>
-                      <Label>Capacity (kg)</Label>
-                      <Input 
-                        type="number" 
-                        placeholder="e.g., 5000"
-                        value={newTruck.capacity}
-                        onChange={(e) => setNewTruck({ ...newTruck, capacity: e.target.value })}
+                      <Label>Home Depot</Label>
+                      <HomeDepotSelect
+                        depots={data.depots}
+                        value={newTruck.homeDepotId}
+                        onChange={(homeDepotId) => setNewTruck({ ...newTruck, homeDepotId })}
                       />
                     </div>
+                    {!newTruck.profileId && (
+                      <div>
+                        <Label>Capacity (kg)</Label>
+                        <Input 
+                          type="number" 
+                          placeholder="e.g., 5000"
+                          value={newTruck.capacity}
+                          onChange={(e) => setNewTruck({ ...newTruck, capacity: e.target.value })}
+                        />
+                      </div>
+                    )}
                     <Button onClick={handleAddTruck} className="w-full">Add Truck</Button>
                   </div>
                 </DialogContent>
@@ -541,7 +805,9 @@ export default function ModificationPage() {
                 <div key={truck.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-2 md:p-3 rounded-lg bg-secondary/50">
                   <div className="flex items-center gap-2 md:gap-3 flex-wrap">
                     <span className="text-sm md:text-base font-medium text-foreground">{truck.id}</span>
-                    <span className="text-xs md:text-sm text-muted-foreground">{truck.capacity}kg</span>
+                    <span className="text-xs md:text-sm text-muted-foreground">
+                      {findProfile(data.vehicleProfiles, truck.profileId)?.name ?? `${truck.capacity}kg`}
+                    </span>
                     <span className={`px-2 py-0.5 rounded-full text-xs ${
                       truck.status === 'active' ? 'bg-success/20 text-success' : 
                       truck.status === 'off-duty' ? 'bg-destructive/20 text-destructive' :
@@ -551,9 +817,17 @@ export default function ModificationPage() {
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
+                    <HomeDepotSelect
+                      depots={data.depots}
+                      value={truck.homeDepotId}
+                      onChange={(depotId) => updateVehicleHomeDepot(truck.id, depotId || undefined)}
+                      className="w-[110px] md:w-[160px] h-8 text-xs md:text-sm"
+                      disabled={!canEditFleet}
+                    />
                     <Select 
                       value={truck.status} 
                       onValueChange={(value) => updateTruckStatus(truck.id, value as Vehicle['status'])}
+                      disabled={!canEditFleet}
                     >
                       <SelectTrigger className="w-[100px] md:w-[120px] h-8 text-xs md:text-sm">
                         <SelectValue />
@@ -568,6 +842,7 @@ export default function ModificationPage() {
                       variant="ghost" 
                       size="icon"
                       className="h-8 w-8"
+                      disabled={!canEditFleet}
                       onClick={() => {
                         removeTruck(truck.id);
                         toast.success(`Truck ${truck.id} removed`);
@@ -597,7 +872,7 @@ export default function ModificationPage() {
               </div>
               <Dialog>
                 <DialogTrigger asChild>
-                  <Button variant="outline" size="sm">
+                  <Button variant="outline" size="sm" disabled={!canEditFleet}>
                     <Plus className="w-4 h-4 mr-1" /> Add SAT
                   </Button>
                 </DialogTrigger>
@@ -615,15 +890,30 @@ export default function ModificationPage() {
                         onChange={(e) => setNewSAT({ ...newSAT, id: e.target.value })}
                       />
                     </div>
+                    <VehicleProfileSelect
+                      profiles={data.vehicleProfiles.filter(p => p.vehicleClass === 'sat')}
+                      value={newSAT.profileId}
+                      onChange={(profileId) => setNewSAT({ ...newSAT, profileId })}
+                    />
                     <div>
-                      <Label>Capacity (kg)</Label>
-                      <Input 
-                        type="number" 
-                        placeholder="e.g., 500"
-                        value={newSAT.capacity}
-                        onChange={(e) => setNewSAT({ ...newSAT, capacity: e.target.value })}
+                      <Label>Home Depot</Label>
+                      <HomeDepotSelect
+                        depots={data.depots}
+                        value={newSAT.homeDepotId}
+                        onChange={(homeDepotId) => setNewSAT({ ...newSAT, homeDepotId })}
                       />
                     </div>
+                    {!newSAT.profileId && (
+                      <div>
+                        <Label>Capacity (kg)</Label>
+                        <Input 
+                          type="number" 
+                          placeholder="e.g., 500"
+                          value={newSAT.capacity}
+                          onChange={(e) => setNewSAT({ ...newSAT, capacity: e.target.value })}
+                        />
+                      </div>
+                    )}
                     <Button onClick={handleAddSAT} className="w-full">Add SAT</Button>
                   </div>
                 </DialogContent>
@@ -634,7 +924,9 @@ export default function ModificationPage() {
                 <div key={sat.id} className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
                   <div className="flex items-center gap-3">
                     <span className="font-medium text-foreground">{sat.id}</span>
-                    <span className="text-sm text-muted-foreground">{sat.capacity}kg</span>
+                    <span className="text-sm text-muted-foreground">
+                      {findProfile(data.vehicleProfiles, sat.profileId)?.name ?? `${sat.capacity}kg`}
+                    </span>
                     <span className={`px-2 py-0.5 rounded-full text-xs ${
                       sat.status === 'active' ? 'bg-success/20 text-success' : 
                       sat.status === 'off-duty' ? 'bg-destructive/20 text-destructive' :
@@ -644,9 +936,17 @@ export default function ModificationPage() {
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
+                    <HomeDepotSelect
+                      depots={data.depots}
+                      value={sat.homeDepotId}
+                      onChange={(depotId) => updateVehicleHomeDepot(sat.id, depotId || undefined)}
+                      className="w-[110px] md:w-[160px] h-8 text-xs md:text-sm"
+                      disabled={!canEditFleet}
+                    />
                     <Select 
                       value={sat.status} 
                       onValueChange={(value) => updateSATStatus(sat.id, value as Vehicle['status'])}
+                      disabled={!canEditFleet}
                     >
                       <SelectTrigger className="w-[120px] h-8">
                         <SelectValue />
@@ -660,6 +960,7 @@ export default function ModificationPage() {
                     <Button 
                       variant="ghost" 
                       size="icon"
+                      disabled={!canEditFleet}
                       onClick={() => {
                         removeSAT(sat.id);
                         toast.success(`SAT ${sat.id} removed`);
@@ -672,6 +973,134 @@ export default function ModificationPage() {
               ))}
             </div>
           </motion.div>
+
+          {/* Vehicle Profiles Section */}
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="glass rounded-xl p-4 md:p-6"
+          >
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+              <div className="flex items-center gap-2 md:gap-3">
+                <div className="p-1.5 md:p-2 rounded-lg bg-primary/20">
+                  <Gauge className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+                </div>
+                <h2 className="text-base md:text-lg font-semibold text-foreground">Vehicle Profiles</h2>
+              </div>
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="text-xs md:text-sm" disabled={!canEditFleet}>
+                    <Plus className="w-3 h-3 md:w-4 md:h-4 mr-1" /> Add Profile
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-[90vw] sm:max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>Add Vehicle Profile</DialogTitle>
+                    <DialogDescription>Describe a vehicle model once; vehicles reference it.</DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4 mt-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Model Name</Label>
+                        <Input 
+                          placeholder="e.g., Mini Tipper 7T" 
+                          value={newProfile.name}
+                          onChange={(e) => setNewProfile({ ...newProfile, name: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <Label>Class</Label>
+                        <Select 
+                          value={newProfile.vehicleClass} 
+                          onValueChange={(value) => setNewProfile({ ...newProfile, vehicleClass: value as VehicleProfile['vehicleClass'] })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="sat">SAT</SelectItem>
+                            <SelectItem value="truck">Truck</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Weight Capacity (kg)</Label>
+                        <Input type="number" placeholder="e.g., 7000" value={newProfile.weightCapacity}
+                          onChange={(e) => setNewProfile({ ...newProfile, weightCapacity: e.target.value })} />
+                      </div>
+                      <div>
+                        <Label>Volume Capacity (m³)</Label>
+                        <Input type="number" placeholder="e.g., 20" value={newProfile.volumeCapacity}
+                          onChange={(e) => setNewProfile({ ...newProfile, volumeCapacity: e.target.value })} />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <Label>Max Speed (km/h)</Label>
+                        <Input type="number" placeholder="e.g., 40" value={newProfile.maxSpeed}
+                          onChange={(e) => setNewProfile({ ...newProfile, maxSpeed: e.target.value })} />
+                      </div>
+                      <div>
+                        <Label>Fuel (L/100 km)</Label>
+                        <Input type="number" placeholder="e.g., 12" value={newProfile.fuelConsumption}
+                          onChange={(e) => setNewProfile({ ...newProfile, fuelConsumption: e.target.value })} />
+                      </div>
+                      <div>
+                        <Label>Cost per Trip</Label>
+                        <Input type="number" placeholder="e.g., 150" value={newProfile.fixedCostPerTrip}
+                          onChange={(e) => setNewProfile({ ...newProfile, fixedCostPerTrip: e.target.value })} />
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3 p-3 rounded-lg bg-secondary/50">
+                      <Checkbox
+                        id="narrowLaneAccess"
+                        checked={newProfile.narrowLaneAccess}
+                        onCheckedChange={(checked) => setNewProfile({ ...newProfile, narrowLaneAccess: checked as boolean })}
+                      />
+                      <div className="flex flex-col">
+                        <Label htmlFor="narrowLaneAccess" className="cursor-pointer font-medium">Narrow-lane access</Label>
+                        <span className="text-xs text-muted-foreground">Small enough for narrow lanes and tight turns</span>
+                      </div>
+                    </div>
+                    <Button onClick={handleAddProfile} className="w-full">Add Profile</Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </div>
+            <div className="grid gap-2 md:gap-3">
+              {data.vehicleProfiles.map((profile) => (
+                <div key={profile.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-2 md:p-3 rounded-lg bg-secondary/50">
+                  <div className="flex items-center gap-2 md:gap-3 flex-wrap">
+                    <span className="text-sm md:text-base font-medium text-foreground">{profile.name}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${profile.vehicleClass === 'sat' ? 'bg-sat/20 text-sat' : 'bg-truck/20 text-truck'}`}>
+                      {profile.vehicleClass === 'sat' ? 'SAT' : 'Truck'}
+                    </span>
+                    {profile.narrowLaneAccess && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-warning/20 text-warning">narrow lanes</span>
+                    )}
+                    <span className="text-xs md:text-sm text-muted-foreground">
+                      {profile.weightCapacity}kg · {profile.volumeCapacity}m³ · {profile.maxSpeed} km/h · {profile.fuelConsumption} L/100km · {profile.fixedCostPerTrip}/trip
+                    </span>
+                  </div>
+                  <Button 
+                    variant="ghost" 
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={!canEditFleet}
+                    onClick={() => handleRemoveProfile(profile)}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+              {data.vehicleProfiles.length === 0 && (
+                <p className="text-sm text-muted-foreground">No profiles yet. Vehicles without one use their own capacity.</p>
+              )}
+            </div>
+          </motion.div>
         </TabsContent>
 
         {/* Smart Bins Tab */}
@@ -719,13 +1148,13 @@ export default function ModificationPage() {
                     </Button>
                   </>
                 ) : (
-                  <Button variant="outline" size="sm" onClick={() => setSelectionMode('bins')}>
+                  <Button variant="outline" size="sm" onClick={() => setSelectionMode('bins')} disabled={!canEditBins}>
                     <Square className="w-4 h-4 mr-1" /> Select
                   </Button>
                 )}
                 <Dialog>
                   <DialogTrigger asChild>
-                    <Button variant="outline" size="sm">
+                    <Button variant="outline" size="sm" disabled={!canEditBins}>
                       <Plus className="w-4 h-4 mr-1" /> Add Bin
                     </Button>
                   </DialogTrigger>
@@ -795,6 +1224,22 @@ export default function ModificationPage() {
                         <span className="text-xs text-muted-foreground">Enable sensor-based fill level monitoring</span>
                       </div>
                     </div>
+                    <div className="flex items-center space-x-3 p-3 rounded-lg bg-secondary/50">
+                      <Checkbox
+                        id="isNarrowLane"
+                        checked={newBin.narrowLane}
+                        onCheckedChange={(checked) => setNewBin({ ...newBin, narrowLane: checked as boolean })}
+                      />
+                      <div className="flex flex-col">
+                        <Label htmlFor="isNarrowLane" className="cursor-pointer font-medium">Narrow Lane</Label>
+                        <span className="text-xs text-muted-foreground">Only vehicles with narrow-lane access can collect it</span>
+                      </div>
+                    </div>
+                    <ServiceWindowInputs
+                      start={newBin.windowStart}
+                      end={newBin.windowEnd}
+                      onChange={(windowStart, windowEnd) => setNewBin({ ...newBin, windowStart, windowEnd })}
+                    />
                     <Button onClick={handleAddBin} className="w-full">Add {newBin.isSmartBin ? 'Smart' : 'Regular'} Bin</Button>
                   </div>
                 </DialogContent>
@@ -809,6 +1254,7 @@ export default function ModificationPage() {
                       <Checkbox
                         checked={selectedItems.has(bin.id)}
                         onCheckedChange={() => toggleSelection(bin.id)}
+                        disabled={!can('bins:edit', bin.area)}
                       />
                     )}
                     <div className="min-w-[80px]">
@@ -819,25 +1265,45 @@ export default function ModificationPage() {
                         ) : (
                           <span className="px-1.5 py-0.5 rounded text-[10px] bg-muted text-muted-foreground">GENERAL</span>
                         )}
+                        {bin.narrowLane && (
+                          <span className="px-1.5 py-0.5 rounded text-[10px] bg-warning/20 text-warning">NARROW</span>
+                        )}
+                        {staleSensorIds.has(bin.id) && (
+                          <span
+                            className="px-1.5 py-0.5 rounded text-[10px] bg-destructive/20 text-destructive"
+                            title={bin.sensor ? `Last report ${new Date(bin.sensor.lastReportAt).toLocaleString()}` : 'No report received'}
+                          >
+                            STALE
+                          </span>
+                        )}
                       </div>
                       <p className="text-xs text-muted-foreground">{bin.area}</p>
+                      {bin.serviceWindow && (
+                        <p className="text-[10px] text-muted-foreground">{bin.serviceWindow.start}–{bin.serviceWindow.end}</p>
+                      )}
                     </div>
                     <div className="text-sm text-muted-foreground min-w-[120px]">
                       {bin.lat.toFixed(4)}, {bin.lng.toFixed(4)}
                     </div>
                     {bin.isSmartBin ? (
-                      <div className="flex items-center gap-3 flex-1 max-w-[200px]">
+                      <div className="flex items-center gap-3 flex-1 max-w-[200px] md:max-w-[320px]">
                         <Slider
                           value={[bin.currentLevel]}
                           onValueChange={(value) => updateBinLevel(bin.id, value[0])}
                           max={100}
                           step={1}
                           className="flex-1"
+                          disabled={!can('bins:edit', bin.area)}
                         />
                         <span className={`text-xs font-medium min-w-[35px] ${
                           bin.currentLevel > 80 ? 'text-destructive' : 
                           bin.currentLevel > 50 ? 'text-warning' : 'text-success'
                         }`}>{bin.currentLevel}%</span>
+                        <BinLevelChart
+                          samples={levelHistory.get(bin.id) ?? []}
+                          sparkline
+                          className="hidden md:flex h-8 w-24 shrink-0 items-center"
+                        />
                       </div>
                     ) : (
                       <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -848,6 +1314,7 @@ export default function ModificationPage() {
                   <Button 
                     variant="ghost" 
                     size="icon"
+                    disabled={!can('bins:edit', bin.area)}
                     onClick={() => {
                       removeSmartBin(bin.id);
                       toast.success(`Bin ${bin.id} removed`);
@@ -859,6 +1326,93 @@ export default function ModificationPage() {
               ))}
             </div>
           </motion.div>
+
+          {/* Sensor Health */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="glass rounded-xl p-6"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-smartbin/20">
+                  <Activity className="w-5 h-5 text-smartbin" />
+                </div>
+                <h2 className="text-lg font-semibold text-foreground">Sensor Health</h2>
+                <span className={`text-sm ${untrustedSensorCount > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  ({untrustedSensorCount} untrusted)
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="health-issues-only" checked={healthIssuesOnly} onCheckedChange={setHealthIssuesOnly} />
+                <Label htmlFor="health-issues-only" className="text-xs cursor-pointer">Issues only</Label>
+              </div>
+            </div>
+            {!telemetryConfig.enabled && (
+              <p className="text-xs text-muted-foreground mb-3">
+                Sensor telemetry is off in Settings, so silent sensors are not flagged.
+              </p>
+            )}
+            <div className="max-h-[400px] overflow-auto scrollbar-thin">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bin</TableHead>
+                    <TableHead>Battery</TableHead>
+                    <TableHead>Firmware</TableHead>
+                    <TableHead>Last report</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sensorHealthRows.map(health => {
+                    const issues = sensorIssues(health);
+                    return (
+                      <TableRow key={health.binId}>
+                        <TableCell className="font-medium">{health.binId}</TableCell>
+                        <TableCell>
+                          {health.battery === undefined ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <span className={`flex items-center gap-1 ${health.lowBattery ? 'text-destructive' : ''}`}>
+                              {health.lowBattery && <BatteryLow className="w-4 h-4" />}
+                              {Math.round(health.battery)}%
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{health.firmware ?? '—'}</TableCell>
+                        <TableCell className="text-muted-foreground">{formatReportAge(health.lastReportAt)}</TableCell>
+                        <TableCell>
+                          {issues.length === 0 ? (
+                            <span className="px-1.5 py-0.5 rounded text-[10px] bg-success/20 text-success">OK</span>
+                          ) : (
+                            <div className="flex flex-wrap gap-1">
+                              {issues.map(issue => (
+                                <span
+                                  key={issue.label}
+                                  className={`px-1.5 py-0.5 rounded text-[10px] ${
+                                    issue.severity === 'warning' ? 'bg-warning/20 text-warning' : 'bg-destructive/20 text-destructive'
+                                  }`}
+                                >
+                                  {issue.label}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {sensorHealthRows.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  {healthIssuesOnly ? 'All sensors look healthy.' : 'No smart bins.'}
+                </p>
+              )}
+            </div>
+          </motion.div>
         </TabsContent>
 
         {/* Facilities Tab */}
@@ -878,7 +1432,7 @@ export default function ModificationPage() {
               </div>
               <Dialog>
                 <DialogTrigger asChild>
-                  <Button variant="outline" size="sm">
+                  <Button variant="outline" size="sm" disabled={!canEditStations}>
                     <Plus className="w-4 h-4 mr-1" /> Add Station
                   </Button>
                 </DialogTrigger>
@@ -937,6 +1491,11 @@ export default function ModificationPage() {
                         onChange={(e) => setNewStation({ ...newStation, capacity: e.target.value })}
                       />
                     </div>
+                    <ServiceWindowInputs
+                      start={newStation.windowStart}
+                      end={newStation.windowEnd}
+                      onChange={(windowStart, windowEnd) => setNewStation({ ...newStation, windowStart, windowEnd })}
+                    />
                     <Button onClick={handleAddStation} className="w-full">Add Station</Button>
                   </div>
                 </DialogContent>
@@ -949,6 +1508,9 @@ export default function ModificationPage() {
                     <div className="min-w-[80px]">
                       <span className="font-medium text-foreground">{station.id}</span>
                       <p className="text-xs text-muted-foreground">{station.area}</p>
+                      {station.serviceWindow && (
+                        <p className="text-[10px] text-muted-foreground">{station.serviceWindow.start}–{station.serviceWindow.end}</p>
+                      )}
                     </div>
                     <div className="flex items-center gap-3 flex-1 max-w-[250px]">
                       <Slider
@@ -957,6 +1519,7 @@ export default function ModificationPage() {
                         max={station.capacity}
                         step={10}
                         className="flex-1"
+                        disabled={!can('stations:edit', station.area)}
                       />
                       <span className="text-xs text-muted-foreground min-w-[100px]">
                         {station.currentLevel.toLocaleString()} / {station.capacity.toLocaleString()} kg
@@ -966,6 +1529,7 @@ export default function ModificationPage() {
                   <Button 
                     variant="ghost" 
                     size="icon"
+                    disabled={!can('stations:edit', station.area)}
                     onClick={() => {
                       removeCompactStation(station.id);
                       toast.success(`Compact Station ${station.id} removed`);
@@ -994,7 +1558,7 @@ export default function ModificationPage() {
               </div>
               <Dialog>
                 <DialogTrigger asChild>
-                  <Button variant="outline" size="sm">
+                  <Button variant="outline" size="sm" disabled={!canEditFacilities}>
                     <Plus className="w-4 h-4 mr-1" /> Add Dumpyard
                   </Button>
                 </DialogTrigger>
@@ -1053,6 +1617,11 @@ export default function ModificationPage() {
                         onChange={(e) => setNewDumpyard({ ...newDumpyard, capacity: e.target.value })}
                       />
                     </div>
+                    <ServiceWindowInputs
+                      start={newDumpyard.windowStart}
+                      end={newDumpyard.windowEnd}
+                      onChange={(windowStart, windowEnd) => setNewDumpyard({ ...newDumpyard, windowStart, windowEnd })}
+                    />
                     <Button onClick={handleAddDumpyard} className="w-full">Add Dumpyard</Button>
                   </div>
                 </DialogContent>
@@ -1070,6 +1639,9 @@ export default function ModificationPage() {
                         )}
                       </div>
                       <p className="text-xs text-muted-foreground">{dumpyard.id}</p>
+                      {dumpyard.serviceWindow && (
+                        <p className="text-[10px] text-muted-foreground">Gate {dumpyard.serviceWindow.start}–{dumpyard.serviceWindow.end}</p>
+                      )}
                     </div>
                     <div className="flex items-center gap-3 flex-1 max-w-[250px]">
                       <Slider
@@ -1078,6 +1650,7 @@ export default function ModificationPage() {
                         max={dumpyard.capacity}
                         step={100}
                         className="flex-1"
+                        disabled={!canEditFacilities}
                       />
                       <span className="text-xs text-muted-foreground min-w-[110px]">
                         {dumpyard.currentLevel.toLocaleString()} / {dumpyard.capacity.toLocaleString()} tons
@@ -1088,7 +1661,7 @@ export default function ModificationPage() {
                     variant="ghost" 
                     size="icon"
                     onClick={() => handleDeleteDumpyard(dumpyard.id, dumpyard.name)}
-                    disabled={PERMANENT_DUMPYARD_IDS.includes(dumpyard.id)}
+                    disabled={PERMANENT_DUMPYARD_IDS.includes(dumpyard.id) || !canEditFacilities}
                   >
                     <Trash2 className={`w-4 h-4 ${PERMANENT_DUMPYARD_IDS.includes(dumpyard.id) ? 'text-muted-foreground' : 'text-destructive'}`} />
                   </Button>
@@ -1096,6 +1669,106 @@ export default function ModificationPage() {
               ))}
             </div>
           </motion.div>
+
+          {/* Depots */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="glass rounded-xl p-6"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/20">
+                  <Warehouse className="w-5 h-5 text-primary" />
+                </div>
+                <h2 className="text-lg font-semibold text-foreground">Depots</h2>
+              </div>
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={!canEditFacilities}>
+                    <Plus className="w-4 h-4 mr-1" /> Add Depot
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Add New Depot</DialogTitle>
+                    <DialogDescription>Garage where vehicles start and end their shift.</DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4 mt-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Depot ID</Label>
+                        <Input
+                          placeholder="e.g., DEPOT03"
+                          value={newDepot.id}
+                          onChange={(e) => setNewDepot({ ...newDepot, id: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <Label>Name</Label>
+                        <Input
+                          placeholder="e.g., LB Nagar Garage"
+                          value={newDepot.name}
+                          onChange={(e) => setNewDepot({ ...newDepot, name: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Latitude</Label>
+                        <Input
+                          type="number"
+                          step="0.0001"
+                          placeholder="17.3500"
+                          value={newDepot.lat}
+                          onChange={(e) => setNewDepot({ ...newDepot, lat: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <Label>Longitude</Label>
+                        <Input
+                          type="number"
+                          step="0.0001"
+                          placeholder="78.5500"
+                          value={newDepot.lng}
+                          onChange={(e) => setNewDepot({ ...newDepot, lng: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    <Button onClick={handleAddDepot} className="w-full">Add Depot</Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </div>
+            <div className="grid gap-3">
+              {data.depots.map((depot) => (
+                <div key={depot.id} className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
+                  <div className="flex items-center gap-4 flex-1">
+                    <div className="min-w-[100px]">
+                      <span className="font-medium text-foreground">{depot.name}</span>
+                      <p className="text-xs text-muted-foreground">{depot.id}</p>
+                    </div>
+                    <div className="text-sm text-muted-foreground min-w-[120px]">
+                      {depot.lat.toFixed(4)}, {depot.lng.toFixed(4)}
+                    </div>
+                    <span className="text-xs text-muted-foreground">{vehiclesAtDepot(depot.id)} vehicles</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={!canEditFacilities}
+                    onClick={() => handleDeleteDepot(depot)}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+              {data.depots.length === 0 && (
+                <p className="text-sm text-muted-foreground">No depots. Vehicles start their shift at their first stop.</p>
+              )}
+            </div>
+          </motion.div>
         </TabsContent>
       </Tabs>
     </div>
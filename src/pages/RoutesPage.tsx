@@ -3,13 +3,22 @@ import { motion } from 'framer-motion';
 import { 
   Route, Play, Loader2, FileSpreadsheet, 
   Truck, Package, Clock, MapPin, AlertCircle, CheckCircle2,
-  Download, Search, ChevronDown, ChevronUp, XCircle
+  Download, Search, ChevronDown, ChevronUp, XCircle, AlertTriangle
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import { useData } from '@/context/DataContext';
 import { useAuth } from '@/context/AuthContext';
-import { generateOptimizedRoutes, parseExcelData, parseMultiSheetExcel, calculateTotalTime } from '@/utils/routeOptimizer';
+import { parseExcelData, parseMultiSheetExcel, calculateMakespan, UNASSIGNED_REASON_LABELS, PLANNING_PHASE_LABELS } from '@/utils/routeOptimizer';
+import { planRoutes, isAbortError } from '@/utils/routePlannerClient';
+import { formatClock, parseClock } from '@/utils/schedule';
+import { ROUTING_ENGINE_LABELS } from '@/utils/routingProviders';
+import { findProfile } from '@/utils/vehicleProfiles';
+import { getAllBinLevelHistory } from '@/utils/levelHistory';
+import { createSampleWorkbook } from '@/utils/sampleWorkbook';
 import { toast } from 'sonner';
 import * as XLSX from 'xlsx';
 import {
@@ -25,60 +34,127 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 
+// "YYYY-MM-DD" of the next day the shift starts: today until the shift has begun, then tomorrow
+function nextPlanDate(shiftStartClock: number): string {
+  const now = new Date();
+  const date = new Date(now);
+  if (now.getHours() * 60 + now.getMinutes() >= shiftStartClock) {
+    date.setDate(date.getDate() + 1);
+  }
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
 export default function RoutesPage() {
-  const { user } = useAuth();
-  const { data, routes, setRoutes, isGeneratingRoutes, setIsGeneratingRoutes, updateData } = useData();
+  const { user, can } = useAuth();
+  const canGenerate = can('routes:generate');
+  const canClear = can('routes:clear');
+  const canImport = can('data:import');
+  const { 
+    data, routes, setRoutes, unassignedBins, setUnassignedBins, planningConfig, updatePlanningConfig, routingConfig, speedBands,
+    isGeneratingRoutes, setIsGeneratingRoutes, routeGenerationProgress, setRouteGenerationProgress,
+    beginRouteGeneration, cancelRouteGeneration, updateData, withChangeReason
+  } = useData();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
   const [searchQuery, setSearchQuery] = useState('');
   const [expandedRoutes, setExpandedRoutes] = useState<Set<string>>(new Set());
 
-  // Get driver's route
-  const driverRoute = user?.role === 'driver' && user?.vehicleId
-    ? routes.find(r => r.vehicleId.toLowerCase() === user.vehicleId?.toLowerCase())
-    : null;
+  // Stop times are stored as minutes from plan start; show them as clock times from the
+  // start the plan was made with, which may differ from the shift start configured now
+  const shiftStartClock = parseClock(planningConfig.shiftStart) ?? 0;
+  const toClock = (minutes: number | undefined, planStartAt: number | undefined) => {
+    if (minutes === undefined) return null;
+    const start = planStartAt === undefined ? null : new Date(planStartAt);
+    return formatClock((start ? start.getHours() * 60 + start.getMinutes() : shiftStartClock) + minutes);
+  };
+  // Day the plan is for; its weekday picks the traffic speed bands
+  const [planDate, setPlanDate] = useState(() => nextPlanDate(shiftStartClock));
+  // Plan with each bin's level forecast for its visit from the recorded history
+  const [usePredictedLevels, setUsePredictedLevels] = useState(false);
+
+  // Get driver's trips (a vehicle may make several trips per shift)
+  const driverRoutes = user?.role === 'driver' && user?.vehicleId
+    ? routes
+        .filter(r => r.vehicleId.toLowerCase() === user.vehicleId?.toLowerCase())
+        .sort((a, b) => (a.tripNumber || 1) - (b.tripNumber || 1))
+    : [];
+  const driverRoute = driverRoutes[0] || null;
 
   // Check if driver is a truck driver or SAT driver
   const isTruckDriver = driverRoute?.vehicleType === 'truck';
 
-  // Get assigned stops for driver (bins for SAT, stations for Truck)
-  const assignedStops = driverRoute?.route
+  // Get assigned stops for driver across all trips (bins for SAT, stations for Truck)
+  const assignedStops = driverRoutes.flatMap(r => r.route
     .filter(point => isTruckDriver ? point.type === 'compact-station' : point.type === 'smartbin')
-    .map(point => point.id) || [];
+    .map(point => ({ ...point, tripNumber: r.tripNumber || 1, planStartAt: r.planStartAt })));
+  const driverDistance = Math.round(driverRoutes.reduce((sum, r) => sum + r.totalDistance, 0) * 10) / 10;
+  const driverMakespan = calculateMakespan(driverRoutes);
+
+  // Road geometry keeps refining after the plan itself is ready
+  const isRefiningRoutes = !!routeGenerationProgress && routeGenerationProgress.phase !== 'done';
 
   const handleGenerateRoutes = async () => {
+    const signal = beginRouteGeneration();
     setIsGeneratingRoutes(true);
+    setRouteGenerationProgress(null);
     setRoutes([]); // Clear existing routes
+    setUnassignedBins([]);
     
     try {
       toast.info('Generating routes (paths will refine progressively)...', { duration: 3000 });
       
-      const optimizedRoutes = await generateOptimizedRoutes({
+      const levelHistory = usePredictedLevels ? await getAllBinLevelHistory() : undefined;
+      const plan = await planRoutes({
         bins: data.smartBins,
         stations: data.compactStations,
         dumpyards: data.dumpyards,
+        depots: data.depots,
         sats: data.vehicles.sats,
         trucks: data.vehicles.trucks,
-        onRouteGenerated: (route, allRoutes) => {
-          // Progressive update - show routes as they're generated (straight lines first)
-          setRoutes([...allRoutes]);
-        },
-        onRouteUpdated: (updatedRoutes) => {
-          // Update routes when OSRM accurate paths are fetched
-          setRoutes([...updatedRoutes]);
+        profiles: data.vehicleProfiles,
+        speedBands,
+        planDate,
+        levelHistory,
+        usePredictedLevels,
+        config: planningConfig,
+        routing: routingConfig
+      }, {
+        signal,
+        onProgress: progress => {
+          // Routes show up as they're generated (straight lines first), then get road paths
+          setRouteGenerationProgress(progress);
+          setRoutes(progress.routes);
         }
       });
       
-      setRoutes(optimizedRoutes);
-      toast.success(`Generated ${optimizedRoutes.length} routes! Paths are being refined...`);
+      setRoutes(plan.routes);
+      setUnassignedBins(plan.unassigned);
+      toast.success(`Generated ${plan.routes.length} routes! Paths are being refined...`);
+      const binsLeft = plan.unassigned.filter(entry => 'binId' in entry).length;
+      const stationsLeft = new Set(plan.unassigned.flatMap(entry => 'stationId' in entry ? [entry.stationId] : [])).size;
+      if (binsLeft > 0) {
+        toast.warning(`${binsLeft} bins could not be scheduled today`);
+      }
+      if (stationsLeft > 0) {
+        toast.warning(`${stationsLeft} compact stations could not be emptied today`);
+      }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Route generation failed:', error);
+      setRouteGenerationProgress(null);
       toast.error(error instanceof Error ? error.message : 'Failed to generate routes');
     } finally {
-      setIsGeneratingRoutes(false);
+      // A cancelled run has already been reset, possibly by a newer run that is still going
+      if (!signal.aborted) setIsGeneratingRoutes(false);
     }
   };
 
+  const handleCancelGeneration = () => {
+    cancelRouteGeneration();
+    toast.info('Route generation cancelled');
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -123,16 +199,21 @@ export default function RoutesPage() {
         return;
       }
       
-      updateData({
+      withChangeReason(`Excel import of ${file.name}`, () => updateData({
         ...data,
         smartBins: parsedData.bins || [],
         compactStations: parsedData.stations || [],
         dumpyards: parsedData.dumpyards?.length ? parsedData.dumpyards : data.dumpyards,
+        // Imported models replace existing profiles with the same id
+        vehicleProfiles: [
+          ...data.vehicleProfiles.filter(p => !parsedData.profiles?.some(imported => imported.id === p.id)),
+          ...(parsedData.profiles || [])
+        ],
         vehicles: {
           trucks: parsedData.trucks || [],
           sats: parsedData.sats || []
         }
-      });
+      }));
       
       setUploadStatus('success');
       toast.success(`Imported: ${parsedData.bins?.length || 0} GVPs, ${parsedData.stations?.length || 0} stations, ${parsedData.sats?.length || 0} SATs, ${parsedData.trucks?.length || 0} trucks`);
@@ -151,70 +232,43 @@ export default function RoutesPage() {
   };
 
   const downloadSampleExcel = () => {
-    const gvpData = [
-      ['Locations of GVPs'],
-      [],
-      ['S No.', 'Location of the GVPs', 'Longitude', 'Latitude', 'Estimated Waste'],
-      [1, 'Hitech City', 78.3867, 17.4435, 1.10],
-      [2, 'Madhapur', 78.3960, 17.4486, 0.85],
-      [3, 'Kondapur', 78.3619, 17.4615, 1.25]
-    ];
-    
-    const fleetData = [
-      ['Fleet Data'],
-      [],
-      ['S No.', 'Vehicle Particulars', 'GVW (Gross Vehicle Weight)', 'Payload Capacity (in Tonnes)', 'No. of Vehicles Available'],
-      [1, 'Mini Tipper', '7 T', 4.00, 5],
-      [2, 'Mini Tipper', '11 T', 8.00, 3],
-      [3, 'Compactor Truck', '28 T', 16.00, 2]
-    ];
-    
-    const sctpData = [
-      ['Locations of Transfer Stations'],
-      [],
-      ['S.No', 'Transferstation', 'Coordinates'],
-      [1, 'Nagole', '17°23\'23.38"N, 78°33\'32.79"E'],
-      [2, 'Mallapur', '17°26\'43.89"N, 78°34\'28.81"E'],
-      [3, 'Saket', '17°29\'43.13"N, 78°34\'47.31"E']
-    ];
-    
-    const wb = XLSX.utils.book_new();
-    
-    const wsGvp = XLSX.utils.aoa_to_sheet(gvpData);
-    XLSX.utils.book_append_sheet(wb, wsGvp, 'Sample Data');
-    
-    const wsFleet = XLSX.utils.aoa_to_sheet(fleetData);
-    XLSX.utils.book_append_sheet(wb, wsFleet, 'Fleet Details');
-    
-    const wsSctp = XLSX.utils.aoa_to_sheet(sctpData);
-    XLSX.utils.book_append_sheet(wb, wsSctp, 'SCTP');
-    
+    const wb = createSampleWorkbook();
     XLSX.writeFile(wb, 'waste_management_template.xlsx');
     toast.success('Sample template downloaded!');
   };
 
-  const toggleRouteExpand = (vehicleId: string) => {
+  const toggleRouteExpand = (routeKey: string) => {
     setExpandedRoutes(prev => {
       const next = new Set(prev);
-      if (next.has(vehicleId)) {
-        next.delete(vehicleId);
+      if (next.has(routeKey)) {
+        next.delete(routeKey);
       } else {
-        next.add(vehicleId);
+        next.add(routeKey);
       }
       return next;
     });
   };
 
   // Filter routes by search query (admin only) - strict exact match only
-  const filteredRoutes = user?.role === 'admin' && searchQuery
+  const filteredRoutes = user?.role !== 'driver' && searchQuery
     ? routes.filter(r => r.vehicleId.toLowerCase() === searchQuery.toLowerCase().trim())
     : routes;
 
   const totalDistance = routes.reduce((sum, r) => sum + r.totalDistance, 0);
-  const timeCalc = calculateTotalTime(routes);
+  const timeCalc = calculateMakespan(routes);
   const satRoutes = routes.filter(r => r.vehicleType === 'sat');
   const truckRoutes = routes.filter(r => r.vehicleType === 'truck');
 
+  // Uncollected bins and station loads from the last plan, joined with current asset data
+  const uncollected = unassignedBins.map(entry => {
+    if ('binId' in entry) {
+      const bin = data.smartBins.find(b => b.id === entry.binId);
+      return { id: entry.binId, reason: entry.reason, detail: bin && `${bin.area} · ${bin.currentLevel}%` };
+    }
+    const station = data.compactStations.find(s => s.id === entry.stationId);
+    return { id: entry.stationId, reason: entry.reason, detail: `${station ? `${station.area} · ` : ''}${entry.load} kg not emptied` };
+  });
+
   // Driver view
   if (user?.role === 'driver') {
     return (
@@ -237,15 +291,15 @@ export default function RoutesPage() {
                   <MapPin className="w-3 h-3 md:w-4 md:h-4" />
                   <span className="text-xs md:text-sm">Distance</span>
                 </div>
-                <p className="text-lg md:text-2xl font-bold text-foreground">{driverRoute.totalDistance} km</p>
+                <p className="text-lg md:text-2xl font-bold text-foreground">{driverDistance} km</p>
               </div>
               
               <div className="glass rounded-xl p-3 md:p-4">
                 <div className="flex items-center gap-1 md:gap-2 text-muted-foreground mb-1 md:mb-2">
                   <Clock className="w-3 h-3 md:w-4 md:h-4" />
-                  <span className="text-xs md:text-sm">Est. Time</span>
+                  <span className="text-xs md:text-sm">Makespan</span>
                 </div>
-                <p className="text-lg md:text-2xl font-bold text-foreground">{driverRoute.estimatedTime} min</p>
+                <p className="text-lg md:text-2xl font-bold text-foreground">{driverMakespan.minutes} min</p>
               </div>
               
               <div className="glass rounded-xl p-3 md:p-4">
@@ -268,12 +322,15 @@ export default function RoutesPage() {
                 {isTruckDriver ? 'Assigned Stations' : 'Assigned Bins'}
               </h2>
               <div className="grid gap-2 max-h-64 overflow-auto scrollbar-thin">
-                {assignedStops.map((stopId, index) => {
+                {assignedStops.map(({ id: stopId, tripNumber, planStartAt, lateness, arrivalTime, departureTime, loadAfter }, index) => {
                   const station = isTruckDriver ? data.compactStations.find(s => s.id === stopId) : null;
                   const bin = !isTruckDriver ? data.smartBins.find(b => b.id === stopId) : null;
                   return (
-                    <div key={stopId} className="flex items-center gap-2 md:gap-3 p-2 md:p-3 rounded-lg bg-secondary/50">
+                    <div key={`${tripNumber}-${stopId}-${index}`} className="flex items-center gap-2 md:gap-3 p-2 md:p-3 rounded-lg bg-secondary/50">
                       <span className="text-xs md:text-sm font-medium text-muted-foreground w-5 md:w-6">{index + 1}.</span>
+                      {driverRoutes.length > 1 && (
+                        <span className="px-1.5 py-0.5 rounded text-[10px] bg-primary/20 text-primary shrink-0">Trip {tripNumber}</span>
+                      )}
                       <span className="text-sm md:text-base font-medium text-foreground truncate">{stopId}</span>
                       {bin && (
                         <span className="text-xs md:text-sm text-muted-foreground truncate">- {bin.area}</span>
@@ -281,6 +338,17 @@ export default function RoutesPage() {
                       {station && (
                         <span className="text-xs md:text-sm text-muted-foreground truncate">- {station.area}</span>
                       )}
+                      <div className="ml-auto flex flex-col items-end shrink-0 text-xs">
+                        {arrivalTime !== undefined && (
+                          <span className="text-foreground">{toClock(arrivalTime, planStartAt)} – {toClock(departureTime, planStartAt)}</span>
+                        )}
+                        {loadAfter !== undefined && (
+                          <span className="text-muted-foreground">{loadAfter} kg on board</span>
+                        )}
+                        {lateness && (
+                          <span className="text-destructive">late by {lateness} min</span>
+                        )}
+                      </div>
                     </div>
                   );
                 })}
@@ -347,13 +415,62 @@ export default function RoutesPage() {
                 </li>
                 <li className="flex items-center gap-2">
                   <CheckCircle2 className="w-3 h-3 md:w-4 md:h-4 text-success shrink-0" />
-                  <span>OSRM road network integration</span>
+                  <span>
+                    {routingConfig.engine === 'haversine'
+                      ? 'Straight-line distance estimates'
+                      : `${ROUTING_ENGINE_LABELS[routingConfig.engine]} road network integration`}
+                  </span>
+                </li>
+                <li className="flex items-center gap-2">
+                  <CheckCircle2 className="w-3 h-3 md:w-4 md:h-4 text-success shrink-0" />
+                  <span>Time-of-day traffic speeds for each leg</span>
                 </li>
               </ul>
               
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="plan-date" className="text-xs md:text-sm">Plan date</Label>
+                  <Input
+                    id="plan-date"
+                    type="date"
+                    value={planDate}
+                    onChange={(e) => e.target.value && setPlanDate(e.target.value)}
+                    disabled={isGeneratingRoutes}
+                    className="mt-1 h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="plan-shift-start" className="text-xs md:text-sm">Shift start</Label>
+                  <Input
+                    id="plan-shift-start"
+                    type="time"
+                    value={planningConfig.shiftStart}
+                    onChange={(e) => {
+                      if (parseClock(e.target.value) !== null) {
+                        updatePlanningConfig({ ...planningConfig, shiftStart: e.target.value });
+                      }
+                    }}
+                    disabled={isGeneratingRoutes}
+                    className="mt-1 h-8 text-sm"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-3 mt-3">
+                <div>
+                  <Label htmlFor="plan-predicted-levels" className="text-xs md:text-sm">Forecast bin levels</Label>
+                  <p className="text-[10px] md:text-xs text-muted-foreground">Plan with the level expected at each visit</p>
+                </div>
+                <Switch
+                  id="plan-predicted-levels"
+                  checked={usePredictedLevels}
+                  onCheckedChange={setUsePredictedLevels}
+                  disabled={isGeneratingRoutes}
+                />
+              </div>
+              
               <Button 
                 onClick={handleGenerateRoutes}
-                disabled={isGeneratingRoutes}
+                disabled={isGeneratingRoutes || !canGenerate}
                 variant="glow"
                 size="lg"
                 className="w-full mt-3 md:mt-4"
@@ -371,10 +488,31 @@ export default function RoutesPage() {
                 )}
               </Button>
               
-              {routes.length > 0 && (
+              {(isGeneratingRoutes || isRefiningRoutes) && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-xs md:text-sm text-muted-foreground">
+                    <span>{PLANNING_PHASE_LABELS[routeGenerationProgress?.phase ?? 'matrix']}...</span>
+                    <span>{routeGenerationProgress?.percent ?? 0}%</span>
+                  </div>
+                  <Progress value={routeGenerationProgress?.percent ?? 0} className="h-2" />
+                  <Button 
+                    onClick={handleCancelGeneration}
+                    variant="outline"
+                    size="default"
+                    className="w-full"
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
+              )}
+              
+              {routes.length > 0 && canClear && (
                 <Button 
                   onClick={() => {
+                    cancelRouteGeneration();
                     setRoutes([]);
+                    setUnassignedBins([]);
                     toast.success('All routes cleared');
                   }}
                   variant="outline"
@@ -393,16 +531,19 @@ export default function RoutesPage() {
                 Upload Excel with sheets: "Sample Data" (GVPs), "Fleet Details", "SCTP" (stations)
               </p>
               
-              <div className="border-2 border-dashed border-border rounded-xl p-4 md:p-6 text-center hover:border-primary/50 transition-colors">
+              <div className={`border-2 border-dashed border-border rounded-xl p-4 md:p-6 text-center transition-colors ${
+                canImport ? 'hover:border-primary/50' : 'opacity-50'
+              }`}>
                 <input
                   ref={fileInputRef}
                   type="file"
                   accept=".xlsx,.xls,.csv"
                   onChange={handleFileUpload}
+                  disabled={!canImport}
                   className="hidden"
                   id="excel-upload"
                 />
-                <label htmlFor="excel-upload" className="cursor-pointer">
+                <label htmlFor="excel-upload" className={canImport ? 'cursor-pointer' : 'cursor-not-allowed'}>
                   {uploadStatus === 'uploading' ? (
                     <Loader2 className="w-8 h-8 md:w-12 md:h-12 mx-auto text-primary animate-spin" />
                   ) : uploadStatus === 'success' ? (
@@ -416,6 +557,7 @@ export default function RoutesPage() {
                     {uploadStatus === 'uploading' ? 'Processing...' :
                      uploadStatus === 'success' ? 'Data Imported!' :
                      uploadStatus === 'error' ? 'Upload Failed' :
+                     !canImport ? 'Importing data needs an admin' :
                      'Drop Excel file here or click to upload'}
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
@@ -464,7 +606,7 @@ export default function RoutesPage() {
             <div className="glass rounded-xl p-3 md:p-4">
               <div className="flex items-center gap-1 md:gap-2 text-muted-foreground mb-1 md:mb-2">
                 <Clock className="w-3 h-3 md:w-4 md:h-4" />
-                <span className="text-xs md:text-sm">Est. Time</span>
+                <span className="text-xs md:text-sm">Makespan</span>
               </div>
               <p className="text-lg md:text-2xl font-bold text-foreground">{timeCalc.hours} hrs</p>
             </div>
@@ -511,14 +653,16 @@ export default function RoutesPage() {
                   ? route.route.filter(p => p.type === 'smartbin').length
                   : route.route.filter(p => p.type === 'compact-station').length;
                 const stopLabel = route.vehicleType === 'sat' ? 'bin stops' : 'station stops';
-                const isExpanded = expandedRoutes.has(route.vehicleId);
+                const routeKey = `${route.vehicleId}-${route.tripNumber || 1}`;
+                const isExpanded = expandedRoutes.has(routeKey);
+                const profile = findProfile(data.vehicleProfiles, route.profileId);
                 
                 return (
-                  <Collapsible key={`${route.vehicleId}-${index}`} open={isExpanded}>
+                  <Collapsible key={`${routeKey}-${index}`} open={isExpanded}>
                     <div className="p-4 rounded-lg bg-secondary/50">
                       <CollapsibleTrigger 
                         className="flex items-center justify-between w-full"
-                        onClick={() => toggleRouteExpand(route.vehicleId)}
+                        onClick={() => toggleRouteExpand(routeKey)}
                       >
                         <div className="flex items-center gap-4">
                           <div className={`p-2 rounded-lg ${route.vehicleType === 'sat' ? 'bg-sat/20' : 'bg-truck/20'}`}>
@@ -529,16 +673,28 @@ export default function RoutesPage() {
                             )}
                           </div>
                           <div className="text-left">
-                            <p className="font-medium text-foreground">{route.vehicleId}</p>
+                            <p className="font-medium text-foreground">
+                              {route.vehicleId}
+                              {route.tripNumber && route.tripNumber > 1 && (
+                                <span className="ml-2 text-xs text-muted-foreground">Trip {route.tripNumber}</span>
+                              )}
+                            </p>
                             <p className="text-sm text-muted-foreground">
-                              {stopCount} {stopLabel}
+                              {stopCount} {stopLabel} · starts +{route.startTime} min
+                              {profile && ` · ${profile.name}`}
                             </p>
+                            {route.redirectedFrom && (
+                              <p className="text-xs text-warning">Redirected: {route.redirectedFrom} is full</p>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-4">
                           <div className="text-right">
                             <p className="text-sm font-medium text-foreground">{route.totalDistance} km</p>
                             <p className="text-xs text-muted-foreground">{route.estimatedTime} min</p>
+                            {route.fuelLitres !== undefined && (
+                              <p className="text-xs text-muted-foreground">{route.fuelLitres} L fuel</p>
+                            )}
                           </div>
                           {isExpanded ? (
                             <ChevronUp className="w-4 h-4 text-muted-foreground" />
@@ -550,6 +706,11 @@ export default function RoutesPage() {
                       
                       <CollapsibleContent>
                         <div className="mt-4 pt-4 border-t border-border">
+                          {route.improvementOverGreedy !== undefined && (
+                            <p className="text-xs text-muted-foreground mb-2">
+                              {route.improvementOverGreedy}% shorter than greedy ordering
+                            </p>
+                          )}
                           <p className="text-sm font-medium text-muted-foreground mb-2">Stops:</p>
                           <div className="grid gap-1 max-h-32 overflow-auto scrollbar-thin">
                             {route.route.map((point, i) => (
@@ -557,13 +718,23 @@ export default function RoutesPage() {
                                 <span className="text-muted-foreground w-4">{i + 1}.</span>
                                 <span className={`${
                                   point.type === 'smartbin' ? 'text-smartbin' :
-                                  point.type === 'compact-station' ? 'text-compact-station' : 'text-dumpyard'
+                                  point.type === 'compact-station' ? 'text-compact-station' :
+                                  point.type === 'depot' ? 'text-primary' : 'text-dumpyard'
                                 }`}>
                                   {point.id}
                                 </span>
                                 <span className="text-xs text-muted-foreground">
                                   ({point.action})
                                 </span>
+                                {point.arrivalTime !== undefined && (
+                                  <span className="text-xs text-muted-foreground ml-auto">
+                                    ETA {toClock(point.arrivalTime, route.planStartAt)}
+                                    {point.loadAfter !== undefined && ` · ${point.loadAfter} kg`}
+                                  </span>
+                                )}
+                                {point.lateness && (
+                                  <span className="text-xs text-destructive">late by {point.lateness} min</span>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -577,6 +748,42 @@ export default function RoutesPage() {
           </motion.div>
         )}
 
+        {/* Uncollected Bins and Stations */}
+        {uncollected.length > 0 && (
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="glass rounded-xl p-4 md:p-6"
+          >
+            <div className="flex items-center gap-2 md:gap-3 mb-4">
+              <div className="p-1.5 md:p-2 rounded-lg bg-destructive/20">
+                <AlertTriangle className="w-4 h-4 md:w-5 md:h-5 text-destructive" />
+              </div>
+              <h2 className="text-base md:text-lg font-semibold text-foreground">Uncollected today</h2>
+              <span className="text-sm text-muted-foreground">({uncollected.length})</span>
+            </div>
+            
+            <div className="grid gap-2 max-h-64 overflow-auto scrollbar-thin">
+              {uncollected.map(({ id, reason, detail }) => (
+                <div key={`${id}-${reason}`} className="flex items-center justify-between gap-2 p-2 md:p-3 rounded-lg bg-secondary/50">
+                  <div className="flex items-center gap-2 md:gap-3 min-w-0">
+                    <span className="text-sm font-medium text-foreground">{id}</span>
+                    {detail && (
+                      <span className="text-xs text-muted-foreground truncate">
+                        {detail}
+                      </span>
+                    )}
+                  </div>
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-destructive/20 text-destructive shrink-0">
+                    {UNASSIGNED_REASON_LABELS[reason]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Empty State */}
         {routes.length === 0 && !isGeneratingRoutes && (
           <motion.div 
@@ -1,7 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Settings, User, Palette, Bell, Shield, Info, Sun, Moon, Lock, Key } from 'lucide-react';
+import { Settings, User, Palette, Bell, Shield, Info, Sun, Moon, Lock, Key, SlidersHorizontal, RotateCcw, Save, Server, Trash2, Clock, Plus, Radio } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
+import { useData } from '@/context/DataContext';
+import { PlanningConfig, RoutingConfig, RoutingEngine, SpeedBand, TelemetryConfig, TelemetryStatus, TelemetryTransport } from '@/types';
+import { DEFAULT_PLANNING_CONFIG, validatePlanningConfig } from '@/utils/planningConfig';
+import {
+  DEFAULT_ROUTING_CONFIG,
+  DEFAULT_ROUTING_BASE_URLS,
+  ROUTING_ENGINE_LABELS,
+  validateRoutingConfig
+} from '@/utils/routingProviders';
+import { DEFAULT_SPEED_BANDS, WEEKDAY_LABELS, validateSpeedBands } from '@/utils/trafficProfile';
+import { DEFAULT_TELEMETRY_CONFIG, TELEMETRY_TRANSPORT_LABELS, validateTelemetryConfig } from '@/utils/telemetry';
+import { clearRouteCache, countCachedRoadRoutes, ROUTE_CACHE_TTL_MS } from '@/utils/routeCache';
+import { clearPlannerCaches } from '@/utils/routePlannerClient';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
@@ -9,7 +22,9 @@ import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
 import logoDark from '@/assets/logo-dark.jpg';
 import logoLight from '@/assets/logo-light.jpg';
-import { validateAdminPassword, updateAdminPassword } from './LoginPage';
+import { changePassword } from '@/utils/apiClient';
+import UserAccounts from '@/components/UserAccounts';
+import { ROLE_LABELS } from '@/lib/permissions';
 import {
   Dialog,
   DialogContent,
@@ -18,9 +33,87 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type PlanningField = keyof PlanningConfig;
+
+// Optimization fields shown in Settings, grouped as they appear on screen
+const PLANNING_FIELD_GROUPS: { title: string; fields: { key: PlanningField; label: string; unit: string; type?: 'time' }[] }[] = [
+  {
+    title: 'Collection',
+    fields: [
+      { key: 'collectionThreshold', label: 'Collection threshold', unit: '%' },
+      { key: 'facilityFillLimit', label: 'Station/dumpyard fill limit', unit: '%' },
+      { key: 'binWeightFactor', label: 'Bin weight factor', unit: 'kg/%' },
+      { key: 'maxStopsPerSat', label: 'Max stops per SAT trip', unit: 'stops' },
+      { key: 'maxStationsPerTruck', label: 'Max stations per truck trip', unit: 'stations' },
+    ]
+  },
+  {
+    title: 'Speeds',
+    fields: [
+      { key: 'satSpeedOffPeak', label: 'SAT speed (off-peak)', unit: 'km/h' },
+      { key: 'truckSpeedOffPeak', label: 'Truck speed (off-peak)', unit: 'km/h' },
+    ]
+  },
+  {
+    title: 'Shift & Solver',
+    fields: [
+      { key: 'shiftStart', label: 'Shift start', unit: 'HH:MM', type: 'time' },
+      { key: 'shiftLengthMinutes', label: 'Shift length', unit: 'min' },
+      { key: 'unloadMinutes', label: 'Unload time', unit: 'min' },
+      { key: 'smartBinServiceMinutes', label: 'Smart bin service time', unit: 'min' },
+      { key: 'regularBinServiceMinutes', label: 'Regular bin service time', unit: 'min' },
+      { key: 'stationLoadingMinutes', label: 'Truck loading at station', unit: 'min' },
+      { key: 'localSearchIterations', label: 'Local search iterations', unit: 'moves' },
+      { key: 'localSearchTimeMs', label: 'Local search time per route', unit: 'ms' },
+    ]
+  }
+];
+
+function toDraft(config: PlanningConfig): Record<PlanningField, string> {
+  return Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [key, String(value)])
+  ) as Record<PlanningField, string>;
+}
+
+const MIN_PASSWORD_LENGTH = 8; // the server's minimum
+const ROUTE_CACHE_DAYS = Math.round(ROUTE_CACHE_TTL_MS / (24 * 60 * 60 * 1000));
+
+// Number input value for a field that may hold NaN while being edited
+const numberValue = (value: number) => (Number.isNaN(value) ? '' : value);
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+function toRoutingDraft(config: RoutingConfig) {
+  return { ...config, requestDelayMs: String(config.requestDelayMs) };
+}
+
+function toTelemetryDraft(config: TelemetryConfig) {
+  return { ...config, staleAfterMinutes: String(config.staleAfterMinutes) };
+}
+
+const TELEMETRY_STATUS_LABELS: Record<TelemetryStatus, { label: string; className: string }> = {
+  disabled: { label: 'Off', className: 'bg-muted-foreground' },
+  connecting: { label: 'Connecting…', className: 'bg-warning' },
+  connected: { label: 'Receiving', className: 'bg-success' },
+  error: { label: 'Reconnecting', className: 'bg-destructive' }
+};
 
 export default function SettingsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const canEditSettings = can('settings:edit');
+  const {
+    planningConfig, updatePlanningConfig, resetPlanningConfig,
+    routingConfig, updateRoutingConfig, resetRoutingConfig,
+    speedBands, updateSpeedBands, resetSpeedBands,
+    telemetryConfig, updateTelemetryConfig, resetTelemetryConfig, telemetryStatus, telemetryError, staleSensorIds
+  } = useData();
   const [isDarkMode, setIsDarkMode] = useState(() => {
     const saved = localStorage.getItem('theme');
     return saved ? saved === 'dark' : true;
@@ -33,6 +126,28 @@ export default function SettingsPage() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [passwordError, setPasswordError] = useState('');
 
+  // Optimization config draft (edited as strings, validated on save)
+  const [configDraft, setConfigDraft] = useState(() => toDraft(planningConfig));
+  const [configErrors, setConfigErrors] = useState<Partial<Record<PlanningField, string>>>({});
+
+  // Routing engine draft
+  const [routingDraft, setRoutingDraft] = useState(() => toRoutingDraft(routingConfig));
+  const [routingErrors, setRoutingErrors] = useState<Partial<Record<keyof RoutingConfig, string>>>({});
+  const [cachedRouteCount, setCachedRouteCount] = useState<number | null>(null);
+
+  // Traffic speed table draft (validated on save)
+  const [bandsDraft, setBandsDraft] = useState<SpeedBand[]>(speedBands);
+  const [bandErrors, setBandErrors] = useState<Record<string, string>>({});
+
+  // Sensor telemetry draft
+  const [telemetryDraft, setTelemetryDraft] = useState(() => toTelemetryDraft(telemetryConfig));
+  const [telemetryErrors, setTelemetryErrors] = useState<Partial<Record<keyof TelemetryConfig, string>>>({});
+
+  useEffect(() => {
+    if (!canEditSettings) return;
+    countCachedRoadRoutes().then(setCachedRouteCount);
+  }, [canEditSettings]);
+
   useEffect(() => {
     const root = document.documentElement;
     if (isDarkMode) {
@@ -44,7 +159,7 @@ export default function SettingsPage() {
     }
   }, [isDarkMode]);
 
-  const handlePasswordChange = () => {
+  const handlePasswordChange = async () => {
     setPasswordError('');
 
     if (!currentPassword || !newPassword || !confirmPassword) {
@@ -52,13 +167,8 @@ export default function SettingsPage() {
       return;
     }
 
-    if (!validateAdminPassword(currentPassword)) {
-      setPasswordError('Current password is incorrect');
-      return;
-    }
-
-    if (newPassword.length < 4) {
-      setPasswordError('New password must be at least 4 characters');
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setPasswordError(`New password must be at least ${MIN_PASSWORD_LENGTH} characters`);
       return;
     }
 
@@ -67,7 +177,13 @@ export default function SettingsPage() {
       return;
     }
 
-    updateAdminPassword(newPassword);
+    // The server checks the current password and signs out other sessions
+    try {
+      await changePassword(currentPassword, newPassword);
+    } catch (error) {
+      setPasswordError(error instanceof Error ? error.message : 'Could not update the password');
+      return;
+    }
     toast.success('Password updated successfully');
     setIsPasswordDialogOpen(false);
     setCurrentPassword('');
@@ -75,6 +191,148 @@ export default function SettingsPage() {
     setConfirmPassword('');
   };
 
+  const handleSavePlanningConfig = () => {
+    const parsed = Object.fromEntries(
+      Object.entries(configDraft).map(([key, value]) => [
+        key,
+        key === 'shiftStart' ? value.trim() : value.trim() === '' ? NaN : Number(value)
+      ])
+    ) as unknown as PlanningConfig;
+
+    const errors = validatePlanningConfig(parsed);
+    setConfigErrors(errors);
+
+    if (Object.keys(errors).length > 0) {
+      toast.error('Please fix the highlighted optimization settings');
+      return;
+    }
+
+    updatePlanningConfig(parsed);
+    toast.success('Optimization settings saved');
+  };
+
+  const handleResetPlanningConfig = () => {
+    resetPlanningConfig();
+    setConfigDraft(toDraft(DEFAULT_PLANNING_CONFIG));
+    setConfigErrors({});
+    toast.success('Optimization settings reset to defaults');
+  };
+
+  const handleRoutingEngineChange = (engine: RoutingEngine) => {
+    // Switching engines points at that engine's default server unless a custom URL was entered
+    const isDefaultUrl = Object.values(DEFAULT_ROUTING_BASE_URLS).includes(routingDraft.baseUrl);
+    setRoutingDraft({
+      ...routingDraft,
+      engine,
+      baseUrl: isDefaultUrl ? DEFAULT_ROUTING_BASE_URLS[engine] : routingDraft.baseUrl
+    });
+    setRoutingErrors({});
+  };
+
+  const handleSaveRoutingConfig = () => {
+    const parsed: RoutingConfig = {
+      engine: routingDraft.engine,
+      baseUrl: routingDraft.baseUrl.trim(),
+      apiKey: routingDraft.apiKey.trim(),
+      requestDelayMs: routingDraft.requestDelayMs.trim() === '' ? NaN : Number(routingDraft.requestDelayMs)
+    };
+
+    const errors = validateRoutingConfig(parsed);
+    setRoutingErrors(errors);
+
+    if (Object.keys(errors).length > 0) {
+      toast.error('Please fix the highlighted routing settings');
+      return;
+    }
+
+    updateRoutingConfig(parsed);
+    toast.success(`Routing engine set to ${ROUTING_ENGINE_LABELS[parsed.engine]}`);
+  };
+
+  const handleResetRoutingConfig = () => {
+    resetRoutingConfig();
+    setRoutingDraft(toRoutingDraft(DEFAULT_ROUTING_CONFIG));
+    setRoutingErrors({});
+    toast.success('Routing settings reset to defaults');
+  };
+
+  const updateBand = (id: string, changes: Partial<SpeedBand>) => {
+    setBandsDraft(bandsDraft.map(band => (band.id === id ? { ...band, ...changes } : band)));
+    setBandErrors({ ...bandErrors, [id]: undefined });
+  };
+
+  const toggleBandDay = (band: SpeedBand, day: number) => {
+    const days = band.days.includes(day) ? band.days.filter(d => d !== day) : [...band.days, day].sort();
+    updateBand(band.id, { days });
+  };
+
+  const handleAddBand = () => {
+    setBandsDraft([
+      ...bandsDraft,
+      { id: `band-${Date.now()}`, vehicleClass: 'sat', days: [], startHour: 8, endHour: 10, speed: 20 }
+    ]);
+  };
+
+  const handleSaveSpeedBands = () => {
+    const errors = validateSpeedBands(bandsDraft);
+    setBandErrors(errors);
+
+    if (Object.keys(errors).length > 0) {
+      toast.error('Please fix the highlighted speed bands');
+      return;
+    }
+
+    updateSpeedBands(bandsDraft);
+    toast.success('Traffic profile saved');
+  };
+
+  const handleResetSpeedBands = () => {
+    resetSpeedBands();
+    setBandsDraft(DEFAULT_SPEED_BANDS);
+    setBandErrors({});
+    toast.success('Traffic profile reset to defaults');
+  };
+
+  const handleSaveTelemetryConfig = () => {
+    const parsed: TelemetryConfig = {
+      ...telemetryDraft,
+      url: telemetryDraft.url.trim(),
+      topic: telemetryDraft.topic.trim(),
+      username: telemetryDraft.username.trim(),
+      staleAfterMinutes: toNumber(telemetryDraft.staleAfterMinutes)
+    };
+
+    const errors = validateTelemetryConfig(parsed);
+    setTelemetryErrors(errors);
+
+    if (Object.keys(errors).length > 0) {
+      toast.error('Please fix the highlighted telemetry settings');
+      return;
+    }
+
+    updateTelemetryConfig(parsed);
+    toast.success(parsed.enabled ? `Listening for sensor readings on ${parsed.url}` : 'Sensor telemetry turned off');
+  };
+
+  const handleResetTelemetryConfig = () => {
+    resetTelemetryConfig();
+    setTelemetryDraft(toTelemetryDraft(DEFAULT_TELEMETRY_CONFIG));
+    setTelemetryErrors({});
+    toast.success('Telemetry settings reset to defaults');
+  };
+
+  const handleClearRouteCache = async () => {
+    try {
+      await clearRouteCache();
+      clearPlannerCaches();
+      setCachedRouteCount(0);
+      toast.success('Routing cache cleared');
+    } catch (error) {
+      console.error('Failed to clear routing cache:', error);
+      toast.error('Failed to clear routing cache');
+    }
+  };
+
   return (
     <div className="h-full overflow-auto p-4 md:p-6 scrollbar-thin">
       <div className="mb-4 md:mb-6">
@@ -103,7 +361,7 @@ export default function SettingsPage() {
                 <p className="text-xs md:text-sm text-muted-foreground">Your current access level</p>
               </div>
               <span className="px-2 md:px-3 py-1 rounded-full bg-primary/20 text-primary text-xs md:text-sm font-medium capitalize w-fit">
-                {user?.role}
+                {user && ROLE_LABELS[user.role]}
               </span>
             </div>
             
@@ -118,11 +376,21 @@ export default function SettingsPage() {
                 </span>
               </div>
             )}
+
+            {user?.areas && user.areas.length > 0 && (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 md:p-4 rounded-lg bg-secondary/50">
+                <div>
+                  <p className="text-sm md:text-base font-medium text-foreground">Areas</p>
+                  <p className="text-xs md:text-sm text-muted-foreground">Bins and stations you can change</p>
+                </div>
+                <span className="text-xs md:text-sm text-foreground">{user.areas.join(', ')}</span>
+              </div>
+            )}
           </div>
         </motion.div>
 
-        {/* Security Section - Admin Only */}
-        {user?.role === 'admin' && (
+        {/* Security Section */}
+        {user && (
           <motion.div 
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -142,7 +410,7 @@ export default function SettingsPage() {
                   <Key className="w-4 h-4 md:w-5 md:h-5 text-muted-foreground shrink-0" />
                   <div>
                     <p className="text-sm md:text-base font-medium text-foreground">Change Password</p>
-                    <p className="text-xs md:text-sm text-muted-foreground">Update your admin password</p>
+                    <p className="text-xs md:text-sm text-muted-foreground">Update your sign-in password</p>
                   </div>
                 </div>
                 <Dialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen}>
@@ -154,9 +422,9 @@ export default function SettingsPage() {
                   </DialogTrigger>
                   <DialogContent className="max-w-[90vw] sm:max-w-md">
                     <DialogHeader>
-                      <DialogTitle>Change Admin Password</DialogTitle>
+                      <DialogTitle>Change Password</DialogTitle>
                       <DialogDescription>
-                        Enter your current password and choose a new one.
+                        Enter your current password and choose a new one. Your other sessions will be signed out.
                       </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 mt-4">
@@ -203,6 +471,493 @@ export default function SettingsPage() {
           </motion.div>
         )}
 
+        {/* User Accounts Section - Admin Only */}
+        {can('users:manage') && <UserAccounts />}
+
+        {/* Optimization Section - Admin and Supervisor */}
+        {canEditSettings && (
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.08 }}
+            className="glass rounded-xl p-4 md:p-6"
+          >
+            <div className="flex items-center gap-2 md:gap-3 mb-4 md:mb-6">
+              <div className="p-1.5 md:p-2 rounded-lg bg-primary/20">
+                <SlidersHorizontal className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+              </div>
+              <h2 className="text-base md:text-lg font-semibold text-foreground">Optimization</h2>
+            </div>
+            
+            <div className="space-y-4 md:space-y-6">
+              {PLANNING_FIELD_GROUPS.map(group => (
+                <div key={group.title}>
+                  <p className="text-xs md:text-sm font-medium text-muted-foreground mb-2">{group.title}</p>
+                  <div className="grid sm:grid-cols-2 gap-3">
+                    {group.fields.map(field => (
+                      <div key={field.key} className="p-3 rounded-lg bg-secondary/50">
+                        <Label htmlFor={`config-${field.key}`} className="text-xs md:text-sm">
+                          {field.label} <span className="text-muted-foreground">({field.unit})</span>
+                        </Label>
+                        <Input
+                          id={`config-${field.key}`}
+                          type={field.type ?? 'number'}
+                          value={configDraft[field.key]}
+                          onChange={(e) => {
+                            setConfigDraft({ ...configDraft, [field.key]: e.target.value });
+                            setConfigErrors({ ...configErrors, [field.key]: undefined });
+                          }}
+                          className="mt-1 h-8 text-sm"
+                        />
+                        {configErrors[field.key] && (
+                          <p className="text-xs text-destructive mt-1">{configErrors[field.key]}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button onClick={handleSavePlanningConfig} size="sm" className="text-xs md:text-sm">
+                  <Save className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Save
+                </Button>
+                <Button onClick={handleResetPlanningConfig} variant="outline" size="sm" className="text-xs md:text-sm">
+                  <RotateCcw className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Reset to defaults
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Routing Engine Section - Admin and Supervisor */}
+        {canEditSettings && (
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.09 }}
+            className="glass rounded-xl p-4 md:p-6"
+          >
+            <div className="flex items-center gap-2 md:gap-3 mb-4 md:mb-6">
+              <div className="p-1.5 md:p-2 rounded-lg bg-primary/20">
+                <Server className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+              </div>
+              <h2 className="text-base md:text-lg font-semibold text-foreground">Routing Engine</h2>
+            </div>
+            
+            <div className="space-y-3 md:space-y-4">
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div className="p-3 rounded-lg bg-secondary/50">
+                  <Label className="text-xs md:text-sm">Engine</Label>
+                  <Select value={routingDraft.engine} onValueChange={(value) => handleRoutingEngineChange(value as RoutingEngine)}>
+                    <SelectTrigger className="mt-1 h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROUTING_ENGINE_LABELS) as RoutingEngine[]).map(engine => (
+                        <SelectItem key={engine} value={engine}>{ROUTING_ENGINE_LABELS[engine]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                {routingDraft.engine !== 'haversine' && (
+                  <div className="p-3 rounded-lg bg-secondary/50">
+                    <Label htmlFor="routing-delay" className="text-xs md:text-sm">
+                      Delay between requests <span className="text-muted-foreground">(ms)</span>
+                    </Label>
+                    <Input
+                      id="routing-delay"
+                      type="number"
+                      value={routingDraft.requestDelayMs}
+                      onChange={(e) => setRoutingDraft({ ...routingDraft, requestDelayMs: e.target.value })}
+                      className="mt-1 h-8 text-sm"
+                    />
+                    {routingErrors.requestDelayMs && (
+                      <p className="text-xs text-destructive mt-1">{routingErrors.requestDelayMs}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+              
+              {routingDraft.engine !== 'haversine' && (
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div className="p-3 rounded-lg bg-secondary/50">
+                    <Label htmlFor="routing-url" className="text-xs md:text-sm">Server URL</Label>
+                    <Input
+                      id="routing-url"
+                      value={routingDraft.baseUrl}
+                      placeholder={DEFAULT_ROUTING_BASE_URLS[routingDraft.engine]}
+                      onChange={(e) => setRoutingDraft({ ...routingDraft, baseUrl: e.target.value })}
+                      className="mt-1 h-8 text-sm"
+                    />
+                    {routingErrors.baseUrl && (
+                      <p className="text-xs text-destructive mt-1">{routingErrors.baseUrl}</p>
+                    )}
+                  </div>
+                  {routingDraft.engine === 'graphhopper' && (
+                    <div className="p-3 rounded-lg bg-secondary/50">
+                      <Label htmlFor="routing-key" className="text-xs md:text-sm">
+                        API key <span className="text-muted-foreground">(hosted GraphHopper only)</span>
+                      </Label>
+                      <Input
+                        id="routing-key"
+                        type="password"
+                        value={routingDraft.apiKey}
+                        onChange={(e) => setRoutingDraft({ ...routingDraft, apiKey: e.target.value })}
+                        className="mt-1 h-8 text-sm"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+              
+              <p className="text-xs text-muted-foreground">
+                {routingDraft.engine === 'haversine'
+                  ? 'Routes keep straight-line distances and times; no routing server is contacted.'
+                  : 'Self-hosted servers usually need no delay. The public OSRM demo allows one request per second.'}
+              </p>
+              
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button onClick={handleSaveRoutingConfig} size="sm" className="text-xs md:text-sm">
+                  <Save className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Save
+                </Button>
+                <Button onClick={handleResetRoutingConfig} variant="outline" size="sm" className="text-xs md:text-sm">
+                  <RotateCcw className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Reset to defaults
+                </Button>
+              </div>
+              
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                <div>
+                  <p className="text-sm md:text-base font-medium text-foreground">Routing cache</p>
+                  <p className="text-xs text-muted-foreground">
+                    {cachedRouteCount === null
+                      ? `Road paths are kept for ${ROUTE_CACHE_DAYS} days`
+                      : `${cachedRouteCount} road path${cachedRouteCount === 1 ? '' : 's'} stored, kept for ${ROUTE_CACHE_DAYS} days`}
+                  </p>
+                </div>
+                <Button onClick={handleClearRouteCache} variant="outline" size="sm" className="text-xs md:text-sm w-full sm:w-auto">
+                  <Trash2 className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Clear routing cache
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Traffic Profile Section - Admin and Supervisor */}
+        {canEditSettings && (
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.095 }}
+            className="glass rounded-xl p-4 md:p-6"
+          >
+            <div className="flex items-center gap-2 md:gap-3 mb-4 md:mb-6">
+              <div className="p-1.5 md:p-2 rounded-lg bg-primary/20">
+                <Clock className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+              </div>
+              <h2 className="text-base md:text-lg font-semibold text-foreground">Traffic Profile</h2>
+            </div>
+            
+            <div className="space-y-3 md:space-y-4">
+              <p className="text-xs text-muted-foreground">
+                Each leg is driven at the speed of the band covering its departure time. Zone bands win over
+                citywide ones; outside every band the off-peak speed from Optimization applies.
+              </p>
+              
+              {bandsDraft.map(band => (
+                <div key={band.id} className="p-3 rounded-lg bg-secondary/50 space-y-2">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <div>
+                      <Label className="text-xs">Vehicle</Label>
+                      <Select
+                        value={band.vehicleClass}
+                        onValueChange={(value) => updateBand(band.id, { vehicleClass: value as SpeedBand['vehicleClass'] })}
+                      >
+                        <SelectTrigger className="mt-1 h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="sat">SAT</SelectItem>
+                          <SelectItem value="truck">Truck</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">From <span className="text-muted-foreground">(h)</span></Label>
+                      <Input
+                        type="number"
+                        value={numberValue(band.startHour)}
+                        onChange={(e) => updateBand(band.id, { startHour: toNumber(e.target.value) })}
+                        className="mt-1 h-8 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">To <span className="text-muted-foreground">(h)</span></Label>
+                      <Input
+                        type="number"
+                        value={numberValue(band.endHour)}
+                        onChange={(e) => updateBand(band.id, { endHour: toNumber(e.target.value) })}
+                        className="mt-1 h-8 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Speed <span className="text-muted-foreground">(km/h)</span></Label>
+                      <Input
+                        type="number"
+                        value={numberValue(band.speed)}
+                        onChange={(e) => updateBand(band.id, { speed: toNumber(e.target.value) })}
+                        className="mt-1 h-8 text-sm"
+                      />
+                    </div>
+                  </div>
+                  
+                  <div className="flex flex-wrap items-center gap-1">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        onClick={() => toggleBandDay(band, day)}
+                        className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                          band.days.includes(day) ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <span className="text-xs text-muted-foreground ml-1">
+                      {band.days.length === 0 ? 'every day' : ''}
+                    </span>
+                    <div className="flex items-center gap-2 ml-auto">
+                      <Label htmlFor={`zone-${band.id}`} className="text-xs">Zone</Label>
+                      <Switch
+                        id={`zone-${band.id}`}
+                        checked={!!band.zone}
+                        onCheckedChange={(checked) => updateBand(band.id, {
+                          zone: checked ? { name: '', lat: 17.385, lng: 78.4867, radiusKm: 3 } : undefined
+                        })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setBandsDraft(bandsDraft.filter(b => b.id !== band.id))}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                  
+                  {band.zone && (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      <Input
+                        placeholder="Zone name"
+                        value={band.zone.name}
+                        onChange={(e) => updateBand(band.id, { zone: { ...band.zone!, name: e.target.value } })}
+                        className="h-8 text-sm"
+                      />
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        placeholder="Latitude"
+                        value={numberValue(band.zone.lat)}
+                        onChange={(e) => updateBand(band.id, { zone: { ...band.zone!, lat: toNumber(e.target.value) } })}
+                        className="h-8 text-sm"
+                      />
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        placeholder="Longitude"
+                        value={numberValue(band.zone.lng)}
+                        onChange={(e) => updateBand(band.id, { zone: { ...band.zone!, lng: toNumber(e.target.value) } })}
+                        className="h-8 text-sm"
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Radius (km)"
+                        value={numberValue(band.zone.radiusKm)}
+                        onChange={(e) => updateBand(band.id, { zone: { ...band.zone!, radiusKm: toNumber(e.target.value) } })}
+                        className="h-8 text-sm"
+                      />
+                    </div>
+                  )}
+                  
+                  {bandErrors[band.id] && (
+                    <p className="text-xs text-destructive">{bandErrors[band.id]}</p>
+                  )}
+                </div>
+              ))}
+              
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button onClick={handleAddBand} variant="outline" size="sm" className="text-xs md:text-sm">
+                  <Plus className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Add band
+                </Button>
+                <Button onClick={handleSaveSpeedBands} size="sm" className="text-xs md:text-sm">
+                  <Save className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Save
+                </Button>
+                <Button onClick={handleResetSpeedBands} variant="outline" size="sm" className="text-xs md:text-sm">
+                  <RotateCcw className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Reset to defaults
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Sensor Telemetry Section - Admin and Supervisor */}
+        {canEditSettings && (
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.098 }}
+            className="glass rounded-xl p-4 md:p-6"
+          >
+            <div className="flex items-center justify-between gap-2 mb-4 md:mb-6">
+              <div className="flex items-center gap-2 md:gap-3">
+                <div className="p-1.5 md:p-2 rounded-lg bg-primary/20">
+                  <Radio className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+                </div>
+                <h2 className="text-base md:text-lg font-semibold text-foreground">Sensor Telemetry</h2>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span className={`w-2 h-2 rounded-full ${TELEMETRY_STATUS_LABELS[telemetryStatus].className}`} />
+                {TELEMETRY_STATUS_LABELS[telemetryStatus].label}
+              </div>
+            </div>
+            
+            <div className="space-y-3 md:space-y-4">
+              <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
+                <div>
+                  <p className="text-sm md:text-base font-medium text-foreground">Live bin levels</p>
+                  <p className="text-xs text-muted-foreground">Apply fill levels reported by smart bin sensors</p>
+                </div>
+                <Switch
+                  checked={telemetryDraft.enabled}
+                  onCheckedChange={(enabled) => setTelemetryDraft({ ...telemetryDraft, enabled })}
+                />
+              </div>
+              
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div className="p-3 rounded-lg bg-secondary/50">
+                  <Label className="text-xs md:text-sm">Transport</Label>
+                  <Select
+                    value={telemetryDraft.transport}
+                    onValueChange={(value) => setTelemetryDraft({ ...telemetryDraft, transport: value as TelemetryTransport })}
+                  >
+                    <SelectTrigger className="mt-1 h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TELEMETRY_TRANSPORT_LABELS) as TelemetryTransport[]).map(transport => (
+                        <SelectItem key={transport} value={transport}>{TELEMETRY_TRANSPORT_LABELS[transport]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="p-3 rounded-lg bg-secondary/50">
+                  <Label htmlFor="telemetry-stale" className="text-xs md:text-sm">
+                    Stale after <span className="text-muted-foreground">(min)</span>
+                  </Label>
+                  <Input
+                    id="telemetry-stale"
+                    type="number"
+                    value={telemetryDraft.staleAfterMinutes}
+                    onChange={(e) => setTelemetryDraft({ ...telemetryDraft, staleAfterMinutes: e.target.value })}
+                    className="mt-1 h-8 text-sm"
+                  />
+                  {telemetryErrors.staleAfterMinutes && (
+                    <p className="text-xs text-destructive mt-1">{telemetryErrors.staleAfterMinutes}</p>
+                  )}
+                </div>
+              </div>
+              
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div className="p-3 rounded-lg bg-secondary/50">
+                  <Label htmlFor="telemetry-url" className="text-xs md:text-sm">Endpoint URL</Label>
+                  <Input
+                    id="telemetry-url"
+                    value={telemetryDraft.url}
+                    placeholder={DEFAULT_TELEMETRY_CONFIG.url}
+                    onChange={(e) => setTelemetryDraft({ ...telemetryDraft, url: e.target.value })}
+                    className="mt-1 h-8 text-sm"
+                  />
+                  {telemetryErrors.url && (
+                    <p className="text-xs text-destructive mt-1">{telemetryErrors.url}</p>
+                  )}
+                </div>
+                {telemetryDraft.transport === 'mqtt' && (
+                  <div className="p-3 rounded-lg bg-secondary/50">
+                    <Label htmlFor="telemetry-topic" className="text-xs md:text-sm">Topic</Label>
+                    <Input
+                      id="telemetry-topic"
+                      value={telemetryDraft.topic}
+                      placeholder={DEFAULT_TELEMETRY_CONFIG.topic}
+                      onChange={(e) => setTelemetryDraft({ ...telemetryDraft, topic: e.target.value })}
+                      className="mt-1 h-8 text-sm"
+                    />
+                    {telemetryErrors.topic && (
+                      <p className="text-xs text-destructive mt-1">{telemetryErrors.topic}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+              
+              {telemetryDraft.transport === 'mqtt' && (
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div className="p-3 rounded-lg bg-secondary/50">
+                    <Label htmlFor="telemetry-username" className="text-xs md:text-sm">
+                      Username <span className="text-muted-foreground">(optional)</span>
+                    </Label>
+                    <Input
+                      id="telemetry-username"
+                      value={telemetryDraft.username}
+                      onChange={(e) => setTelemetryDraft({ ...telemetryDraft, username: e.target.value })}
+                      className="mt-1 h-8 text-sm"
+                    />
+                  </div>
+                  <div className="p-3 rounded-lg bg-secondary/50">
+                    <Label htmlFor="telemetry-password" className="text-xs md:text-sm">
+                      Password <span className="text-muted-foreground">(optional)</span>
+                    </Label>
+                    <Input
+                      id="telemetry-password"
+                      type="password"
+                      value={telemetryDraft.password}
+                      onChange={(e) => setTelemetryDraft({ ...telemetryDraft, password: e.target.value })}
+                      className="mt-1 h-8 text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+              
+              <p className="text-xs text-muted-foreground">
+                {telemetryError
+                  ? `${telemetryError}. Retrying…`
+                  : telemetryConfig.enabled
+                    ? `${staleSensorIds.size} smart bin sensor${staleSensorIds.size === 1 ? '' : 's'} silent for over ${telemetryConfig.staleAfterMinutes} min.`
+                    : 'Run npm run mock:telemetry for a local test feed on the default URL.'}
+              </p>
+              
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button onClick={handleSaveTelemetryConfig} size="sm" className="text-xs md:text-sm">
+                  <Save className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Save
+                </Button>
+                <Button onClick={handleResetTelemetryConfig} variant="outline" size="sm" className="text-xs md:text-sm">
+                  <RotateCcw className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                  Reset to defaults
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
         {/* Appearance Section */}
         <motion.div 
           initial={{ opacity: 0, y: 20 }}
@@ -338,8 +1093,8 @@ export default function SettingsPage() {
               </p>
               <p className="text-xs md:text-sm text-muted-foreground mt-2">
                 AI-powered waste management route optimization system. 
-                Uses OSRM for road network routing and advanced algorithms for 
-                optimal route planning.
+                Uses OSRM, Valhalla or GraphHopper for road network routing and 
+                advanced algorithms for optimal route planning.
               </p>
             </div>
           </div>
@@ -1,12 +1,27 @@
-export type UserRole = 'admin' | 'driver';
+export type UserRole = 'admin' | 'supervisor' | 'fleet-manager' | 'viewer' | 'driver';
 
 export type VehicleStatus = 'active' | 'off-duty' | 'in-route';
 
 export interface Vehicle {
   id: string;
-  capacity: number;
+  capacity: number; // kg; overridden by the profile's weight capacity when profileId is set
   status: VehicleStatus;
   driver: string;
+  profileId?: string; // VehicleProfile.id
+  homeDepotId?: string; // Depot.id where the vehicle is parked overnight
+}
+
+// Characteristics shared by every vehicle of one model, e.g. "Mini Tipper 7T"
+export interface VehicleProfile {
+  id: string;
+  name: string;
+  vehicleClass: 'sat' | 'truck';
+  weightCapacity: number;     // kg
+  volumeCapacity: number;     // m³ of loose waste
+  maxSpeed: number;           // km/h
+  narrowLaneAccess: boolean;  // small enough for narrow lanes and tight turns
+  fuelConsumption: number;    // litres per 100 km
+  fixedCostPerTrip: number;   // dispatch cost per trip, in local currency
 }
 
 export interface Truck extends Vehicle {
@@ -17,6 +32,12 @@ export interface SAT extends Vehicle {
   type: 'sat';
 }
 
+// Daily service window in local time, e.g. { start: '05:00', end: '07:00' }
+export interface TimeWindow {
+  start: string; // "HH:MM"
+  end: string;   // "HH:MM"
+}
+
 export interface SmartBin {
   id: string;
   lat: number;
@@ -25,38 +46,92 @@ export interface SmartBin {
   currentLevel: number;
   area: string;
   isSmartBin: boolean; // true = smart bin with sensors, false = regular bin
+  serviceWindow?: TimeWindow; // e.g. market GVPs that must be cleared before 7am
+  narrowLane?: boolean; // only reachable by vehicles with narrowLaneAccess
+  sensor?: SensorInfo; // latest telemetry of a smart bin's sensor
+}
+
+export interface SensorInfo {
+  battery: number;      // %
+  firmware?: string;    // version the sensor reports, when it does
+  lastReportAt: number; // epoch ms of the reading currently applied
+}
+
+// One validated telemetry message from a bin sensor
+export interface SensorReading {
+  binId: string;
+  level: number;     // % full
+  battery: number;   // %
+  firmware?: string;
+  timestamp: number; // epoch ms when the sensor took the reading
+}
+
+// One fill-level reading of a bin
+export interface BinLevelSample {
+  binId: string;
+  level: number; // % full
+  at: number;    // epoch ms
+  source?: 'sensor' | 'manual'; // readings from before sources were recorded have none
 }
 
 export interface CompactStation {
   id: string;
   lat: number;
   lng: number;
-  capacity: number;
-  currentLevel: number;
+  capacity: number;     // kg
+  currentLevel: number; // kg
   area: string;
+  serviceWindow?: TimeWindow; // hours the station accepts drop-offs/pickups
 }
 
 export interface Dumpyard {
   id: string;
   lat: number;
   lng: number;
-  capacity: number;
-  currentLevel: number;
+  capacity: number;     // tonnes
+  currentLevel: number; // tonnes
   name: string;
   permanent?: boolean; // Permanent dumpyards cannot be deleted except via modification tab
+  serviceWindow?: TimeWindow; // gate hours
+}
+
+// Garage where vehicles start and end their shift
+export interface Depot {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
 }
 
 export interface User {
+  id: string;
+  username: string;
+  name: string;
   role: UserRole;
-  vehicleId?: string;
+  vehicleId?: string; // drivers only: the vehicle whose route they see
+  areas?: string[]; // supervisors only: the areas whose bins and stations they manage
+}
+
+// A signed-in user's session as issued by the API server
+export interface AuthSession {
+  token: string;
+  expiresAt: number;
+  user: User;
 }
 
 export interface RoutePoint {
   lat: number;
   lng: number;
-  type: 'smartbin' | 'compact-station' | 'dumpyard';
+  type: 'smartbin' | 'compact-station' | 'dumpyard' | 'depot';
   id: string;
-  action: 'pickup' | 'dropoff';
+  action: 'pickup' | 'dropoff' | 'depart' | 'return'; // depart/return only at depots
+  lateness?: number; // minutes after the service window closed, when it could not be met
+  serviceWindow?: TimeWindow;
+  arrivalTime?: number;   // ETA, minutes from plan start (same clock as OptimizedRoute.startTime)
+  departureTime?: number; // minutes from plan start, after waiting and service
+  serviceMinutes?: number;
+  loadAfter?: number;     // kg on board after this stop
+  readyAt?: number;       // minutes from plan start before which service cannot start (station waste not delivered yet)
 }
 
 export interface OptimizedRoute {
@@ -66,10 +141,144 @@ export interface OptimizedRoute {
   totalDistance: number;
   estimatedTime: number;
   startTime: number; // minutes from start (0 for SATs, calculated for trucks)
+  planStartAt?: number; // epoch ms of plan minute 0: the shift start on the plan day
   tripNumber?: number; // for vehicles making multiple trips
   targetStationId?: string; // station this route serves (for SAT routes)
   coordinates: [number, number][];
-  osrmFetched?: boolean; // Flag to track if accurate OSRM route has been fetched
+  improvementOverGreedy?: number; // % distance saved by local search vs nearest neighbor seed
+  osrmFetched?: boolean; // Flag to track if the road route has been fetched (any routing engine)
+  profileId?: string;    // profile of the assigned vehicle
+  fuelLitres?: number;   // estimated from the profile's consumption and the route distance
+  redirectedFrom?: string; // station (SATs) or dumpyard (trucks) skipped because it was full
+}
+
+export type UnassignedReason = 'capacity' | 'stop-limit' | 'no-vehicle' | 'narrow-lane' | 'shift-limit' | 'station-full' | 'dumpyard-full';
+
+export interface UnassignedBin {
+  binId: string;
+  reason: UnassignedReason;
+}
+
+// Waste left at a compact station because no truck trip could take it away
+export interface UnassignedStation {
+  stationId: string;
+  load: number; // kg left behind
+  reason: UnassignedReason;
+}
+
+export type UnassignedEntry = UnassignedBin | UnassignedStation;
+
+// Tunable parameters for route generation (edited in Settings > Optimization)
+export interface PlanningConfig {
+  maxStopsPerSat: number;
+  maxStationsPerTruck: number;
+  collectionThreshold: number; // % fill level at which a bin is collected
+  facilityFillLimit: number;   // % of capacity at which a station or dumpyard takes no more waste
+  binWeightFactor: number;     // kg of waste per % fill per unit of bin capacity / 100
+  satSpeedOffPeak: number;     // km/h outside every speed band
+  truckSpeedOffPeak: number;
+  shiftLengthMinutes: number;  // max working time per vehicle, from its first dispatch
+  unloadMinutes: number;       // drop-off time at the station (SATs) or dumpyard (trucks)
+  smartBinServiceMinutes: number;   // time to empty a smart bin
+  regularBinServiceMinutes: number; // time to empty a regular bin
+  stationLoadingMinutes: number;    // time for a truck to load at a compact station
+  shiftStart: string;          // "HH:MM" clock time of plan minute 0, used for service windows
+  localSearchIterations: number;
+  localSearchTimeMs: number;
+}
+
+// Circular area a speed band can be limited to
+export interface TrafficZone {
+  name: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+// Typical speed for one vehicle class during part of the day (edited in Settings > Traffic)
+export interface SpeedBand {
+  id: string;
+  vehicleClass: 'sat' | 'truck';
+  days: number[];     // 0 = Sunday ... 6 = Saturday; empty means every day
+  startHour: number;  // 0-23, first hour covered
+  endHour: number;    // 1-24, first hour no longer covered
+  speed: number;      // km/h
+  zone?: TrafficZone; // only legs that depart inside the zone
+}
+
+// Stages of a planning run, reported with overall progress
+export type PlanningPhase = 'matrix' | 'clustering' | 'sat-scheduling' | 'truck-scheduling' | 'road-geometry' | 'done';
+
+export interface PlanningProgress {
+  phase: PlanningPhase;
+  percent: number;          // 0-100 across the whole run
+  routes: OptimizedRoute[]; // routes so far (straight lines until road geometry arrives)
+}
+
+// Road routing engine used to turn straight-line drafts into road geometry
+export type RoutingEngine = 'osrm' | 'valhalla' | 'graphhopper' | 'haversine';
+
+export interface RoutingConfig {
+  engine: RoutingEngine;
+  baseUrl: string;        // server root, e.g. https://osrm.example.org
+  apiKey: string;         // only needed for hosted GraphHopper
+  requestDelayMs: number; // pause between requests; the public OSRM demo allows 1 req/s
+}
+
+export type TelemetryTransport = 'websocket' | 'mqtt';
+
+export interface TelemetryConfig {
+  enabled: boolean;
+  transport: TelemetryTransport;
+  url: string;               // ws:// or wss:// endpoint (the broker's WebSocket listener for MQTT)
+  topic: string;             // MQTT topic filter, e.g. bins/+/telemetry
+  username: string;          // MQTT only, optional
+  password: string;          // MQTT only, optional
+  staleAfterMinutes: number; // a sensor silent this long is flagged stale
+}
+
+export type TelemetryStatus = 'disabled' | 'connecting' | 'connected' | 'error';
+
+// Result of a planning run: routes plus the bins and station loads that could not be scheduled
+export interface RoutePlan {
+  routes: OptimizedRoute[];
+  unassigned: UnassignedEntry[];
+}
+
+// Entity collections exposed by the API server
+export type ApiCollection = 'bins' | 'stations' | 'dumpyards' | 'depots' | 'profiles' | 'trucks' | 'sats';
+
+// One entity write, as sent to the API server in a batch. `reason` names the
+// action behind it (an import, a bulk edit) in the audit log.
+export type DatabaseChange = (
+  | { op: 'put'; collection: ApiCollection; item: { id: string } }
+  | { op: 'delete'; collection: ApiCollection; id: string }
+) & { reason?: string };
+
+// A route plan as stored by the API server
+export interface SavedPlan extends RoutePlan {
+  id: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'replace';
+export type AuditEntity = ApiCollection | 'plan' | 'database';
+
+// One change in the server's append-only audit log. Updates keep only the
+// fields that changed; plans and database replacements keep a summary.
+export interface AuditEntry {
+  id: number;
+  at: number;
+  userId: string;
+  username: string; // as it was then, so entries outlive the account
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId?: string;
+  reason?: string;
+  batchId: string; // shared by the entries written by one request
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
 }
 
 export interface Database {
@@ -77,6 +286,8 @@ export interface Database {
     trucks: Vehicle[];
     sats: Vehicle[];
   };
+  vehicleProfiles: VehicleProfile[];
+  depots: Depot[];
   smartBins: SmartBin[];
   compactStations: CompactStation[];
   dumpyards: Dumpyard[];
@@ -0,0 +1,194 @@
+import { ApiCollection, AuditEntity, AuditEntry, AuthSession, Database, DatabaseChange, RoutePlan, SavedPlan, User, UserRole } from '@/types';
+
+// Client for the API server in server/, the source of truth for the fleet,
+// facilities and plans. In development Vite proxies /api to it; set
+// VITE_API_URL to reach a server elsewhere.
+
+const API_URL = (import.meta.env.VITE_API_URL as string | undefined)?.replace(/\/$/, '') || '/api';
+
+const COLLECTION_ITEMS: Record<ApiCollection, (database: Database) => { id: string }[]> = {
+  bins: database => database.smartBins,
+  stations: database => database.compactStations,
+  dumpyards: database => database.dumpyards,
+  depots: database => database.depots,
+  profiles: database => database.vehicleProfiles,
+  trucks: database => database.vehicles.trucks,
+  sats: database => database.vehicles.sats
+};
+
+// Sent with every request once signed in; set by AuthContext
+let authToken: string | null = null;
+let onUnauthorized: (() => void) | null = null;
+
+export function setAuthToken(token: string | null) {
+  authToken = token;
+}
+
+// Called when the server rejects the session (expired, signed out elsewhere, account removed)
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  onUnauthorized = handler;
+}
+
+async function send(path: string, init?: RequestInit): Promise<Response> {
+  const token = authToken;
+  const response = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...init?.headers
+    }
+  });
+  if (response.status === 401 && token && token === authToken) onUnauthorized?.();
+  return response;
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await send(path, init);
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(body?.error || `API request failed (${response.status})`);
+  }
+
+  return (response.status === 204 ? null : await response.json()) as T;
+}
+
+export function fetchDatabase(signal?: AbortSignal): Promise<Database> {
+  return request<Database>('/database', { signal });
+}
+
+export function replaceDatabase(database: Database): Promise<Database> {
+  return request<Database>('/database', { method: 'PUT', body: JSON.stringify(database) });
+}
+
+export function sendDatabaseChanges(changes: DatabaseChange[]): Promise<void> {
+  return request<void>('/changes', { method: 'POST', body: JSON.stringify(changes) });
+}
+
+// The most recent plan, or null when none has been saved
+export async function fetchLatestPlan(signal?: AbortSignal): Promise<SavedPlan | null> {
+  const response = await send('/plans/latest', { signal });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`API request failed (${response.status})`);
+  return await response.json() as SavedPlan;
+}
+
+export function createPlan(plan: RoutePlan): Promise<SavedPlan> {
+  return request<SavedPlan>('/plans', { method: 'POST', body: JSON.stringify(plan) });
+}
+
+export function updatePlan(id: number, plan: RoutePlan): Promise<SavedPlan> {
+  return request<SavedPlan>(`/plans/${id}`, { method: 'PUT', body: JSON.stringify(plan) });
+}
+
+export interface AuditFilter {
+  entity?: AuditEntity;
+  entityId?: string;
+  userId?: string;
+  from?: number; // epoch milliseconds
+  to?: number;
+}
+
+// Newest first; the server returns at most 500 entries
+export function fetchAuditLog(filter: AuditFilter, signal?: AbortSignal): Promise<AuditEntry[]> {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return request<AuditEntry[]>(`/audit?${params}`, { signal });
+}
+
+export interface UserInput {
+  username?: string; // new accounts only
+  name: string;
+  role: UserRole;
+  vehicleId?: string; // drivers only
+  areas?: string[]; // supervisors only
+  password?: string; // required for new accounts; resets the password of existing ones
+}
+
+export function signIn(username: string, password: string): Promise<AuthSession> {
+  return request<AuthSession>('/auth/login', { method: 'POST', body: JSON.stringify({ username, password }) });
+}
+
+// The signed-in user as the server knows them now (role or vehicle may have changed)
+export function fetchSession(): Promise<{ user: User }> {
+  return request<{ user: User }>('/auth/session');
+}
+
+export function signOut(): Promise<void> {
+  return request<void>('/auth/logout', { method: 'POST' });
+}
+
+export function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  return request<void>('/auth/password', { method: 'POST', body: JSON.stringify({ currentPassword, newPassword }) });
+}
+
+export function fetchUsers(signal?: AbortSignal): Promise<User[]> {
+  return request<User[]>('/users', { signal });
+}
+
+export function createUser(user: UserInput): Promise<User> {
+  return request<User>('/users', { method: 'POST', body: JSON.stringify(user) });
+}
+
+export function updateUser(id: string, user: UserInput): Promise<User> {
+  return request<User>(`/users/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(user) });
+}
+
+export function deleteUser(id: string): Promise<void> {
+  return request<void>(`/users/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+// The writes that turn `before` into `after`. Entities are compared by
+// reference, which is how DataContext's updates leave unchanged ones.
+export function diffDatabase(before: Database, after: Database): DatabaseChange[] {
+  const changes: DatabaseChange[] = [];
+
+  (Object.keys(COLLECTION_ITEMS) as ApiCollection[]).forEach(collection => {
+    const previous = new Map(COLLECTION_ITEMS[collection](before).map(item => [item.id, item]));
+    const next = COLLECTION_ITEMS[collection](after);
+    if (next === COLLECTION_ITEMS[collection](before)) return;
+
+    next.forEach(item => {
+      if (previous.get(item.id) !== item) changes.push({ op: 'put', collection, item });
+      previous.delete(item.id);
+    });
+    previous.forEach((_item, id) => changes.push({ op: 'delete', collection, id }));
+  });
+
+  return changes;
+}
+
+// Re-applies writes the server has not confirmed yet on top of data fetched from it
+export function applyDatabaseChanges(database: Database, changes: DatabaseChange[]): Database {
+  if (changes.length === 0) return database;
+  const result: Database = {
+    ...database,
+    vehicles: { ...database.vehicles }
+  };
+
+  const setItems: Record<ApiCollection, (items: { id: string }[]) => void> = {
+    bins: items => { result.smartBins = items as Database['smartBins']; },
+    stations: items => { result.compactStations = items as Database['compactStations']; },
+    dumpyards: items => { result.dumpyards = items as Database['dumpyards']; },
+    depots: items => { result.depots = items as Database['depots']; },
+    profiles: items => { result.vehicleProfiles = items as Database['vehicleProfiles']; },
+    trucks: items => { result.vehicles.trucks = items as Database['vehicles']['trucks']; },
+    sats: items => { result.vehicles.sats = items as Database['vehicles']['sats']; }
+  };
+
+  changes.forEach(change => {
+    const items = COLLECTION_ITEMS[change.collection](result);
+    if (change.op === 'delete') {
+      setItems[change.collection](items.filter(item => item.id !== change.id));
+    } else if (items.some(item => item.id === change.item.id)) {
+      setItems[change.collection](items.map(item => item.id === change.item.id ? change.item : item));
+    } else {
+      setItems[change.collection]([...items, change.item]);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,193 @@
+// Capacitated vehicle routing (CVRP) for a single depot
+// Clarke-Wright savings builds the initial trips, then an inter-trip relocate
+// pass moves stops between trips when that shortens the total distance.
+// Stop ordering inside each trip is left to the caller's local search.
+
+export interface CVRPStop {
+  id: string;
+  lat: number;
+  lng: number;
+  demand: number; // kg
+  volume?: number; // m³, only checked when the options set a volumeCapacity
+}
+
+export type CVRPUnassignedReason = 'capacity' | 'stop-limit';
+
+export interface CVRPTrip<T extends CVRPStop> {
+  stops: T[];
+  load: number;
+  volume: number;
+}
+
+export interface CVRPSolution<T extends CVRPStop> {
+  trips: CVRPTrip<T>[];
+  unassigned: { stop: T; reason: CVRPUnassignedReason }[];
+}
+
+export interface CVRPOptions {
+  capacity: number;  // max load per trip (kg)
+  volumeCapacity?: number; // max volume per trip (m³); unlimited when omitted
+  maxStops: number;  // max stops per trip
+  distance: (a: { lat: number; lng: number }, b: { lat: number; lng: number }) => number;
+  maxRelocatePasses?: number;
+}
+
+function tripDistance<T extends CVRPStop>(
+  depot: { lat: number; lng: number },
+  stops: T[],
+  distance: CVRPOptions['distance']
+): number {
+  if (stops.length === 0) return 0;
+  let total = distance(depot, stops[0]);
+  for (let i = 0; i < stops.length - 1; i++) {
+    total += distance(stops[i], stops[i + 1]);
+  }
+  return total + distance(stops[stops.length - 1], depot);
+}
+
+function stopVolume(stop: CVRPStop): number {
+  return stop.volume || 0;
+}
+
+// Clarke-Wright parallel savings algorithm
+function clarkeWright<T extends CVRPStop>(
+  depot: { lat: number; lng: number },
+  stops: T[],
+  { capacity, volumeCapacity = Infinity, maxStops, distance }: CVRPOptions
+): CVRPTrip<T>[] {
+  // Every stop starts on its own trip
+  const trips: (CVRPTrip<T> | null)[] = stops.map(stop => ({ stops: [stop], load: stop.demand, volume: stopVolume(stop) }));
+  const tripOf = stops.map((_, i) => i);
+
+  const savings: { i: number; j: number; value: number }[] = [];
+  for (let i = 0; i < stops.length; i++) {
+    for (let j = i + 1; j < stops.length; j++) {
+      const value = distance(depot, stops[i]) + distance(depot, stops[j]) - distance(stops[i], stops[j]);
+      if (value > 0) savings.push({ i, j, value });
+    }
+  }
+  savings.sort((a, b) => b.value - a.value);
+
+  for (const { i, j } of savings) {
+    const ti = tripOf[i];
+    const tj = tripOf[j];
+    if (ti === tj) continue;
+
+    const a = trips[ti];
+    const b = trips[tj];
+    if (!a || !b) continue;
+    if (a.load + b.load > capacity) continue;
+    if (a.volume + b.volume > volumeCapacity) continue;
+    if (a.stops.length + b.stops.length > maxStops) continue;
+
+    // i and j must both be trip endpoints (adjacent to the depot) to be joined
+    const si = stops[i];
+    const sj = stops[j];
+    const aFirst = a.stops[0] === si;
+    const aLast = a.stops[a.stops.length - 1] === si;
+    const bFirst = b.stops[0] === sj;
+    const bLast = b.stops[b.stops.length - 1] === sj;
+
+    let merged: T[] | null = null;
+    if (aLast && bFirst) merged = [...a.stops, ...b.stops];
+    else if (aFirst && bLast) merged = [...b.stops, ...a.stops];
+    else if (aLast && bLast) merged = [...a.stops, ...[...b.stops].reverse()];
+    else if (aFirst && bFirst) merged = [...[...a.stops].reverse(), ...b.stops];
+    if (!merged) continue;
+
+    trips[ti] = { stops: merged, load: a.load + b.load, volume: a.volume + b.volume };
+    trips[tj] = null;
+    b.stops.forEach(stop => {
+      tripOf[stops.indexOf(stop)] = ti;
+    });
+  }
+
+  return trips.filter((trip): trip is CVRPTrip<T> => trip !== null);
+}
+
+// Move single stops between trips while that reduces total distance
+function relocateBetweenTrips<T extends CVRPStop>(
+  depot: { lat: number; lng: number },
+  trips: CVRPTrip<T>[],
+  { capacity, volumeCapacity = Infinity, maxStops, distance, maxRelocatePasses = 5 }: CVRPOptions
+): CVRPTrip<T>[] {
+  const result = trips.map(trip => ({ stops: [...trip.stops], load: trip.load, volume: trip.volume }));
+
+  for (let pass = 0; pass < maxRelocatePasses; pass++) {
+    let moved = false;
+
+    for (let from = 0; from < result.length; from++) {
+      for (let s = 0; s < result[from].stops.length; s++) {
+        const stop = result[from].stops[s];
+        const withoutStop = result[from].stops.filter((_, idx) => idx !== s);
+        const removalGain = tripDistance(depot, result[from].stops, distance) - tripDistance(depot, withoutStop, distance);
+
+        let bestTo = -1;
+        let bestPos = -1;
+        let bestDelta = 0;
+
+        for (let to = 0; to < result.length; to++) {
+          if (to === from) continue;
+          const target = result[to];
+          if (target.load + stop.demand > capacity || target.stops.length + 1 > maxStops) continue;
+          if (target.volume + stopVolume(stop) > volumeCapacity) continue;
+
+          const baseDist = tripDistance(depot, target.stops, distance);
+          for (let pos = 0; pos <= target.stops.length; pos++) {
+            const inserted = [...target.stops.slice(0, pos), stop, ...target.stops.slice(pos)];
+            const delta = tripDistance(depot, inserted, distance) - baseDist - removalGain;
+            if (delta < bestDelta - 1e-9) {
+              bestDelta = delta;
+              bestTo = to;
+              bestPos = pos;
+            }
+          }
+        }
+
+        if (bestTo >= 0) {
+          const target = result[bestTo];
+          target.stops.splice(bestPos, 0, stop);
+          target.load += stop.demand;
+          target.volume += stopVolume(stop);
+          result[from].stops = withoutStop;
+          result[from].load -= stop.demand;
+          result[from].volume -= stopVolume(stop);
+          moved = true;
+          s--;
+        }
+      }
+    }
+
+    if (!moved) break;
+  }
+
+  return result.filter(trip => trip.stops.length > 0);
+}
+
+// Solve CVRP for stops served from one depot (e.g. bins around a compact station)
+export function solveCVRP<T extends CVRPStop>(
+  depot: { lat: number; lng: number },
+  stops: T[],
+  options: CVRPOptions
+): CVRPSolution<T> {
+  const unassigned: CVRPSolution<T>['unassigned'] = [];
+  const feasible: T[] = [];
+
+  stops.forEach(stop => {
+    if (stop.demand > options.capacity || stopVolume(stop) > (options.volumeCapacity ?? Infinity)) {
+      unassigned.push({ stop, reason: 'capacity' });
+    } else {
+      feasible.push(stop);
+    }
+  });
+
+  if (feasible.length === 0 || options.maxStops < 1) {
+    feasible.forEach(stop => unassigned.push({ stop, reason: 'stop-limit' }));
+    return { trips: [], unassigned };
+  }
+
+  const seeded = clarkeWright(depot, feasible, options);
+  const trips = relocateBetweenTrips(depot, seeded, options);
+
+  return { trips, unassigned };
+}
@@ -0,0 +1,143 @@
+import { RoutingProvider, sleep } from './routingProviders';
+
+// Road-network travel costs for the optimizer. Pairs are fetched in blocks from
+// the routing provider's matrix service and cached; any pair that is missing
+// (no matrix support, server down, unreachable) falls back to haversine.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface TravelCosts {
+  distance(a: LatLng, b: LatLng): number;        // km
+  duration(a: LatLng, b: LatLng): number | null; // minutes, null when only straight-line data exists
+}
+
+export interface DistanceMatrix extends TravelCosts {
+  // Make sure every source -> target pair is loaded before the optimizer asks for it
+  prefetch(sources: LatLng[], targets?: LatLng[]): Promise<void>;
+}
+
+// Haversine distance formula
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a = 
+    Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
+    Math.sin(dLon/2) * Math.sin(dLon/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return R * c;
+}
+
+export const straightLineCosts: TravelCosts = {
+  distance: (a, b) => haversineDistance(a.lat, a.lng, b.lat, b.lng),
+  duration: () => null
+};
+
+// Sources and targets per matrix request (public OSRM allows 100 coordinates)
+const BLOCK_SIZE = 50;
+// Oldest pairs are evicted beyond this many entries
+const MAX_CACHED_PAIRS = 200000;
+
+interface CachedCost {
+  distance: number;
+  duration: number;
+}
+
+// Shared across planning runs so re-planning the same city is cheap
+const pairCache = new Map<string, CachedCost>();
+
+function pointKey(point: LatLng): string {
+  return `${point.lat.toFixed(5)},${point.lng.toFixed(5)}`;
+}
+
+function uniquePoints(points: LatLng[]): LatLng[] {
+  const seen = new Map<string, LatLng>();
+  points.forEach(point => seen.set(pointKey(point), point));
+  return [...seen.values()];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export function clearDistanceMatrixCache() {
+  pairCache.clear();
+}
+
+// Prefetches stop with an AbortError once the signal fires; cached pairs are kept
+export function createDistanceMatrix(provider: RoutingProvider, signal?: AbortSignal): DistanceMatrix {
+  const pairKey = (a: LatLng, b: LatLng) => `${provider.id}|${pointKey(a)}|${pointKey(b)}`;
+  const lookup = (a: LatLng, b: LatLng) => pairCache.get(pairKey(a, b));
+  let failed = false;
+  let requests = 0;
+
+  const store = (a: LatLng, b: LatLng, distance: number | null, duration: number | null) => {
+    if (distance === null || duration === null) return;
+    pairCache.set(pairKey(a, b), { distance, duration });
+    if (pairCache.size > MAX_CACHED_PAIRS) {
+      pairCache.delete(pairCache.keys().next().value!);
+    }
+  };
+
+  return {
+    distance(a, b) {
+      if (pointKey(a) === pointKey(b)) return 0;
+      return lookup(a, b)?.distance ?? straightLineCosts.distance(a, b);
+    },
+
+    duration(a, b) {
+      if (pointKey(a) === pointKey(b)) return 0;
+      return lookup(a, b)?.duration ?? null;
+    },
+
+    async prefetch(sources, targets = sources) {
+      if (!provider.table || failed) return;
+
+      // Only ask for pairs that are not cached yet
+      const uniqueTargets = uniquePoints(targets);
+      const pendingSources = uniquePoints(sources).filter(source =>
+        uniqueTargets.some(target => pointKey(source) !== pointKey(target) && !lookup(source, target))
+      );
+      if (pendingSources.length === 0) return;
+
+      for (const sourceBlock of chunk(pendingSources, BLOCK_SIZE)) {
+        for (const targetBlock of chunk(uniqueTargets, BLOCK_SIZE)) {
+          if (requests > 0 && provider.requestDelayMs > 0) {
+            await sleep(provider.requestDelayMs, signal);
+          }
+          requests++;
+          signal?.throwIfAborted();
+
+          try {
+            const table = await provider.table(
+              sourceBlock.map(p => [p.lat, p.lng] as [number, number]),
+              targetBlock.map(p => [p.lat, p.lng] as [number, number]),
+              signal
+            );
+            if (!table) continue;
+
+            sourceBlock.forEach((source, i) => {
+              targetBlock.forEach((target, j) => {
+                store(source, target, table.distances[i]?.[j] ?? null, table.durations[i]?.[j] ?? null);
+              });
+            });
+          } catch (error) {
+            if (signal?.aborted) throw error;
+            // Don't keep hammering a server that is down; the rest of the run uses straight lines
+            console.warn(`${provider.name} distance matrix unavailable, using straight-line distances:`, error);
+            failed = true;
+            return;
+          }
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,71 @@
+import { CompactStation, Dumpyard, OptimizedRoute } from '@/types';
+
+// Station levels are in kg; dumpyard levels are in tonnes. Route loads are in kg.
+const KG_PER_TONNE = 1000;
+
+export function kgToTonnes(kg: number): number {
+  return kg / KG_PER_TONNE;
+}
+
+// Most a facility may hold before it is treated as full, in its own unit
+export function fillLimit(facility: { capacity: number }, limitPercent: number): number {
+  return facility.capacity * limitPercent / 100;
+}
+
+export interface FacilityFill {
+  id: string;
+  name: string;
+  kind: 'station' | 'dumpyard';
+  unit: 'kg' | 't';
+  capacity: number;
+  current: number;
+  projected: number; // after every planned drop-off and truck pickup
+}
+
+// Waste moved at each stop of a route: positive where it is picked up, negative where it is dropped
+function loadChanges(route: OptimizedRoute): { id: string; type: string; amount: number }[] {
+  let onBoard = 0;
+  return route.route.flatMap(point => {
+    if (point.loadAfter === undefined) return [];
+    const amount = point.loadAfter - onBoard;
+    onBoard = point.loadAfter;
+    return amount !== 0 ? [{ id: point.id, type: point.type, amount }] : [];
+  });
+}
+
+// End-of-day fill of every station and dumpyard if the planned routes are driven:
+// SAT drop-offs fill stations, truck pickups empty them and fill dumpyards
+export function projectFacilityFill(
+  stations: CompactStation[],
+  dumpyards: Dumpyard[],
+  routes: OptimizedRoute[]
+): FacilityFill[] {
+  const moved = new Map<string, number>();
+  routes.forEach(route => {
+    loadChanges(route).forEach(({ id, type, amount }) => {
+      if (type !== 'compact-station' && type !== 'dumpyard') return;
+      moved.set(`${type}|${id}`, (moved.get(`${type}|${id}`) ?? 0) - amount);
+    });
+  });
+
+  return [
+    ...stations.map(station => ({
+      id: station.id,
+      name: station.area ? `${station.id} (${station.area})` : station.id,
+      kind: 'station' as const,
+      unit: 'kg' as const,
+      capacity: station.capacity,
+      current: station.currentLevel,
+      projected: Math.max(0, station.currentLevel + (moved.get(`compact-station|${station.id}`) ?? 0))
+    })),
+    ...dumpyards.map(dumpyard => ({
+      id: dumpyard.id,
+      name: dumpyard.name,
+      kind: 'dumpyard' as const,
+      unit: 't' as const,
+      capacity: dumpyard.capacity,
+      current: dumpyard.currentLevel,
+      projected: dumpyard.currentLevel + kgToTonnes(moved.get(`dumpyard|${dumpyard.id}`) ?? 0)
+    }))
+  ];
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { BinLevelSample, SmartBin } from '@/types';
+import { learnFillModel } from './fillForecast';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date(Date.UTC(2026, 9, 19, 12));
+
+const bin = (currentLevel: number): SmartBin =>
+  ({ id: 'BIN1', lat: 17.4, lng: 78.47, capacity: 240, currentLevel, area: 'Ameerpet', isSmartBin: true });
+
+// Hourly readings ending at `now`
+const readings = (levels: number[], binId = 'BIN1'): BinLevelSample[] => levels.map((level, i) => ({
+  binId,
+  level,
+  at: now.getTime() - (levels.length - 1 - i) * HOUR_MS,
+  source: 'sensor'
+}));
+
+const hoursLater = (hours: number) => new Date(now.getTime() + hours * HOUR_MS);
+
+describe('learnFillModel', () => {
+  it('learns the fill rate from the rises on either side of a collection', () => {
+    // Fills 10% an hour, is emptied between 40% and 5%, then fills again
+    const model = learnFillModel(bin(25), readings([20, 30, 40, 5, 15, 25]), now);
+
+    expect(model.ratePerHour).toBeCloseTo(10);
+    expect(model.samples).toBe(4);
+    expect(model.weekdayFactors).toEqual([1, 1, 1, 1, 1, 1, 1]);
+    expect(model.predictedLevel(hoursLater(3))).toBeCloseTo(55);
+    expect(model.predictedLevel(hoursLater(1.5))).toBeCloseTo(40);
+  });
+
+  it('prefers the last two weeks over older history', () => {
+    const old = readings([0, 2, 4]).map(sample => ({ ...sample, at: sample.at - 30 * 24 * HOUR_MS }));
+    const model = learnFillModel(bin(25), [...old, ...readings([5, 15, 25])], now);
+    expect(model.ratePerHour).toBeCloseTo(10);
+  });
+
+  it('never predicts more than a full bin', () => {
+    const model = learnFillModel(bin(90), readings([70, 80, 90]), now);
+    expect(model.predictedLevel(hoursLater(5))).toBe(100);
+  });
+
+  it('keeps the current level when there is no usable history', () => {
+    // Readings of another bin, and a rise over two days that may hide a collection
+    const unusable = [
+      ...readings([10, 60], 'BIN2'),
+      ...readings([10, 60]).map((sample, i) => ({ ...sample, at: sample.at - (1 - i) * 48 * HOUR_MS }))
+    ];
+    for (const samples of [[], unusable]) {
+      const model = learnFillModel(bin(40), samples, now);
+      expect(model.ratePerHour).toBe(0);
+      expect(model.samples).toBe(0);
+      expect(model.predictedLevel(hoursLater(12))).toBe(40);
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { BinLevelSample, SmartBin } from '@/types';
+
+// Fill-level forecasting: each bin gets a fill rate learned from its level
+// history (moving average over recent days, scaled per weekday) and is
+// projected forward from its current level.
+
+const HOUR_MS = 60 * 60 * 1000;
+// Recent history the base fill rate is averaged over
+const RATE_WINDOW_MS = 14 * 24 * HOUR_MS;
+// Readings further apart than this are not trusted to contain a single fill trend
+const MAX_INTERVAL_MS = 24 * HOUR_MS;
+
+export interface BinFillModel {
+  binId: string;
+  ratePerHour: number;      // % per hour, averaged over the recent window
+  weekdayFactors: number[]; // 0 = Sunday ... 6 = Saturday; 1 where the weekday has no data
+  samples: number;          // readings the model was learned from
+  predictedLevel(at: Date): number;
+}
+
+interface Interval {
+  start: number; // epoch ms
+  hours: number;
+  rise: number;  // % gained
+}
+
+// Intervals between consecutive readings while the bin was filling; a drop means it was emptied
+function fillIntervals(samples: BinLevelSample[]): Interval[] {
+  const sorted = [...samples].sort((a, b) => a.at - b.at);
+  const intervals: Interval[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const next = sorted[i];
+    const elapsed = next.at - prev.at;
+    if (elapsed <= 0 || elapsed > MAX_INTERVAL_MS || next.level < prev.level) continue;
+    intervals.push({ start: prev.at, hours: elapsed / HOUR_MS, rise: next.level - prev.level });
+  }
+
+  return intervals;
+}
+
+function averageRate(intervals: Interval[]): number | null {
+  const hours = intervals.reduce((sum, interval) => sum + interval.hours, 0);
+  return hours > 0 ? intervals.reduce((sum, interval) => sum + interval.rise, 0) / hours : null;
+}
+
+// Learn a bin's fill model; `now` is when `bin.currentLevel` was read
+export function learnFillModel(bin: SmartBin, samples: BinLevelSample[], now = new Date()): BinFillModel {
+  const intervals = fillIntervals(samples.filter(sample => sample.binId === bin.id));
+  const recent = intervals.filter(interval => interval.start >= now.getTime() - RATE_WINDOW_MS);
+  const overall = averageRate(intervals) ?? 0;
+  const ratePerHour = averageRate(recent) ?? overall;
+
+  const weekdayFactors = Array.from({ length: 7 }, (_, day) => {
+    const rate = averageRate(intervals.filter(interval => new Date(interval.start).getDay() === day));
+    return rate !== null && overall > 0 ? rate / overall : 1;
+  });
+
+  return {
+    binId: bin.id,
+    ratePerHour,
+    weekdayFactors,
+    samples: intervals.length,
+    predictedLevel(at: Date) {
+      let level = bin.currentLevel;
+      let time = now.getTime();
+      const end = at.getTime();
+
+      // Step hour by hour so each hour fills at its weekday's rate
+      while (time < end && level < 100) {
+        const step = Math.min(HOUR_MS, end - time);
+        level += ratePerHour * weekdayFactors[new Date(time).getDay()] * (step / HOUR_MS);
+        time += step;
+      }
+
+      return Math.min(100, Math.max(0, level));
+    }
+  };
+}
+
+export function learnFillModels(bins: SmartBin[], samples: BinLevelSample[], now = new Date()): Map<string, BinFillModel> {
+  const byBin = new Map<string, BinLevelSample[]>();
+  samples.forEach(sample => {
+    if (!byBin.has(sample.binId)) byBin.set(sample.binId, []);
+    byBin.get(sample.binId)!.push(sample);
+  });
+
+  return new Map(bins.map(bin => [bin.id, learnFillModel(bin, byBin.get(bin.id) ?? [], now)]));
+}
@@ -0,0 +1,56 @@
+// Minimal promise wrappers around the browser's IndexedDB. All object stores of
+// the app live in one database; add new stores here and bump DB_VERSION.
+
+const DB_NAME = 'ajastra';
+const DB_VERSION = 2;
+
+export const STORES = {
+  roadRoutes: 'road-routes',
+  binLevels: 'bin-levels'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openAppDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.roadRoutes)) {
+          const store = db.createObjectStore(STORES.roadRoutes, { keyPath: 'key' });
+          store.createIndex('storedAt', 'storedAt');
+        }
+        if (!db.objectStoreNames.contains(STORES.binLevels)) {
+          const store = db.createObjectStore(STORES.binLevels, { autoIncrement: true });
+          store.createIndex('binId', 'binId');
+          store.createIndex('at', 'at');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
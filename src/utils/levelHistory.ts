@@ -0,0 +1,82 @@
+import { BinLevelSample } from '@/types';
+import { openAppDatabase, requestToPromise, STORES, isIndexedDbAvailable } from './indexedDb';
+
+// Timestamped fill-level readings of every bin, kept so levels can be charted
+// and fill rates learned. Old readings are dropped by age and by total count.
+
+export const LEVEL_HISTORY_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+export const LEVEL_HISTORY_MAX_SAMPLES = 50000;
+
+// Delete entries from the 'at' index in ascending order while `shouldDelete` holds
+function deleteOldest(store: IDBObjectStore, shouldDelete: (sample: BinLevelSample) => boolean): Promise<void> {
+  const cursorRequest = store.index('at').openCursor();
+  return new Promise<void>((resolve, reject) => {
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || !shouldDelete(cursor.value as BinLevelSample)) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+}
+
+export async function recordBinLevels(samples: BinLevelSample[]): Promise<void> {
+  if (!isIndexedDbAvailable() || samples.length === 0) return;
+
+  try {
+    const db = await openAppDatabase();
+    const store = db.transaction(STORES.binLevels, 'readwrite').objectStore(STORES.binLevels);
+    for (const sample of samples) {
+      await requestToPromise(store.add(sample));
+    }
+
+    const cutoff = Date.now() - LEVEL_HISTORY_MAX_AGE_MS;
+    await deleteOldest(store, sample => sample.at < cutoff);
+
+    let excess = (await requestToPromise(store.count())) - LEVEL_HISTORY_MAX_SAMPLES;
+    if (excess > 0) await deleteOldest(store, () => excess-- > 0);
+  } catch (error) {
+    console.warn('Level history write failed:', error);
+  }
+}
+
+// Readings of one bin, oldest first
+export async function getBinLevelHistory(binId: string): Promise<BinLevelSample[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    const db = await openAppDatabase();
+    const store = db.transaction(STORES.binLevels, 'readonly').objectStore(STORES.binLevels);
+    const samples = await requestToPromise(store.index('binId').getAll(binId)) as BinLevelSample[];
+    return samples.sort((a, b) => a.at - b.at);
+  } catch (error) {
+    console.warn('Level history read failed:', error);
+    return [];
+  }
+}
+
+// Readings of every bin, oldest first
+export async function getAllBinLevelHistory(): Promise<BinLevelSample[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    const db = await openAppDatabase();
+    const store = db.transaction(STORES.binLevels, 'readonly').objectStore(STORES.binLevels);
+    return await requestToPromise(store.index('at').getAll()) as BinLevelSample[];
+  } catch (error) {
+    console.warn('Level history read failed:', error);
+    return [];
+  }
+}
+
+export async function clearBinLevelHistory(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  const db = await openAppDatabase();
+  const store = db.transaction(STORES.binLevels, 'readwrite').objectStore(STORES.binLevels);
+  await requestToPromise(store.clear());
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { improveTour } from './localSearch';
+import { SchedulableStop, schedulePath } from './schedule';
+
+// Stops on a grid where one unit is one km and one minute of driving
+
+interface Stop extends SchedulableStop {
+  id: string;
+  demand: number;
+}
+
+const stop = (id: string, lat: number, lng: number, extra: Partial<Stop> = {}): Stop =>
+  ({ id, lat, lng, demand: 100, ...extra });
+
+const depot = stop('DEPOT', 0, 0, { demand: 0 });
+const distance = (a: SchedulableStop, b: SchedulableStop) => Math.hypot(a.lat - b.lat, a.lng - b.lng);
+const length = (tour: Stop[]) => {
+  const path = [depot, ...tour, depot];
+  return path.slice(1).reduce((sum, point, i) => sum + distance(path[i], point), 0);
+};
+const lateness = (tour: Stop[], startClock: number) =>
+  schedulePath([depot, ...tour, depot], startClock, (a, b) => distance(a, b)).totalLateness;
+
+const ids = (tour: Stop[]) => tour.map(s => s.id);
+const sorted = (tour: Stop[]) => [...ids(tour)].sort();
+const load = (tour: Stop[]) => tour.reduce((sum, s) => sum + s.demand, 0);
+
+describe('improveTour', () => {
+  // A loop around a square, visited in a criss-crossing order
+  const square = [
+    stop('A', 0, 5), stop('C', 5, 0), stop('B', 5, 5), stop('E', 2, 5), stop('D', 5, 2), stop('F', 0, 2)
+  ];
+
+  it('never lengthens the tour and keeps every stop exactly once', () => {
+    const result = improveTour(square, length, { maxIterations: 1000, timeLimitMs: 1000 });
+
+    expect(result.initialCost).toBeCloseTo(length(square));
+    expect(result.finalCost).toBeCloseTo(length(result.tour));
+    expect(result.finalCost).toBeLessThan(result.initialCost);
+    expect(sorted(result.tour)).toEqual(sorted(square));
+    expect(load(result.tour)).toBe(load(square));
+    // The square is walked around without crossing itself
+    expect([ids(result.tour), [...ids(result.tour)].reverse()]).toContainEqual(['F', 'A', 'E', 'B', 'D', 'C']);
+  });
+
+  it('stops after the iteration budget without making things worse', () => {
+    const result = improveTour(square, length, { maxIterations: 1, timeLimitMs: 1000 });
+
+    expect(result.iterations).toBe(1);
+    expect(result.finalCost).toBeLessThanOrEqual(result.initialCost);
+    expect(sorted(result.tour)).toEqual(sorted(square));
+  });
+
+  it('keeps a feasible tour inside its service windows when lateness is penalised', () => {
+    // The far stop must be served first even though the near ones are on the way
+    const startClock = 6 * 60;
+    const tour = [
+      stop('FAR', 0, 20, { serviceWindow: { start: '06:00', end: '06:20' }, serviceMinutes: 5 }),
+      stop('NEAR1', 0, 2, { serviceMinutes: 5 }),
+      stop('NEAR2', 0, 4, { serviceMinutes: 5 }),
+      stop('NEAR3', 0, 6, { serviceMinutes: 5 })
+    ];
+    const cost = (candidate: Stop[]) => length(candidate) + 1000 * lateness(candidate, startClock);
+    expect(lateness(tour, startClock)).toBe(0);
+
+    const result = improveTour(tour, cost, { maxIterations: 1000, timeLimitMs: 1000 });
+
+    expect(result.finalCost).toBeLessThanOrEqual(result.initialCost);
+    expect(lateness(result.tour, startClock)).toBe(0);
+    expect(ids(result.tour)[0]).toBe('FAR');
+    expect(sorted(result.tour)).toEqual(sorted(tour));
+  });
+});
@@ -0,0 +1,107 @@
+// Local search improvement for stop sequences (2-opt, Or-opt, relocate)
+// Works on any tour representation: the caller supplies the cost function,
+// so start/end depots, distance matrices or penalties stay outside this module.
+
+export interface LocalSearchOptions {
+  maxIterations: number; // max number of accepted improving moves
+  timeLimitMs: number;   // wall-clock budget per tour
+}
+
+export const DEFAULT_LOCAL_SEARCH_OPTIONS: LocalSearchOptions = {
+  maxIterations: 1000,
+  timeLimitMs: 50
+};
+
+export interface LocalSearchResult<T> {
+  tour: T[];
+  initialCost: number;
+  finalCost: number;
+  iterations: number;
+}
+
+const EPSILON = 1e-9;
+
+// Reverse the segment [i, j] (2-opt move)
+function twoOptMove<T>(tour: T[], i: number, j: number): T[] {
+  return [
+    ...tour.slice(0, i),
+    ...tour.slice(i, j + 1).reverse(),
+    ...tour.slice(j + 1)
+  ];
+}
+
+// Move the segment [i, i + length) so that it starts at position `to`
+// in the tour with the segment removed (Or-opt / relocate move)
+function segmentMove<T>(tour: T[], i: number, length: number, to: number): T[] {
+  const segment = tour.slice(i, i + length);
+  const rest = [...tour.slice(0, i), ...tour.slice(i + length)];
+  return [...rest.slice(0, to), ...segment, ...rest.slice(to)];
+}
+
+// Improve a tour with first-improvement local search until no move helps
+// or the iteration/time budget is exhausted
+export function improveTour<T>(
+  tour: T[],
+  cost: (tour: T[]) => number,
+  options: Partial<LocalSearchOptions> = {}
+): LocalSearchResult<T> {
+  const { maxIterations, timeLimitMs } = { ...DEFAULT_LOCAL_SEARCH_OPTIONS, ...options };
+  const initialCost = cost(tour);
+
+  let best = [...tour];
+  let bestCost = initialCost;
+  let iterations = 0;
+
+  if (tour.length < 2) {
+    return { tour: best, initialCost, finalCost: bestCost, iterations };
+  }
+
+  const deadline = Date.now() + timeLimitMs;
+  const outOfBudget = () => iterations >= maxIterations || Date.now() > deadline;
+
+  const tryCandidate = (candidate: T[]): boolean => {
+    const candidateCost = cost(candidate);
+    if (candidateCost < bestCost - EPSILON) {
+      best = candidate;
+      bestCost = candidateCost;
+      iterations++;
+      return true;
+    }
+    return false;
+  };
+
+  let improved = true;
+  while (improved && !outOfBudget()) {
+    improved = false;
+    const n = best.length;
+
+    // 2-opt: remove crossings by reversing a segment
+    for (let i = 0; i < n - 1 && !improved && !outOfBudget(); i++) {
+      for (let j = i + 1; j < n && !improved; j++) {
+        improved = tryCandidate(twoOptMove(best, i, j));
+      }
+    }
+    if (improved) continue;
+
+    // Or-opt: move chains of 2-3 consecutive stops elsewhere
+    for (let length = 3; length >= 2 && !improved; length--) {
+      for (let i = 0; i + length <= n && !improved && !outOfBudget(); i++) {
+        for (let to = 0; to <= n - length && !improved; to++) {
+          if (to === i) continue;
+          improved = tryCandidate(segmentMove(best, i, length, to));
+        }
+      }
+    }
+    if (improved) continue;
+
+    // Relocate: move a single stop elsewhere
+    for (let i = 0; i < n && !improved && !outOfBudget(); i++) {
+      for (let to = 0; to < n && !improved; to++) {
+        if (to === i) continue;
+        improved = tryCandidate(segmentMove(best, i, 1, to));
+      }
+    }
+  }
+
+  return { tour: best, initialCost, finalCost: bestCost, iterations };
+}
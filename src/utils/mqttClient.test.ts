@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MqttSessionHandlers, startMqttSession, TelemetrySocket } from './mqttClient';
+
+// Frames as a broker sends them, written out byte by byte; strings stand for their UTF-8 bytes
+function frame(...parts: (number[] | string)[]): Uint8Array {
+  return new Uint8Array(parts.flatMap(part => (typeof part === 'string' ? [...new TextEncoder().encode(part)] : part)));
+}
+
+const CONNACK_ACCEPTED = frame([0x20, 0x02, 0x00, 0x00]);
+const SUBACK_QOS1 = frame([0x90, 0x03, 0x00, 0x01, 0x01]);
+
+function fakeSocket() {
+  const sent: number[][] = [];
+  const socket: TelemetrySocket = {
+    binaryType: 'blob',
+    send: data => sent.push([...(data as Uint8Array)]),
+    close: vi.fn(),
+    onopen: null,
+    onmessage: null,
+    onerror: null,
+    onclose: null
+  };
+  const receive = (...frames: Uint8Array[]) => frames.forEach(data => socket.onmessage!({ data: data.buffer }));
+  return { socket, sent, receive };
+}
+
+function handlers(): MqttSessionHandlers & { messages: [string, string][]; errors: string[] } {
+  const messages: [string, string][] = [];
+  const errors: string[] = [];
+  return {
+    messages,
+    errors,
+    onSubscribed: vi.fn(),
+    onMessage: (topic, payload) => messages.push([topic, payload]),
+    onError: error => errors.push(error.message)
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('startMqttSession', () => {
+  it('connects with credentials, subscribes once accepted and pings at half the keep-alive', () => {
+    vi.useFakeTimers();
+    const { socket, sent, receive } = fakeSocket();
+    const session = handlers();
+    const end = startMqttSession(socket, { clientId: 'c1', topic: 'bins/+/telemetry', username: 'u', password: 'p' }, session);
+
+    expect(sent).toEqual([[
+      0x10, 0x14,                          // CONNECT, 20 bytes
+      0x00, 0x04, ...'MQTT'.split('').map(c => c.charCodeAt(0)),
+      0x04,                                // protocol level 3.1.1
+      0xc2,                                // user name, password, clean session
+      0x00, 0x1e,                          // keep-alive 30 s
+      0x00, 0x02, 0x63, 0x31,              // "c1"
+      0x00, 0x01, 0x75,                    // "u"
+      0x00, 0x01, 0x70                     // "p"
+    ]]);
+
+    receive(CONNACK_ACCEPTED);
+    expect(sent[1]).toEqual([...frame([0x82, 0x15, 0x00, 0x01, 0x00, 0x10], 'bins/+/telemetry', [0x01])]);
+    expect(session.onSubscribed).not.toHaveBeenCalled();
+
+    receive(SUBACK_QOS1);
+    expect(session.onSubscribed).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(15000);
+    expect(sent[2]).toEqual([0xc0, 0x00]);
+
+    end();
+    expect(sent[3]).toEqual([0xe0, 0x00]);
+    vi.advanceTimersByTime(60000);
+    expect(sent).toHaveLength(4);
+  });
+
+  it('writes remaining lengths above 127 as a two-byte varint', () => {
+    const { socket, sent } = fakeSocket();
+    startMqttSession(socket, { clientId: 'c'.repeat(200), topic: 't' }, handlers());
+
+    // 10 bytes of header fields and 202 of client id: 212 = 0x54 + 1 × 128
+    expect(sent[0].slice(0, 3)).toEqual([0x10, 0xd4, 0x01]);
+    expect(sent[0]).toHaveLength(3 + 212);
+  });
+
+  it('reassembles a publish split across frames, even inside its length, and acknowledges QoS 1', () => {
+    const { socket, sent, receive } = fakeSocket();
+    const session = handlers();
+    startMqttSession(socket, { clientId: 'c1', topic: 'bins/+/telemetry' }, session);
+    receive(CONNACK_ACCEPTED, SUBACK_QOS1);
+
+    const payload = JSON.stringify({ binId: 'SB001', level: 72, battery: 88, firmware: '1.4.2'.padEnd(120, ' '), timestamp: 1 });
+    const topic = 'bins/SB001/telemetry';
+    const length = 2 + topic.length + 2 + payload.length;
+    const publish = frame([0x32, (length % 128) | 0x80, length >> 7, 0x00, topic.length], topic, [0x12, 0x34], payload);
+
+    receive(publish.slice(0, 2), publish.slice(2, 30));
+    expect(session.messages).toEqual([]);
+    receive(publish.slice(30));
+
+    expect(session.messages).toEqual([[topic, payload]]);
+    expect(sent.at(-1)).toEqual([0x40, 0x02, 0x12, 0x34]);
+  });
+
+  it('reads several QoS 0 publishes from one frame without acknowledging them', () => {
+    const { socket, sent, receive } = fakeSocket();
+    const session = handlers();
+    startMqttSession(socket, { clientId: 'c1', topic: 'bins/#' }, session);
+    receive(CONNACK_ACCEPTED, SUBACK_QOS1);
+    const sentBefore = sent.length;
+
+    receive(frame([0x30, 0x05, 0x00, 0x01], 'a', '{}', [0x30, 0x06, 0x00, 0x01], 'b', '[1]', [0xd0, 0x00]));
+
+    expect(session.messages).toEqual([['a', '{}'], ['b', '[1]']]);
+    expect(sent).toHaveLength(sentBefore);
+  });
+
+  it('reports a refused connection or subscription', () => {
+    const refused = fakeSocket();
+    const refusedSession = handlers();
+    startMqttSession(refused.socket, { clientId: 'c1', topic: 't' }, refusedSession);
+    refused.receive(frame([0x20, 0x02, 0x00, 0x05]));
+
+    expect(refusedSession.errors).toEqual(['MQTT connection refused: not authorized']);
+    expect(refused.sent).toHaveLength(1); // no SUBSCRIBE
+
+    const rejected = fakeSocket();
+    const rejectedSession = handlers();
+    startMqttSession(rejected.socket, { clientId: 'c1', topic: 't' }, rejectedSession);
+    rejected.receive(CONNACK_ACCEPTED, frame([0x90, 0x03, 0x00, 0x01, 0x80]));
+
+    expect(rejectedSession.errors).toEqual(['MQTT subscription to t was refused']);
+    expect(rejectedSession.onSubscribed).not.toHaveBeenCalled();
+  });
+});
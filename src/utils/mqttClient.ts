@@ -0,0 +1,200 @@
+// Minimal MQTT 3.1.1 subscriber over a WebSocket: CONNECT, SUBSCRIBE and
+// keep-alive, then incoming PUBLISH packets (QoS 0 and 1). Enough to read
+// telemetry from a broker's WebSocket listener without a client library.
+
+// The subset of the browser WebSocket used by telemetry, so tests can pass a mock
+export interface TelemetrySocket {
+  binaryType: BinaryType;
+  send(data: string | ArrayBuffer | Uint8Array): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+}
+
+export interface MqttSessionOptions {
+  clientId: string;
+  topic: string;
+  username?: string;
+  password?: string;
+  keepAliveSeconds?: number;
+}
+
+export interface MqttSessionHandlers {
+  onSubscribed: () => void;
+  onMessage: (topic: string, payload: string) => void;
+  onError: (error: Error) => void;
+}
+
+const CONNECT = 1;
+const CONNACK = 2;
+const PUBLISH = 3;
+const PUBACK = 4;
+const SUBSCRIBE = 8;
+const SUBACK = 9;
+const PINGREQ = 12;
+const PINGRESP = 13;
+const DISCONNECT = 14;
+
+const SUBSCRIBE_PACKET_ID = 1;
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'unacceptable protocol version',
+  2: 'client id rejected',
+  3: 'server unavailable',
+  4: 'bad user name or password',
+  5: 'not authorized'
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function encodeString(value: string): number[] {
+  const bytes = encoder.encode(value);
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+}
+
+function encodeRemainingLength(length: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+}
+
+function packet(type: number, flags: number, body: number[]): Uint8Array {
+  return new Uint8Array([(type << 4) | flags, ...encodeRemainingLength(body.length), ...body]);
+}
+
+function connectPacket(options: MqttSessionOptions, keepAlive: number): Uint8Array {
+  let flags = 0x02; // clean session
+  if (options.username) flags |= 0x80;
+  if (options.username && options.password) flags |= 0x40;
+
+  return packet(CONNECT, 0, [
+    ...encodeString('MQTT'),
+    4, // protocol level 3.1.1
+    flags,
+    keepAlive >> 8, keepAlive & 0xff,
+    ...encodeString(options.clientId),
+    ...(options.username ? encodeString(options.username) : []),
+    ...(options.username && options.password ? encodeString(options.password) : [])
+  ]);
+}
+
+function subscribePacket(topic: string): Uint8Array {
+  return packet(SUBSCRIBE, 0x02, [
+    SUBSCRIBE_PACKET_ID >> 8, SUBSCRIBE_PACKET_ID & 0xff,
+    ...encodeString(topic),
+    1 // QoS 1, so the broker keeps messages while the subscription is being set up
+  ]);
+}
+
+function toBytes(data: unknown): Uint8Array | null {
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return null;
+}
+
+// Splits complete packets off the front of `buffer`; returns them and the unread remainder
+function readPackets(buffer: Uint8Array): { packets: { header: number; body: Uint8Array }[]; rest: Uint8Array } {
+  const packets: { header: number; body: Uint8Array }[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    let length = 0;
+    let multiplier = 1;
+    let index = offset + 1;
+    let complete = false;
+    while (index < buffer.length && index < offset + 5) {
+      const byte = buffer[index++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+      if ((byte & 0x80) === 0) {
+        complete = true;
+        break;
+      }
+    }
+    if (!complete || index + length > buffer.length) break;
+
+    packets.push({ header: buffer[offset], body: buffer.subarray(index, index + length) });
+    offset = index + length;
+  }
+
+  return { packets, rest: buffer.slice(offset) };
+}
+
+// Runs an MQTT session on a socket that has just opened. Returns a function that
+// ends the session; the caller still owns and closes the socket.
+export function startMqttSession(
+  socket: TelemetrySocket,
+  options: MqttSessionOptions,
+  handlers: MqttSessionHandlers
+): () => void {
+  const keepAlive = options.keepAliveSeconds ?? 30;
+  let buffer = new Uint8Array(0);
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  const handlePacket = (header: number, body: Uint8Array) => {
+    switch (header >> 4) {
+      case CONNACK:
+        if (body[1] !== 0) {
+          handlers.onError(new Error(`MQTT connection refused: ${CONNACK_ERRORS[body[1]] ?? `code ${body[1]}`}`));
+          return;
+        }
+        socket.send(subscribePacket(options.topic));
+        pingTimer = setInterval(() => socket.send(packet(PINGREQ, 0, [])), keepAlive * 1000 / 2);
+        break;
+      case SUBACK:
+        if (body[2] === 0x80) {
+          handlers.onError(new Error(`MQTT subscription to ${options.topic} was refused`));
+          return;
+        }
+        handlers.onSubscribed();
+        break;
+      case PUBLISH: {
+        const qos = (header >> 1) & 0x03;
+        const topicLength = (body[0] << 8) | body[1];
+        const topic = decoder.decode(body.subarray(2, 2 + topicLength));
+        let offset = 2 + topicLength;
+        if (qos > 0) {
+          socket.send(packet(PUBACK, 0, [body[offset], body[offset + 1]]));
+          offset += 2;
+        }
+        handlers.onMessage(topic, decoder.decode(body.subarray(offset)));
+        break;
+      }
+      case PINGRESP:
+        break;
+    }
+  };
+
+  socket.onmessage = (event) => {
+    const bytes = toBytes(event.data);
+    if (!bytes) return;
+
+    const combined = new Uint8Array(buffer.length + bytes.length);
+    combined.set(buffer);
+    combined.set(bytes, buffer.length);
+
+    const { packets, rest } = readPackets(combined);
+    buffer = rest;
+    packets.forEach(({ header, body }) => handlePacket(header, body));
+  };
+
+  socket.send(connectPacket(options, keepAlive));
+
+  return () => {
+    if (pingTimer) clearInterval(pingTimer);
+    socket.onmessage = null;
+    try {
+      socket.send(packet(DISCONNECT, 0, []));
+    } catch {
+      // The socket may already be closed
+    }
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PlanningConfig } from '@/types';
+import { DEFAULT_PLANNING_CONFIG, normalizePlanningConfig, validatePlanningConfig } from './planningConfig';
+
+// Stored configs come from localStorage, so their fields can be of any type
+const config = (changes: Record<string, unknown>) => ({ ...DEFAULT_PLANNING_CONFIG, ...changes }) as PlanningConfig;
+
+describe('validatePlanningConfig', () => {
+  it('accepts the defaults and the ends of each range', () => {
+    expect(validatePlanningConfig(DEFAULT_PLANNING_CONFIG)).toEqual({});
+    expect(validatePlanningConfig(config({ maxStopsPerSat: 1, shiftLengthMinutes: 1440, collectionThreshold: 0 }))).toEqual({});
+  });
+
+  it('rejects values out of range and fractions where whole numbers are needed', () => {
+    expect(validatePlanningConfig(config({ maxStopsPerSat: 0, shiftLengthMinutes: 1441, binWeightFactor: 0.001 }))).toEqual({
+      maxStopsPerSat: 'Must be between 1 and 200',
+      shiftLengthMinutes: 'Must be between 30 and 1440',
+      binWeightFactor: 'Must be between 0.01 and 10'
+    });
+    expect(validatePlanningConfig(config({ unloadMinutes: 2.5, smartBinServiceMinutes: 2.5 }))).toEqual({
+      unloadMinutes: 'Must be a whole number'
+    });
+  });
+
+  it('rejects non-numeric and missing fields', () => {
+    const { satSpeedOffPeak: _, ...missing } = DEFAULT_PLANNING_CONFIG;
+    expect(validatePlanningConfig(config({ maxStopsPerSat: '20', collectionThreshold: NaN, unloadMinutes: null }))).toEqual({
+      maxStopsPerSat: 'Must be a number',
+      collectionThreshold: 'Must be a number',
+      unloadMinutes: 'Must be a number'
+    });
+    expect(validatePlanningConfig(missing as PlanningConfig)).toEqual({ satSpeedOffPeak: 'Must be a number' });
+  });
+
+  it('rejects shift starts that are not a time of day', () => {
+    for (const shiftStart of ['24:00', '6am', '', 360]) {
+      expect(validatePlanningConfig(config({ shiftStart }))).toEqual({ shiftStart: 'Must be a time (HH:MM)' });
+    }
+  });
+});
+
+describe('normalizePlanningConfig', () => {
+  it('falls back to the defaults when there is nothing stored', () => {
+    expect(normalizePlanningConfig(undefined)).toEqual(DEFAULT_PLANNING_CONFIG);
+    expect(normalizePlanningConfig(null)).toEqual(DEFAULT_PLANNING_CONFIG);
+  });
+
+  it('keeps valid fields and resets only the invalid ones to their defaults', () => {
+    const stored = { maxStopsPerSat: 12, shiftStart: '05:30', shiftLengthMinutes: 5, unloadMinutes: 'ten', satSpeedOffPeak: undefined };
+    expect(normalizePlanningConfig(stored as unknown as Partial<PlanningConfig>)).toEqual({
+      ...DEFAULT_PLANNING_CONFIG,
+      maxStopsPerSat: 12,
+      shiftStart: '05:30'
+    });
+  });
+
+  it('drops fields that are no longer part of the config', () => {
+    const stored = { ...DEFAULT_PLANNING_CONFIG, retiredSetting: true };
+    expect(normalizePlanningConfig(stored)).toEqual(DEFAULT_PLANNING_CONFIG);
+  });
+});
@@ -0,0 +1,83 @@
+import { PlanningConfig } from '@/types';
+import { parseClock } from './schedule';
+
+export const DEFAULT_PLANNING_CONFIG: PlanningConfig = {
+  maxStopsPerSat: 20,
+  maxStationsPerTruck: 2,
+  collectionThreshold: 30,
+  facilityFillLimit: 95,
+  binWeightFactor: 0.5,
+  satSpeedOffPeak: 25,
+  truckSpeedOffPeak: 35,
+  shiftLengthMinutes: 480,
+  unloadMinutes: 10,
+  smartBinServiceMinutes: 2,
+  regularBinServiceMinutes: 4,
+  stationLoadingMinutes: 15,
+  shiftStart: '06:00',
+  localSearchIterations: 1000,
+  localSearchTimeMs: 50
+};
+
+type ConfigKey = keyof PlanningConfig;
+type NumericConfigKey = Exclude<ConfigKey, 'shiftStart'>;
+
+// Allowed range per numeric field; integers are enforced for counts and minutes
+const LIMITS: Record<NumericConfigKey, { min: number; max: number; integer?: boolean }> = {
+  maxStopsPerSat: { min: 1, max: 200, integer: true },
+  maxStationsPerTruck: { min: 1, max: 20, integer: true },
+  collectionThreshold: { min: 0, max: 100 },
+  facilityFillLimit: { min: 1, max: 100 },
+  binWeightFactor: { min: 0.01, max: 10 },
+  satSpeedOffPeak: { min: 1, max: 120 },
+  truckSpeedOffPeak: { min: 1, max: 120 },
+  shiftLengthMinutes: { min: 30, max: 1440, integer: true },
+  unloadMinutes: { min: 0, max: 240, integer: true },
+  smartBinServiceMinutes: { min: 0, max: 60 },
+  regularBinServiceMinutes: { min: 0, max: 60 },
+  stationLoadingMinutes: { min: 0, max: 240, integer: true },
+  localSearchIterations: { min: 0, max: 100000, integer: true },
+  localSearchTimeMs: { min: 0, max: 10000, integer: true }
+};
+
+// Returns a message per invalid field; empty object when the config is valid
+export function validatePlanningConfig(config: PlanningConfig): Partial<Record<ConfigKey, string>> {
+  const errors: Partial<Record<ConfigKey, string>> = {};
+
+  (Object.keys(LIMITS) as NumericConfigKey[]).forEach(key => {
+    const value = config[key];
+    const { min, max, integer } = LIMITS[key];
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors[key] = 'Must be a number';
+    } else if (value < min || value > max) {
+      errors[key] = `Must be between ${min} and ${max}`;
+    } else if (integer && !Number.isInteger(value)) {
+      errors[key] = 'Must be a whole number';
+    }
+  });
+
+  if (typeof config.shiftStart !== 'string' || parseClock(config.shiftStart) === null) {
+    errors.shiftStart = 'Must be a time (HH:MM)';
+  }
+
+  return errors;
+}
+
+// Fill missing or malformed fields (e.g. from an older stored config) with defaults;
+// fields that no longer exist are dropped
+export function normalizePlanningConfig(config?: Partial<PlanningConfig> | null): PlanningConfig {
+  const merged = { ...DEFAULT_PLANNING_CONFIG };
+  (Object.keys(DEFAULT_PLANNING_CONFIG) as ConfigKey[]).forEach(key => {
+    if (config && config[key] !== undefined) {
+      (merged as Record<ConfigKey, unknown>)[key] = config[key];
+    }
+  });
+  const errors = validatePlanningConfig(merged);
+
+  (Object.keys(errors) as ConfigKey[]).forEach(key => {
+    (merged as Record<ConfigKey, unknown>)[key] = DEFAULT_PLANNING_CONFIG[key];
+  });
+
+  return merged;
+}
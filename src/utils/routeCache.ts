@@ -0,0 +1,99 @@
+import { RoadRoute } from './routingProviders';
+import { openAppDatabase, requestToPromise, STORES, isIndexedDbAvailable } from './indexedDb';
+
+// Persistent cache of road geometries and leg durations, keyed by routing
+// server + ordered stop coordinates, so identical trips skip the network.
+
+export const ROUTE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const ROUTE_CACHE_MAX_ENTRIES = 1000;
+
+interface CachedRoadRoute {
+  key: string;
+  route: RoadRoute;
+  storedAt: number; // ms epoch
+}
+
+function cacheKey(providerId: string, coordinates: [number, number][]): string {
+  return `${providerId}|${coordinates.map(([lat, lng]) => `${lat.toFixed(5)},${lng.toFixed(5)}`).join(';')}`;
+}
+
+export async function getCachedRoadRoute(
+  providerId: string,
+  coordinates: [number, number][]
+): Promise<RoadRoute | null> {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    const db = await openAppDatabase();
+    const store = db.transaction(STORES.roadRoutes, 'readwrite').objectStore(STORES.roadRoutes);
+    const key = cacheKey(providerId, coordinates);
+    const entry = await requestToPromise(store.get(key)) as CachedRoadRoute | undefined;
+
+    if (!entry) return null;
+    if (Date.now() - entry.storedAt > ROUTE_CACHE_TTL_MS) {
+      await requestToPromise(store.delete(key));
+      return null;
+    }
+    return entry.route;
+  } catch (error) {
+    console.warn('Route cache read failed:', error);
+    return null;
+  }
+}
+
+export async function putCachedRoadRoute(
+  providerId: string,
+  coordinates: [number, number][],
+  route: RoadRoute
+): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    const db = await openAppDatabase();
+    const store = db.transaction(STORES.roadRoutes, 'readwrite').objectStore(STORES.roadRoutes);
+    const entry: CachedRoadRoute = { key: cacheKey(providerId, coordinates), route, storedAt: Date.now() };
+    await requestToPromise(store.put(entry));
+
+    // Evict the oldest entries beyond the size cap
+    let excess = (await requestToPromise(store.count())) - ROUTE_CACHE_MAX_ENTRIES;
+    if (excess <= 0) return;
+
+    const cursorRequest = store.index('storedAt').openCursor();
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  } catch (error) {
+    console.warn('Route cache write failed:', error);
+  }
+}
+
+export async function countCachedRoadRoutes(): Promise<number> {
+  if (!isIndexedDbAvailable()) return 0;
+
+  try {
+    const db = await openAppDatabase();
+    const store = db.transaction(STORES.roadRoutes, 'readonly').objectStore(STORES.roadRoutes);
+    return await requestToPromise(store.count());
+  } catch (error) {
+    console.warn('Route cache count failed:', error);
+    return 0;
+  }
+}
+
+export async function clearRouteCache(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  const db = await openAppDatabase();
+  const store = db.transaction(STORES.roadRoutes, 'readwrite').objectStore(STORES.roadRoutes);
+  await requestToPromise(store.clear());
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as XLSX from 'xlsx';
+import { CompactStation, Depot, Dumpyard, OptimizedRoute, SmartBin, UnassignedBin, UnassignedEntry, Vehicle } from '@/types';
+import { haversineDistance } from './distanceMatrix';
+import { calculateMakespan, generateOptimizedRoutes, GenerateRoutesParams, parseMultiSheetExcel } from './routeOptimizer';
+import { createSampleWorkbook } from './sampleWorkbook';
+import { parseClock } from './schedule';
+
+// A small city around one compact station; straight-line routing keeps the runs offline
+
+const station: CompactStation = { id: 'CS1', lat: 17.4, lng: 78.47, capacity: 50000, currentLevel: 0, area: 'Ameerpet' };
+const dumpyard: Dumpyard = { id: 'DY1', name: 'Jawaharnagar', lat: 17.5, lng: 78.58, capacity: 1000, currentLevel: 0 };
+
+// 100% full 240 L bins weigh 120 kg at the default weight factor
+function bin(id: string, index: number, extra: Partial<SmartBin> = {}): SmartBin {
+  return {
+    id,
+    lat: 17.4 + 0.002 * Math.cos(index),
+    lng: 78.47 + 0.002 * Math.sin(index),
+    capacity: 240,
+    currentLevel: 100,
+    area: 'Ameerpet',
+    isSmartBin: true,
+    ...extra
+  };
+}
+
+const depot: Depot = { id: 'DEP1', name: 'Yousufguda', lat: 17.45, lng: 78.42 };
+
+const vehicle = (id: string, capacity: number, extra: Partial<Vehicle> = {}): Vehicle =>
+  ({ id, capacity, status: 'active', driver: id, ...extra });
+
+function plan(overrides: Partial<GenerateRoutesParams>) {
+  return generateOptimizedRoutes({
+    bins: [],
+    stations: [station],
+    dumpyards: [dumpyard],
+    sats: [vehicle('SAT1', 500), vehicle('SAT2', 500)],
+    trucks: [vehicle('TRUCK1', 10000)],
+    routing: { engine: 'haversine' },
+    ...overrides
+  });
+}
+
+const maxLoad = (route: OptimizedRoute) => Math.max(...route.route.map(point => point.loadAfter ?? 0));
+const binIds = (routes: OptimizedRoute[]) =>
+  routes.flatMap(route => route.route.filter(point => point.type === 'smartbin').map(point => point.id));
+const pathLength = ({ route }: OptimizedRoute) =>
+  route.slice(1).reduce((sum, point, i) => sum + haversineDistance(route[i].lat, route[i].lng, point.lat, point.lng), 0);
+
+describe('generateOptimizedRoutes', () => {
+  it('keeps every trip within its vehicle capacity', async () => {
+    const bins = Array.from({ length: 12 }, (_, i) => bin(`BIN${i}`, i));
+    const { routes, unassigned } = await plan({ bins });
+
+    const satRoutes = routes.filter(route => route.vehicleType === 'sat');
+    expect(satRoutes.length).toBeGreaterThanOrEqual(3); // 1440 kg does not fit in fewer 500 kg trips
+    satRoutes.forEach(route => expect(maxLoad(route)).toBeLessThanOrEqual(500));
+    routes.filter(route => route.vehicleType === 'truck')
+      .forEach(route => expect(maxLoad(route)).toBeLessThanOrEqual(10000));
+
+    // Every bin is collected exactly once
+    expect(unassigned).toEqual([]);
+    expect(binIds(routes).sort()).toEqual(bins.map(b => b.id).sort());
+  });
+
+  it('loads trucks at a station only after its SAT drop-offs are done', async () => {
+    const bins = Array.from({ length: 12 }, (_, i) => bin(`BIN${i}`, i));
+    const { routes } = await plan({ bins });
+
+    const satsDone = Math.max(...routes.filter(route => route.vehicleType === 'sat')
+      .flatMap(route => route.route.filter(point => point.action === 'dropoff').map(point => point.departureTime!)));
+    const pickups = routes.filter(route => route.vehicleType === 'truck')
+      .flatMap(route => route.route.filter(point => point.type === 'compact-station'));
+    expect(pickups.length).toBeGreaterThan(0);
+    pickups.forEach(point => expect(point.departureTime! - point.serviceMinutes!).toBeGreaterThanOrEqual(satsDone));
+  });
+
+  it('reports bins heavier than any vehicle instead of overloading one', async () => {
+    const bins = [bin('BIN0', 0), bin('HEAVY', 1, { capacity: 2000 })]; // 1000 kg
+    const { routes, unassigned } = await plan({ bins });
+
+    expect(unassigned).toEqual([{ binId: 'HEAVY', reason: 'capacity' }]);
+    expect(binIds(routes)).toEqual(['BIN0']);
+  });
+
+  it('reports bins left over when the stop limit splits them into more trips than the shift holds', async () => {
+    const bins = Array.from({ length: 8 }, (_, i) => bin(`BIN${i}`, i, { currentLevel: 40 })); // 48 kg each
+    const config = { maxStopsPerSat: 1, shiftLengthMinutes: 30 };
+    const leftBins = (entries: UnassignedEntry[]) => entries.filter(entry => 'binId' in entry) as UnassignedBin[];
+    const { routes, unassigned } = await plan({ bins, sats: [vehicle('SAT1', 500)], config });
+
+    // One 500 kg trip would carry them all, so the stop limit is what runs the shift out
+    expect(leftBins(unassigned).length).toBeGreaterThan(0);
+    leftBins(unassigned).forEach(entry => expect(entry.reason).toBe('stop-limit'));
+    expect([...binIds(routes), ...leftBins(unassigned).map(entry => entry.binId)].sort())
+      .toEqual(bins.map(b => b.id).sort());
+
+    const unlimited = await plan({ bins, sats: [vehicle('SAT1', 500)], config: { ...config, maxStopsPerSat: 20 } });
+    expect(leftBins(unlimited.unassigned)).toEqual([]);
+  });
+
+  it('starts and ends each vehicle\'s day at its depot and counts those legs', async () => {
+    const bins = Array.from({ length: 12 }, (_, i) => bin(`BIN${i}`, i));
+    const home = { homeDepotId: depot.id };
+    const { routes } = await plan({
+      bins,
+      depots: [depot],
+      sats: [vehicle('SAT1', 500, home), vehicle('SAT2', 500, home)],
+      trucks: [vehicle('TRUCK1', 10000, home)]
+    });
+
+    const vehicleIds = [...new Set(routes.map(route => route.vehicleId))];
+    expect(vehicleIds.sort()).toEqual(['SAT1', 'SAT2', 'TRUCK1']);
+    vehicleIds.forEach(id => {
+      const trips = routes.filter(route => route.vehicleId === id).sort((a, b) => a.tripNumber! - b.tripNumber!);
+      const first = trips[0].route[0];
+      const last = trips[trips.length - 1].route[trips[trips.length - 1].route.length - 1];
+      expect(first).toMatchObject({ type: 'depot', id: depot.id, action: 'depart' });
+      expect(last).toMatchObject({ type: 'depot', id: depot.id, action: 'return' });
+      // Trips in between run station to station
+      trips.slice(1).forEach(trip => expect(trip.route[0].type).not.toBe('depot'));
+    });
+
+    // Distances include the depot legs, and the makespan runs from the first depot
+    // departure to the last return (distances are rounded to 0.1 km)
+    routes.forEach(route => expect(Math.abs(route.totalDistance - pathLength(route))).toBeLessThan(0.1));
+    const points = routes.flatMap(route => route.route);
+    const departed = Math.min(...points.filter(point => point.action === 'depart').map(point => point.departureTime!));
+    const returned = Math.max(...points.filter(point => point.action === 'return').map(point => point.arrivalTime!));
+    expect(calculateMakespan(routes).minutes).toBe(Math.round(returned - departed));
+  });
+
+  it('reports station waste no dumpyard has room for', async () => {
+    const bins = Array.from({ length: 4 }, (_, i) => bin(`BIN${i}`, i));
+    const full = { ...dumpyard, currentLevel: dumpyard.capacity };
+    const { routes, unassigned } = await plan({ bins, dumpyards: [full] });
+
+    expect(routes.filter(route => route.vehicleType === 'truck')).toEqual([]);
+    expect(unassigned).toEqual([{ stationId: 'CS1', load: 480, reason: 'dumpyard-full' }]);
+  });
+
+  it('serves bins with service windows inside their windows', async () => {
+    const market = { start: '06:30', end: '07:00' };
+    const bins = [
+      ...Array.from({ length: 6 }, (_, i) => bin(`BIN${i}`, i)),
+      bin('MARKET1', 6, { serviceWindow: market }),
+      bin('MARKET2', 7, { serviceWindow: market })
+    ];
+    const shiftStart = parseClock('06:00')!;
+    const { routes, unassigned } = await plan({ bins, config: { shiftStart: '06:00' } });
+
+    expect(unassigned).toEqual([]);
+    const visits = routes.flatMap(route => route.route).filter(point => point.id.startsWith('MARKET'));
+    expect(visits).toHaveLength(2);
+    visits.forEach(point => {
+      const serviceStart = shiftStart + point.departureTime! - point.serviceMinutes!;
+      expect(point.lateness).toBeUndefined();
+      expect(serviceStart).toBeGreaterThanOrEqual(parseClock(market.start)!);
+      expect(serviceStart).toBeLessThanOrEqual(parseClock(market.end)!);
+    });
+  });
+});
+
+describe('parseMultiSheetExcel', () => {
+  it('keeps one profile per fleet row of the sample template', () => {
+    vi.stubGlobal('window', { XLSX });
+    const file = XLSX.write(createSampleWorkbook(), { type: 'array', bookType: 'xlsx' });
+    const { profiles, sats, trucks } = parseMultiSheetExcel(XLSX.read(file, { type: 'array' }));
+    vi.unstubAllGlobals();
+
+    expect(profiles.map(p => [p.name, p.vehicleClass, p.weightCapacity])).toEqual([
+      ['Mini Tipper 7 T', 'sat', 4000],
+      ['Mini Tipper 11 T', 'sat', 8000],
+      ['Compactor Truck 28 T', 'truck', 16000]
+    ]);
+    expect(new Set(profiles.map(p => p.id)).size).toBe(3);
+
+    // Every vehicle points at the profile of its own row
+    const capacityOf = (vehicle: Vehicle) => profiles.find(p => p.id === vehicle.profileId)!.weightCapacity;
+    expect(sats.map(capacityOf)).toEqual([...Array(5).fill(4000), ...Array(3).fill(8000)]);
+    expect(trucks.map(capacityOf)).toEqual([16000, 16000]);
+  });
+});
@@ -1,108 +1,21 @@
-import { SmartBin, CompactStation, Dumpyard, Vehicle, OptimizedRoute } from '@/types';
-
-// Haversine distance formula
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
-
-// Get OSRM route between points with retry and timeout
-// Uses traffic-aware routing with time annotations
-async function getOSRMRoute(
-  coordinates: [number, number][],
-  retries = 3,
-  timeout = 15000,
-  useTrafficWeights = true
-): Promise<{ coords: [number, number][]; distance: number; duration: number; avgSpeed: number } | null> {
-  if (coordinates.length < 2) return null;
-  
-  const coordString = coordinates.map(c => `${c[1]},${c[0]}`).join(';');
-  
-  // Add annotations for traffic-aware routing (speed, duration per segment)
-  const annotations = useTrafficWeights ? '&annotations=speed,duration' : '';
-  
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-      
-      const response = await fetch(
-        `https://router.project-osrm.org/route/v1/driving/${coordString}?overview=full&geometries=geojson${annotations}&alternatives=true`,
-        { signal: controller.signal }
-      );
-      
-      clearTimeout(timeoutId);
-      
-      // Handle rate limiting (429) with exponential backoff
-      if (response.status === 429) {
-        if (attempt < retries) {
-          const backoffTime = 2000 * Math.pow(2, attempt); // 2s, 4s, 8s
-          console.log(`OSRM rate limited, waiting ${backoffTime}ms before retry...`);
-          await new Promise(r => setTimeout(r, backoffTime));
-          continue;
-        }
-        throw new Error('OSRM rate limit exceeded');
-      }
-      
-      if (!response.ok) {
-        if (attempt < retries) {
-          await new Promise(r => setTimeout(r, 1000 * (attempt + 1)));
-          continue;
-        }
-        throw new Error('OSRM request failed');
-      }
-      
-      const data = await response.json();
-      
-      if (data.routes && data.routes.length > 0) {
-        // Select best route based on duration (traffic-aware)
-        // OSRM returns alternatives sorted by duration, but we can check
-        let bestRoute = data.routes[0];
-        
-        // If alternatives exist, pick the one with shortest duration (accounts for traffic)
-        if (data.routes.length > 1) {
-          for (const route of data.routes) {
-            if (route.duration < bestRoute.duration) {
-              bestRoute = route;
-            }
-          }
-        }
-        
-        const distance = bestRoute.distance / 1000; // km
-        const duration = bestRoute.duration / 60; // minutes
-        const avgSpeed = duration > 0 ? (distance / (duration / 60)) : 25; // km/h
-        
-        return {
-          coords: bestRoute.geometry.coordinates.map((c: [number, number]) => [c[1], c[0]]),
-          distance: distance,
-          duration: duration,
-          avgSpeed: avgSpeed
-        };
-      }
-    } catch (error) {
-      if (attempt < retries) {
-        await new Promise(r => setTimeout(r, 1500 * (attempt + 1)));
-        continue;
-      }
-      throw error;
-    }
-  }
-  
-  return null;
-}
+import { SmartBin, CompactStation, Dumpyard, Depot, Vehicle, VehicleProfile, OptimizedRoute, RoutePoint, UnassignedEntry, UnassignedReason, RoutePlan, PlanningConfig, RoutingConfig, PlanningPhase, PlanningProgress, SpeedBand, BinLevelSample } from '@/types';
+import { improveTour, LocalSearchOptions } from './localSearch';
+import { solveCVRP, CVRPStop, CVRPTrip } from './cvrp';
+import { normalizePlanningConfig } from './planningConfig';
+import { parseClock, schedulePath, PathSchedule, SchedulableStop, clockOnDate, isValidTimeWindow, windowClocks } from './schedule';
+import { createRoutingProvider, RoutingProvider, RoadRoute, sleep } from './routingProviders';
+import { getCachedRoadRoute, putCachedRoadRoute } from './routeCache';
+import { createDistanceMatrix, TravelCosts } from './distanceMatrix';
+import { resolveVehicleSpec, profileFromFleetRow, VehicleSpec } from './vehicleProfiles';
+import { createTrafficModel, DEFAULT_SPEED_BANDS, TrafficModel, weekdayOf } from './trafficProfile';
+import { learnFillModels } from './fillForecast';
+import { fillLimit, kgToTonnes } from './facilityFill';
 
 // Nearest neighbor algorithm for route optimization
 function nearestNeighborTSP<T extends { lat: number; lng: number }>(
   start: { lat: number; lng: number },
   points: T[],
-  end?: { lat: number; lng: number }
+  costs: TravelCosts
 ): T[] {
   if (points.length === 0) return [];
   
@@ -115,7 +28,7 @@ function nearestNeighborTSP<T extends { lat: number; lng: number }>(
     let nearestDist = Infinity;
     
     for (let i = 0; i < remaining.length; i++) {
-      const dist = haversineDistance(current.lat, current.lng, remaining[i].lat, remaining[i].lng);
+      const dist = costs.distance(current, remaining[i]);
       if (dist < nearestDist) {
         nearestDist = dist;
         nearestIdx = i;
@@ -130,10 +43,161 @@ function nearestNeighborTSP<T extends { lat: number; lng: number }>(
   return route;
 }
 
+// Total distance of start -> points -> end (road distance where the matrix has it)
+function pathDistance(
+  start: { lat: number; lng: number },
+  points: { lat: number; lng: number }[],
+  end: { lat: number; lng: number },
+  costs: TravelCosts
+): number {
+  const path = [start, ...points, end];
+  let total = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    total += costs.distance(path[i], path[i + 1]);
+  }
+  return total;
+}
+
+// Greedy nearest neighbor seed followed by 2-opt/Or-opt/relocate improvement
+// `cost` defaults to the path distance
+function optimizeStopOrder<T extends { lat: number; lng: number }>(
+  start: { lat: number; lng: number },
+  points: T[],
+  end: { lat: number; lng: number },
+  costs: TravelCosts,
+  localSearch?: Partial<LocalSearchOptions>,
+  cost: (tour: T[]) => number = tour => pathDistance(start, tour, end, costs)
+): { order: T[]; improvement: number } {
+  const greedy = nearestNeighborTSP(start, points, costs);
+  const result = improveTour(greedy, cost, localSearch);
+  
+  const improvement = result.initialCost > 0
+    ? Math.round(((result.initialCost - result.finalCost) / result.initialCost) * 1000) / 10
+    : 0;
+  
+  return { order: result.tour, improvement };
+}
+
+// Extra km of driving worth one minute of lateness when sequencing stops
+const LATENESS_PENALTY_KM_PER_MINUTE = 5;
+
+// Service time per stop type (minutes), taken from the planning config
+interface ServiceMinutes {
+  smartBin: number;
+  regularBin: number;
+  stationLoading: number; // truck loading at a compact station
+  unload: number;         // drop-off at the station (SATs) or dumpyard (trucks)
+}
+
+// Speed, clock and service settings shared by the route builders
+interface RouteBuildOptions {
+  traffic: TrafficModel;   // speed by time of day for the vehicle class
+  maxSpeed?: number;       // km/h, the vehicle profile's top speed
+  fuelConsumption?: number; // litres per 100 km
+  shiftStartClock: number; // clock minutes of plan minute 0
+  service: ServiceMinutes;
+  costs: TravelCosts;
+  localSearch?: Partial<LocalSearchOptions>;
+}
+
+// Travel time for a leg departing at `departClock`: the matrix duration slowed by
+// the traffic at that time, else distance at the traffic speed; never faster than
+// the vehicle's `maxSpeed` allows
+function travelMinutes(costs: TravelCosts, traffic: TrafficModel, maxSpeed = Infinity) {
+  return (a: SchedulableStop, b: SchedulableStop, departClock: number) => {
+    const distance = costs.distance(a, b);
+    const duration = costs.duration(a, b);
+    const minutes = duration !== null
+      ? duration * traffic.slowdown(departClock, a)
+      : (distance / Math.min(traffic.speed(departClock, a), maxSpeed)) * 60;
+    return Math.max(minutes, (distance / maxSpeed) * 60);
+  };
+}
+
+// Schedule a path with time-of-day travel between its stops
+function scheduleWithTraffic(path: SchedulableStop[], startClock: number, options: RouteBuildOptions): PathSchedule {
+  const travel = travelMinutes(options.costs, options.traffic, options.maxSpeed);
+  return schedulePath(path, startClock, (a, b, _leg, departClock) => travel(a, b, departClock));
+}
+
+// Build options for one vehicle: its top speed and fuel use on top of the fleet settings
+function buildOptionsFor(base: RouteBuildOptions, spec: VehicleSpec): RouteBuildOptions {
+  return { ...base, maxSpeed: spec.maxSpeed, fuelConsumption: spec.fuelConsumption };
+}
+
+function fuelLitres(distance: number, fuelConsumption?: number): number | undefined {
+  return fuelConsumption ? Math.round((distance * fuelConsumption) / 100 * 10) / 10 : undefined;
+}
+
+// Sequence stops between `start` and `end` departing at `startClock` (minutes after
+// midnight). When any stop has a service window, lateness is penalised so the
+// order favours meeting windows over the shortest path (VRPTW).
+function sequenceStops<T extends SchedulableStop>(
+  start: { lat: number; lng: number },
+  points: T[],
+  end: SchedulableStop,
+  startClock: number,
+  options: RouteBuildOptions
+): { order: T[]; improvement: number } {
+  const { costs, localSearch } = options;
+  // The trip starts where the vehicle already is, so no window or service applies
+  const origin: SchedulableStop = { lat: start.lat, lng: start.lng };
+  const hasWindows = !!end.serviceWindow || points.some(p => p.serviceWindow || p.earliestStart !== undefined);
+  
+  if (!hasWindows) {
+    return optimizeStopOrder(start, points, end, costs, localSearch);
+  }
+  
+  return optimizeStopOrder(start, points, end, costs, localSearch, tour =>
+    pathDistance(start, tour, end, costs) +
+    LATENESS_PENALTY_KM_PER_MINUTE * scheduleWithTraffic([origin, ...tour, end], startClock, options).totalLateness
+  );
+}
+
+// Route points as a schedulable path: readiness (plan minutes) becomes an earliest start (clock)
+function toPath(points: RoutePoint[], shiftStartClock: number): SchedulableStop[] {
+  return points.map(point =>
+    point.readyAt === undefined ? point : { ...point, earliestStart: shiftStartClock + point.readyAt }
+  );
+}
+
+// The same trip started at another time: stops keep their order, times follow the traffic
+function retimeRoute(route: OptimizedRoute, startTime: number, options: RouteBuildOptions): OptimizedRoute {
+  const startClock = options.shiftStartClock + startTime;
+  const schedule = scheduleWithTraffic(toPath(route.route, options.shiftStartClock), startClock, options);
+  return {
+    ...route,
+    route: applySchedule(route.route, schedule, options.shiftStartClock),
+    estimatedTime: Math.round(schedule.endClock - startClock),
+    startTime
+  };
+}
+
+// Copy a schedule onto route points: arrival/departure relative to plan start,
+// lateness only where a window was missed
+function applySchedule(points: RoutePoint[], schedule: PathSchedule, shiftStartClock: number): RoutePoint[] {
+  return points.map((point, i) => {
+    const stop = schedule.stops[i];
+    const timed: RoutePoint = {
+      ...point,
+      arrivalTime: Math.round(stop.arrival - shiftStartClock),
+      departureTime: Math.round(stop.departure - shiftStartClock)
+    };
+    
+    if (stop.lateness > 0) {
+      timed.lateness = Math.round(stop.lateness);
+    } else {
+      delete timed.lateness;
+    }
+    return timed;
+  });
+}
+
 // Cluster bins to stations using k-means-like approach
 function assignBinsToStations(
   bins: SmartBin[],
-  stations: CompactStation[]
+  stations: CompactStation[],
+  costs: TravelCosts
 ): Map<string, SmartBin[]> {
   const assignments = new Map<string, SmartBin[]>();
   
@@ -142,13 +206,11 @@ function assignBinsToStations(
   });
   
   bins.forEach(bin => {
-    if (bin.currentLevel < 30) return; // Skip nearly empty bins
-    
     let nearestStation = stations[0];
     let nearestDist = Infinity;
     
     stations.forEach(station => {
-      const dist = haversineDistance(bin.lat, bin.lng, station.lat, station.lng);
+      const dist = costs.distance(bin, station);
       if (dist < nearestDist) {
         nearestDist = dist;
         nearestStation = station;
@@ -164,7 +226,8 @@ function assignBinsToStations(
 // Assign stations to dumpyards
 function assignStationsToDumpyards(
   stations: CompactStation[],
-  dumpyards: Dumpyard[]
+  dumpyards: Dumpyard[],
+  costs: TravelCosts
 ): Map<string, CompactStation[]> {
   const assignments = new Map<string, CompactStation[]>();
   
@@ -177,7 +240,7 @@ function assignStationsToDumpyards(
     let nearestDist = Infinity;
     
     dumpyards.forEach(dumpyard => {
-      const dist = haversineDistance(station.lat, station.lng, dumpyard.lat, dumpyard.lng);
+      const dist = costs.distance(station, dumpyard);
       if (dist < nearestDist) {
         nearestDist = dist;
         nearestDumpyard = dumpyard;
@@ -190,15 +253,25 @@ function assignStationsToDumpyards(
   return assignments;
 }
 
-// Helper function to create SAT route (uses straight lines, OSRM fetched later)
+// Helper function to create SAT route (uses straight lines, road route fetched later)
 function createSATRouteSync(
   sat: Vehicle,
-  bins: SmartBin[],
+  bins: BinStop[],
   station: CompactStation,
   tripNumber: number,
-  startTime: number
+  startTime: number,
+  options: RouteBuildOptions
 ): OptimizedRoute {
-  const optimizedBatch = nearestNeighborTSP(station, bins);
+  const { service, shiftStartClock } = options;
+  const startClock = shiftStartClock + startTime;
+  const stops = bins.map(bin => ({
+    ...bin,
+    serviceMinutes: bin.isSmartBin ? service.smartBin : service.regularBin
+  }));
+  const dropoff: SchedulableStop = {
+    lat: station.lat, lng: station.lng, serviceWindow: station.serviceWindow, serviceMinutes: service.unload
+  };
+  const { order: optimizedBatch, improvement } = sequenceStops(station, stops, dropoff, startClock, options);
   
   const routeCoords: [number, number][] = [
     [station.lat, station.lng],
@@ -206,59 +279,420 @@ function createSATRouteSync(
     [station.lat, station.lng]
   ];
   
-  let totalDist = 0;
-  for (let i = 0; i < routeCoords.length - 1; i++) {
-    totalDist += haversineDistance(
-      routeCoords[i][0], routeCoords[i][1],
-      routeCoords[i+1][0], routeCoords[i+1][1]
-    );
+  // Load on board grows with every bin and is emptied at the station
+  let load = 0;
+  const points: RoutePoint[] = [
+    { lat: station.lat, lng: station.lng, type: 'compact-station', id: station.id, action: 'pickup', loadAfter: 0 }
+  ];
+  for (const b of optimizedBatch) {
+    load += b.demand;
+    points.push({
+      lat: b.lat, lng: b.lng, type: 'smartbin', id: b.id, action: 'pickup',
+      serviceWindow: b.serviceWindow, serviceMinutes: b.serviceMinutes, loadAfter: Math.round(load)
+    });
   }
+  points.push({ ...dropoff, type: 'compact-station', id: station.id, action: 'dropoff', loadAfter: 0 });
   
-  const tripTime = Math.round((totalDist / 25) * 60);
+  const schedule = scheduleWithTraffic(points, startClock, options);
+  const totalDist = pathDistance(station, optimizedBatch, station, options.costs);
   
   return {
     vehicleId: sat.id,
     vehicleType: 'sat',
-    route: [
-      { lat: station.lat, lng: station.lng, type: 'compact-station', id: station.id, action: 'pickup' },
-      ...optimizedBatch.map(b => ({
-        lat: b.lat, lng: b.lng, type: 'smartbin' as const, id: b.id, action: 'pickup' as const
-      })),
-      { lat: station.lat, lng: station.lng, type: 'compact-station', id: station.id, action: 'dropoff' }
-    ],
+    route: applySchedule(points, schedule, shiftStartClock),
     totalDistance: Math.round(totalDist * 10) / 10,
-    estimatedTime: tripTime,
+    estimatedTime: Math.round(schedule.endClock - startClock), // includes waits, service and unloading
     startTime,
     tripNumber,
     targetStationId: station.id,
     coordinates: routeCoords,
-    osrmFetched: false // Flag to track if OSRM route has been fetched
+    improvementOverGreedy: improvement,
+    osrmFetched: false, // Flag to track if the road route has been fetched
+    profileId: sat.profileId,
+    fuelLitres: fuelLitres(totalDist, options.fuelConsumption)
+  };
+}
+
+// Helper function to create truck route: dumpyard -> stations -> dumpyard
+function createTruckRouteSync(
+  truck: Vehicle,
+  stationLoads: StationLoad[],
+  dumpyard: Dumpyard,
+  tripNumber: number,
+  startTime: number,
+  options: RouteBuildOptions
+): OptimizedRoute {
+  const { service, shiftStartClock } = options;
+  const startClock = shiftStartClock + startTime;
+  const stops = stationLoads.map(load => ({
+    ...load,
+    serviceWindow: load.station.serviceWindow,
+    serviceMinutes: service.stationLoading,
+    earliestStart: shiftStartClock + load.readyAt
+  }));
+  const dropoff: SchedulableStop = {
+    lat: dumpyard.lat, lng: dumpyard.lng, serviceWindow: dumpyard.serviceWindow, serviceMinutes: service.unload
+  };
+  const { order: optimizedStations, improvement } = sequenceStops(dumpyard, stops, dropoff, startClock, options);
+  
+  const routeCoords: [number, number][] = [
+    [dumpyard.lat, dumpyard.lng],
+    ...optimizedStations.map(s => [s.lat, s.lng] as [number, number]),
+    [dumpyard.lat, dumpyard.lng]
+  ];
+  
+  let load = 0;
+  const points: RoutePoint[] = [
+    { lat: dumpyard.lat, lng: dumpyard.lng, type: 'dumpyard', id: dumpyard.id, action: 'pickup', loadAfter: 0 }
+  ];
+  for (const s of optimizedStations) {
+    load += s.demand;
+    points.push({
+      lat: s.lat, lng: s.lng, type: 'compact-station', id: s.id, action: 'pickup',
+      serviceWindow: s.serviceWindow, serviceMinutes: s.serviceMinutes, loadAfter: Math.round(load),
+      ...(s.readyAt > 0 && { readyAt: s.readyAt })
+    });
+  }
+  points.push({ ...dropoff, type: 'dumpyard', id: dumpyard.id, action: 'dropoff', loadAfter: 0 });
+  
+  const schedule = scheduleWithTraffic(toPath(points, shiftStartClock), startClock, options);
+  const totalDist = pathDistance(dumpyard, optimizedStations, dumpyard, options.costs);
+  
+  return {
+    vehicleId: truck.id,
+    vehicleType: 'truck',
+    route: applySchedule(points, schedule, shiftStartClock),
+    totalDistance: Math.round(totalDist * 10) / 10,
+    estimatedTime: Math.round(schedule.endClock - startClock),
+    startTime,
+    tripNumber,
+    coordinates: routeCoords,
+    improvementOverGreedy: improvement,
+    osrmFetched: false,
+    profileId: truck.profileId,
+    fuelLitres: fuelLitres(totalDist, options.fuelConsumption)
   };
 }
 
-interface GenerateRoutesParams {
+export interface GenerateRoutesParams {
   bins: SmartBin[];
   stations: CompactStation[];
   dumpyards: Dumpyard[];
+  depots?: Depot[];                 // referenced by Vehicle.homeDepotId
   sats: Vehicle[];
   trucks: Vehicle[];
-  onRouteGenerated?: (route: OptimizedRoute, allRoutes: OptimizedRoute[]) => void;
-  onRouteUpdated?: (routes: OptimizedRoute[]) => void; // Called when OSRM paths are fetched
+  profiles?: VehicleProfile[];      // referenced by Vehicle.profileId
+  speedBands?: SpeedBand[];         // time-of-day speeds; DEFAULT_SPEED_BANDS when missing
+  planDate?: string;                // "YYYY-MM-DD" the shift starts on (today when missing)
+  levelHistory?: BinLevelSample[];  // readings each bin's fill rate is learned from
+  usePredictedLevels?: boolean;     // plan with levels forecast for each bin's visit instead of currentLevel
+  config?: Partial<PlanningConfig>; // missing fields fall back to DEFAULT_PLANNING_CONFIG
+  routing?: Partial<RoutingConfig>; // missing fields fall back to DEFAULT_ROUTING_CONFIG
+  // Called as routes are built and again as road geometry arrives; phase 'done' is last
+  onProgress?: (progress: PlanningProgress) => void;
+  // Aborting rejects the plan with an AbortError, or stops the road geometry fetches after it
+  signal?: AbortSignal;
 }
 
-const MAX_STOPS_PER_SAT = 20;
-const MAX_STATIONS_PER_TRUCK = 2;
+type BinStop = SmartBin & CVRPStop;
 
-export async function generateOptimizedRoutes({
+interface PendingTrip {
+  station: CompactStation;
+  stops: BinStop[];
+  load: number;
+  volume: number;
+  narrowLane: boolean; // has bins only narrow-lane vehicles can reach
+  stopBound: boolean;  // its group needed more trips for the stop limit than for the load
+}
+
+// What a vehicle must be able to carry and reach for one trip
+interface TripNeeds {
+  load: number;   // kg
+  volume: number; // m³
+  narrowLane: boolean;
+}
+
+// A share of a station's waste that fits in one truck
+interface StationLoad extends CVRPStop {
+  station: CompactStation;
+  readyAt: number; // minutes from plan start when the station's SAT drop-offs are done
+}
+
+// Dispatch state of a vehicle during multi-trip scheduling
+interface VehicleShift {
+  vehicle: Vehicle;
+  spec: VehicleSpec;
+  depot: Depot | null; // home depot; the shift starts and ends there
+  availableAt: number; // minutes from plan start
+  shiftStart: number;  // set when the first trip is dispatched
+  location: { lat: number; lng: number } | null;
+  trips: number;
+  routes: OptimizedRoute[];
+}
+
+export const PLANNING_PHASE_LABELS: Record<PlanningPhase, string> = {
+  'matrix': 'Loading road distances',
+  'clustering': 'Clustering bins',
+  'sat-scheduling': 'Scheduling SAT trips',
+  'truck-scheduling': 'Scheduling truck trips',
+  'road-geometry': 'Fetching road routes',
+  'done': 'Done'
+};
+
+// Overall progress (%) at which each phase starts; road geometry runs up to 100
+const PHASE_START: Record<PlanningPhase, number> = {
+  'matrix': 0,
+  'clustering': 10,
+  'sat-scheduling': 30,
+  'truck-scheduling': 60,
+  'road-geometry': 70,
+  'done': 100
+};
+
+const PHASE_ORDER: PlanningPhase[] = ['matrix', 'clustering', 'sat-scheduling', 'truck-scheduling', 'road-geometry', 'done'];
+
+// Progress reporter: `fraction` is how far into `phase` the run is (0-1)
+function createProgressReporter(routes: OptimizedRoute[], onProgress?: (progress: PlanningProgress) => void) {
+  return (phase: PlanningPhase, fraction = 0) => {
+    if (!onProgress) return;
+    const start = PHASE_START[phase];
+    const next = PHASE_ORDER[PHASE_ORDER.indexOf(phase) + 1];
+    const end = next ? PHASE_START[next] : 100;
+    onProgress({ phase, percent: Math.round(start + (end - start) * Math.min(1, fraction)), routes: [...routes] });
+  };
+}
+
+export const UNASSIGNED_REASON_LABELS: Record<UnassignedReason, string> = {
+  'capacity': 'Exceeds vehicle capacity',
+  'stop-limit': 'Stop limit reached',
+  'no-vehicle': 'No active vehicle',
+  'narrow-lane': 'No narrow-lane vehicle',
+  'shift-limit': 'Shift time exhausted',
+  'station-full': 'All compact stations full',
+  'dumpyard-full': 'All dumpyards full'
+};
+
+// Estimated waste weight in a bin (kg)
+function binWeight(bin: SmartBin, weightFactor: number): number {
+  return (bin.currentLevel / 100) * bin.capacity * weightFactor;
+}
+
+// Loose waste volume in a bin (m³); bin capacity is in litres
+function binVolume(bin: SmartBin): number {
+  return (bin.currentLevel / 100) * bin.capacity / 1000;
+}
+
+function toBinStop(bin: SmartBin, weightFactor: number): BinStop {
+  return { ...bin, demand: binWeight(bin, weightFactor), volume: binVolume(bin) };
+}
+
+// Earliest service window close among the stops (Infinity when none has a window)
+function earliestWindowEnd(stops: SchedulableStop[]): number {
+  return Math.min(
+    Infinity,
+    ...stops.map(stop => (stop.serviceWindow && isValidTimeWindow(stop.serviceWindow) ? windowClocks(stop.serviceWindow).close : Infinity))
+  );
+}
+
+function canServeTrip(spec: VehicleSpec, needs: TripNeeds): boolean {
+  return spec.weightCapacity >= needs.load &&
+    spec.volumeCapacity >= needs.volume &&
+    (!needs.narrowLane || spec.narrowLaneAccess);
+}
+
+// Pick the vehicle that can carry and reach the trip and finish it the earliest,
+// chaining from the end (plus unload) of its previous trip and starting no
+// earlier than `readyAt`; ties go to the cheaper dispatch, then lower fuel use,
+// then the smaller vehicle
+function pickVehicleForTrip(
+  shifts: VehicleShift[],
+  needs: TripNeeds,
+  origin: { lat: number; lng: number },
+  tripTime: (shift: VehicleShift, startTime: number) => number,
+  build: RouteBuildOptions,
+  shiftLength: number,
+  readyAt = 0
+): { shift: VehicleShift; startTime: number; shiftStart: number } | null {
+  let best: { shift: VehicleShift; startTime: number; shiftStart: number; end: number } | null = null;
+  
+  for (const shift of shifts) {
+    const { spec } = shift;
+    if (!canServeTrip(spec, needs)) continue;
+    
+    const travel = travelMinutes(build.costs, build.traffic, spec.maxSpeed);
+    const clock = (time: number) => build.shiftStartClock + time;
+    const deadhead = shift.location ? Math.round(travel(shift.location, origin, clock(shift.availableAt))) : 0;
+    const startTime = Math.max(shift.availableAt + deadhead, readyAt);
+    const end = startTime + tripTime(shift, startTime);
+    // Trips end where they started, and the vehicle must still make it home
+    const homeward = shift.depot ? Math.round(travel(origin, shift.depot, clock(end))) : 0;
+    // An idle vehicle's shift begins when it leaves for its first trip
+    const shiftStart = shift.trips === 0 ? startTime - deadhead : shift.shiftStart;
+    
+    if (end + homeward > shiftStart + shiftLength) continue;
+    
+    const bestSpec = best?.shift.spec;
+    if (!best || end < best.end || (end === best.end && (
+      spec.fixedCostPerTrip - bestSpec.fixedCostPerTrip ||
+      spec.fuelConsumption - bestSpec.fuelConsumption ||
+      spec.weightCapacity - bestSpec.weightCapacity
+    ) < 0)) {
+      best = { shift, startTime, shiftStart, end };
+    }
+  }
+  
+  return best ? { shift: best.shift, startTime: best.startTime, shiftStart: best.shiftStart } : null;
+}
+
+// Nearest facility to `preferred` (itself first) that still has room for `amount`
+function facilityWithRoom<T extends { lat: number; lng: number }>(
+  preferred: T,
+  facilities: T[],
+  amount: number,
+  room: (facility: T) => number,
+  costs: TravelCosts
+): T | null {
+  return [...facilities]
+    .sort((a, b) => costs.distance(preferred, a) - costs.distance(preferred, b))
+    .find(facility => room(facility) >= amount) ?? null;
+}
+
+function createShift(vehicle: Vehicle, spec: VehicleSpec, depot: Depot | null, readyAt: number): VehicleShift {
+  return { vehicle, spec, depot, availableAt: readyAt, shiftStart: readyAt, location: depot, trips: 0, routes: [] };
+}
+
+// Route extended with the drive from the depot before its first stop ('out') or
+// back to the depot after its last stop ('back')
+function withDepotLeg(
+  route: OptimizedRoute,
+  depot: Depot,
+  leg: 'out' | 'back',
+  travel: (a: SchedulableStop, b: SchedulableStop, departClock: number) => number,
+  build: RouteBuildOptions,
+  fuelConsumption: number
+): OptimizedRoute {
+  const { costs, shiftStartClock } = build;
+  const point: RoutePoint = {
+    lat: depot.lat, lng: depot.lng, type: 'depot', id: depot.id, action: leg === 'out' ? 'depart' : 'return', loadAfter: 0
+  };
+  const neighbour = leg === 'out' ? route.route[0] : route.route[route.route.length - 1];
+  const legDistance = leg === 'out' ? costs.distance(depot, neighbour) : costs.distance(neighbour, depot);
+  const end = route.startTime + route.estimatedTime;
+  // The outbound departure depends on the leg's own length, so estimate it once and refine
+  const legMinutes = Math.round(leg === 'out'
+    ? travel(depot, neighbour, shiftStartClock + route.startTime - travel(depot, neighbour, shiftStartClock + route.startTime))
+    : travel(neighbour, depot, shiftStartClock + end));
+  const totalDistance = Math.round((route.totalDistance + legDistance) * 10) / 10;
+  const depotCoords: [number, number] = [depot.lat, depot.lng];
+  
+  if (leg === 'out') {
+    const startTime = route.startTime - legMinutes;
+    return {
+      ...route,
+      route: [{ ...point, arrivalTime: startTime, departureTime: startTime }, ...route.route],
+      coordinates: [depotCoords, ...route.coordinates],
+      totalDistance,
+      estimatedTime: route.estimatedTime + legMinutes,
+      startTime,
+      fuelLitres: fuelLitres(totalDistance, fuelConsumption)
+    };
+  }
+  
+  const arrival = end + legMinutes;
+  return {
+    ...route,
+    route: [...route.route, { ...point, arrivalTime: arrival, departureTime: arrival }],
+    coordinates: [...route.coordinates, depotCoords],
+    totalDistance,
+    estimatedTime: route.estimatedTime + legMinutes,
+    fuelLitres: fuelLitres(totalDistance, fuelConsumption)
+  };
+}
+
+// Put the depot legs on each vehicle's first and last trip of the day
+function addDepotLegs(routes: OptimizedRoute[], shifts: VehicleShift[], build: RouteBuildOptions) {
+  shifts.forEach(shift => {
+    if (!shift.depot || shift.routes.length === 0) return;
+    
+    const travel = travelMinutes(build.costs, build.traffic, shift.spec.maxSpeed);
+    const firstIndex = routes.indexOf(shift.routes[0]);
+    const lastIndex = routes.indexOf(shift.routes[shift.routes.length - 1]);
+    routes[firstIndex] = withDepotLeg(routes[firstIndex], shift.depot, 'out', travel, build, shift.spec.fuelConsumption);
+    routes[lastIndex] = withDepotLeg(routes[lastIndex], shift.depot, 'back', travel, build, shift.spec.fuelConsumption);
+  });
+}
+
+// Drafts depend on the vehicle only through its speed and fuel use, so they are
+// built once per distinct spec and reused while picking a vehicle
+function draftCache(build: (spec: VehicleSpec) => OptimizedRoute) {
+  const drafts = new Map<string, OptimizedRoute>();
+  return (spec: VehicleSpec) => {
+    const key = `${spec.maxSpeed}|${spec.fuelConsumption}`;
+    if (!drafts.has(key)) drafts.set(key, build(spec));
+    return drafts.get(key)!;
+  };
+}
+
+export async function generateOptimizedRoutes(params: GenerateRoutesParams): Promise<RoutePlan> {
+  const { bins, levelHistory, usePredictedLevels, planDate, config } = params;
+  if (!usePredictedLevels || !bins || bins.length === 0) {
+    return buildPlan(params);
+  }
+  
+  // Visit times depend on the plan and the plan on the levels, so a first pass
+  // with levels forecast for the shift start finds when each bin is visited and
+  // the final pass plans with the level forecast for that visit
+  const models = learnFillModels(bins, levelHistory ?? []);
+  const shiftStart = clockOnDate(planDate, parseClock(normalizePlanningConfig(config).shiftStart) ?? 0);
+  const forecastBins = (visitAt: (bin: SmartBin) => Date) => bins.map(bin => ({
+    ...bin,
+    currentLevel: Math.round(models.get(bin.id)!.predictedLevel(visitAt(bin)))
+  }));
+  
+  const firstPass = await buildPlan({ ...params, bins: forecastBins(() => shiftStart), onProgress: undefined }, false);
+  const visits = new Map<string, number>();
+  firstPass.routes.forEach(route => route.route.forEach(point => {
+    if (point.type === 'smartbin' && point.arrivalTime !== undefined) visits.set(point.id, point.arrivalTime);
+  }));
+  
+  return buildPlan({
+    ...params,
+    bins: forecastBins(bin => visits.has(bin.id)
+      ? new Date(shiftStart.getTime() + visits.get(bin.id)! * 60000)
+      : shiftStart)
+  });
+}
+
+// One planning run over the given levels; road geometry is fetched afterwards unless disabled
+async function buildPlan({
   bins,
   stations,
   dumpyards,
+  depots,
   sats,
   trucks,
-  onRouteGenerated,
-  onRouteUpdated
-}: GenerateRoutesParams): Promise<OptimizedRoute[]> {
+  profiles,
+  speedBands = DEFAULT_SPEED_BANDS,
+  planDate,
+  config,
+  routing,
+  onProgress,
+  signal
+}: GenerateRoutesParams, fetchRoadGeometry = true): Promise<RoutePlan> {
   const routes: OptimizedRoute[] = [];
+  const report = createProgressReporter(routes, onProgress);
+  const settings = normalizePlanningConfig(config);
+  const shiftStartClock = parseClock(settings.shiftStart) ?? 0;
+  const localSearch: Partial<LocalSearchOptions> = {
+    maxIterations: settings.localSearchIterations,
+    timeLimitMs: settings.localSearchTimeMs
+  };
+  const service: ServiceMinutes = {
+    smartBin: settings.smartBinServiceMinutes,
+    regularBin: settings.regularBinServiceMinutes,
+    stationLoading: settings.stationLoadingMinutes,
+    unload: settings.unloadMinutes
+  };
   
   // Validate required data
   if (!bins || bins.length === 0) {
@@ -289,336 +723,405 @@ export async function generateOptimizedRoutes({
   const activeSATs = sats.filter(s => s.status === 'active');
   const activeTrucks = trucks && trucks.length > 0 ? trucks.filter(t => t.status === 'active') : [];
   
-  if (activeSATs.length === 0) {
-    throw new Error('No active SAT vehicles available for routing');
-  }
-  
-  // Filter bins that need collection (> 30% full), or all if none meet threshold
-  let binsToCollect = bins.filter(b => b.currentLevel >= 30);
+  // Filter bins that need collection (above threshold), or all if none meet threshold
+  let binsToCollect = bins.filter(b => b.currentLevel >= settings.collectionThreshold);
   if (binsToCollect.length === 0) {
     binsToCollect = [...bins];
   }
   
-  // ========== BALANCED DISTRIBUTION ALGORITHM ==========
-  // Calculate bins per vehicle for equal distribution
-  const totalBins = binsToCollect.length;
-  const numSATs = activeSATs.length;
-  const binsPerSAT = Math.ceil(totalBins / numSATs);
-  const effectiveBinsPerSAT = Math.min(binsPerSAT, MAX_STOPS_PER_SAT);
+  // Nothing can be collected without an active SAT: report every bin
+  if (activeSATs.length === 0) {
+    report('done');
+    return {
+      routes,
+      unassigned: binsToCollect.map(bin => ({ binId: bin.id, reason: 'no-vehicle' as const }))
+    };
+  }
+  
+  // Leg speeds follow the traffic at each leg's scheduled departure on the plan day
+  const planDay = weekdayOf(planDate);
+  const traffic = {
+    sat: createTrafficModel(speedBands, 'sat', settings.satSpeedOffPeak, planDay),
+    truck: createTrafficModel(speedBands, 'truck', settings.truckSpeedOffPeak, planDay)
+  };
   
-  console.log(`Balanced distribution: ${totalBins} bins across ${numSATs} SATs (${effectiveBinsPerSAT} bins each)`);
+  // Road-network costs for clustering and sequencing; straight lines where unavailable
+  const provider = createRoutingProvider(routing);
+  const matrix = createDistanceMatrix(provider, signal);
+  report('matrix');
+  await matrix.prefetch(binsToCollect, stations);
+  await matrix.prefetch([...stations, ...activeDumpyards]);
   
-  // Assign bins to nearest stations first
-  const stationBinMap = assignBinsToStations(binsToCollect, stations);
+  // Vehicles leave from and return to their home depots
+  const depotOf = (vehicle: Vehicle) => depots?.find(d => d.id === vehicle.homeDepotId) ?? null;
+  const homeDepots = [...activeSATs, ...activeTrucks].map(depotOf).filter((d): d is Depot => d !== null);
+  if (homeDepots.length > 0) {
+    await matrix.prefetch(homeDepots, [...stations, ...activeDumpyards]);
+    await matrix.prefetch([...stations, ...activeDumpyards], homeDepots);
+  }
+  signal?.throwIfAborted();
   
-  // Create a pool of all bins with their assigned stations
-  const binPool: { bin: SmartBin; station: CompactStation }[] = [];
-  stationBinMap.forEach((stationBins, stationId) => {
-    const station = stations.find(s => s.id === stationId);
-    if (station) {
-      stationBins.forEach(bin => {
-        binPool.push({ bin, station });
-      });
-    }
-  });
+  const satBuild: RouteBuildOptions = { traffic: traffic.sat, shiftStartClock, service, costs: matrix, localSearch };
+  const truckBuild: RouteBuildOptions = { traffic: traffic.truck, shiftStartClock, service, costs: matrix, localSearch };
   
-  // Sort bins by fill level (highest first for priority collection)
-  binPool.sort((a, b) => b.bin.currentLevel - a.bin.currentLevel);
+  // ========== CAPACITATED ROUTING PER STATION ==========
+  // Assign bins to nearest stations first (clustering by road distance)
+  report('clustering');
+  const stationBinMap = assignBinsToStations(binsToCollect, stations, matrix);
   
-  // Track SAT times and station waste
-  const satTimes: number[] = [];
-  const truckTimes: number[] = [];
+  // Track when each station's last SAT drop-off is done, and station waste
+  const stationReadyAt = new Map<string, number>();
   const stationWaste = new Map<string, number>();
   stations.forEach(s => stationWaste.set(s.id, s.currentLevel || 0));
+  const stationRoom = (station: CompactStation) =>
+    fillLimit(station, settings.facilityFillLimit) - (stationWaste.get(station.id) || 0);
   
-  // ========== DISTRIBUTE BINS EQUALLY TO ALL SATs ==========
-  let binIndex = 0;
+  const unassigned: UnassignedEntry[] = [];
+  const satSpecs = new Map(activeSATs.map(sat => [sat, resolveVehicleSpec(sat, profiles)]));
+  const narrowLaneSATs = activeSATs.filter(sat => satSpecs.get(sat)!.narrowLaneAccess);
+  const distance = (a: { lat: number; lng: number }, b: { lat: number; lng: number }) => matrix.distance(a, b);
   
-  for (let satIdx = 0; satIdx < activeSATs.length; satIdx++) {
-    const sat = activeSATs[satIdx];
-    
-    // Calculate how many bins this SAT should get
-    const remainingBins = binPool.length - binIndex;
-    const remainingSATs = activeSATs.length - satIdx;
-    const binsForThisSAT = Math.min(
-      Math.ceil(remainingBins / remainingSATs),
-      MAX_STOPS_PER_SAT
-    );
-    
-    if (binsForThisSAT === 0 || binIndex >= binPool.length) {
-      // Even if no bins, give SAT at least a check route if there are stations
-      continue;
-    }
+  // Build capacity-feasible trips around every station with Clarke-Wright savings
+  const pendingTrips: PendingTrip[] = [];
+  let clustersDone = 0;
+  for (const [stationId, stationBins] of stationBinMap) {
+    report('clustering', clustersDone++ / stationBinMap.size);
+    const station = stations.find(s => s.id === stationId);
+    if (!station || stationBins.length === 0) continue;
     
-    // Collect bins for this SAT
-    const satBins: SmartBin[] = [];
-    let currentLoad = 0;
-    let targetStation: CompactStation | null = null;
+    // Bin-to-bin costs within the cluster for savings and sequencing
+    await matrix.prefetch([station, ...stationBins]);
     
-    // Get the initial station from first bin
-    const firstBinData = binPool[binIndex];
-    if (firstBinData) {
-      targetStation = firstBinData.station;
-    }
+    // Narrow-lane bins get their own trips, sized for the vehicles that can reach them
+    const stops = stationBins.map(bin => toBinStop(bin, settings.binWeightFactor));
+    const groups = [
+      { narrowLane: false, stops: stops.filter(stop => !stop.narrowLane), fleet: activeSATs },
+      { narrowLane: true, stops: stops.filter(stop => stop.narrowLane), fleet: narrowLaneSATs }
+    ];
     
-    // Collect bins up to the calculated limit, respecting capacity
-    while (satBins.length < binsForThisSAT && binIndex < binPool.length) {
-      const binData = binPool[binIndex];
-      
-      // If this bin's station is different, use nearest neighbor to decide
-      // For simplicity, prioritize bins near the first station
-      const binWeight = (binData.bin.currentLevel / 100) * binData.bin.capacity * 0.5;
-      
-      if (currentLoad + binWeight > sat.capacity) {
-        binIndex++;
-        continue; // Skip bins that would exceed capacity
+    for (const { narrowLane, stops: groupStops, fleet } of groups) {
+      if (groupStops.length === 0) continue;
+      if (fleet.length === 0) {
+        groupStops.forEach(stop => unassigned.push({ binId: stop.id, reason: 'narrow-lane' }));
+        continue;
       }
       
-      satBins.push(binData.bin);
-      currentLoad += binWeight;
+      const specs = fleet.map(sat => satSpecs.get(sat)!);
+      const capacity = Math.max(...specs.map(spec => spec.weightCapacity));
+      const volumeCapacity = Math.max(...specs.map(spec => spec.volumeCapacity));
+      const solution = solveCVRP(station, groupStops, { capacity, volumeCapacity, maxStops: settings.maxStopsPerSat, distance });
       
-      // Use the station from the majority of assigned bins
-      if (!targetStation) {
-        targetStation = binData.station;
-      }
+      // When the stop limit alone forces extra trips, bins the shift cannot fit are left by the stop limit
+      const sum = (value: (trip: CVRPTrip<BinStop>) => number) => solution.trips.reduce((total, trip) => total + value(trip), 0);
+      const stopBound = Math.ceil(sum(trip => trip.stops.length) / settings.maxStopsPerSat) >
+        Math.max(Math.ceil(sum(trip => trip.load) / capacity), Math.ceil(sum(trip => trip.volume) / volumeCapacity));
       
-      binIndex++;
+      solution.unassigned.forEach(({ stop, reason }) => unassigned.push({ binId: stop.id, reason }));
+      solution.trips.forEach(trip => pendingTrips.push({
+        station, stops: trip.stops, load: trip.load, volume: trip.volume, narrowLane, stopBound
+      }));
     }
+    signal?.throwIfAborted();
+  }
+  
+  console.log(`CVRP: ${binsToCollect.length} bins -> ${pendingTrips.length} trips across ${stations.length} stations`);
+  
+  // ========== MULTI-TRIP SAT SCHEDULING ==========
+  // Trips with the tightest service windows go first, then the heaviest so large
+  // SATs are not used up by small trips; each SAT keeps going (unload at its
+  // station, go again) until its shift is exhausted
+  const windowEnds = new Map(pendingTrips.map(trip => [trip, earliestWindowEnd([...trip.stops, trip.station])]));
+  pendingTrips.sort((a, b) => (windowEnds.get(a)! - windowEnds.get(b)!) || (b.load - a.load));
+  const satShifts = activeSATs.map(sat => createShift(sat, satSpecs.get(sat)!, depotOf(sat), 0));
+  
+  const satTripCount = pendingTrips.length;
+  report('sat-scheduling');
+  
+  while (pendingTrips.length > 0) {
+    signal?.throwIfAborted();
+    const trip = pendingTrips.shift()!;
     
-    if (satBins.length === 0 || !targetStation) continue;
+    // A station that would overflow sends the trip to the next nearest one with room
+    const station = facilityWithRoom(trip.station, stations, trip.load, stationRoom, matrix);
+    if (!station) {
+      trip.stops.forEach(stop => unassigned.push({ binId: stop.id, reason: 'station-full' }));
+      continue;
+    }
+    const redirectedFrom = station !== trip.station ? trip.station.id : undefined;
+    if (redirectedFrom) {
+      trip.station = station;
+      windowEnds.set(trip, earliestWindowEnd([...trip.stops, station]));
+    }
     
-    // Optimize bin order using nearest neighbor from station
-    const optimizedBins = nearestNeighborTSP(targetStation, satBins);
+    // Straight-line drafts to size the trip; vehicle and timing are filled in below
+    const draftFor = draftCache(spec =>
+      createSATRouteSync(activeSATs[0], trip.stops, trip.station, 1, 0, buildOptionsFor(satBuild, spec)));
     
-    // Calculate distance
-    let totalDist = haversineDistance(targetStation.lat, targetStation.lng, optimizedBins[0].lat, optimizedBins[0].lng);
-    for (let i = 0; i < optimizedBins.length - 1; i++) {
-      totalDist += haversineDistance(
-        optimizedBins[i].lat, optimizedBins[i].lng,
-        optimizedBins[i + 1].lat, optimizedBins[i + 1].lng
-      );
+    const tripTime = (shift: VehicleShift, start: number) =>
+      retimeRoute(draftFor(shift.spec), start, buildOptionsFor(satBuild, shift.spec)).estimatedTime;
+    const pick = pickVehicleForTrip(satShifts, trip, trip.station, tripTime, satBuild, settings.shiftLengthMinutes);
+    if (!pick) {
+      const reason = !satShifts.some(shift => canServeTrip(shift.spec, trip)) ? 'capacity'
+        : trip.stopBound ? 'stop-limit' : 'shift-limit';
+      trip.stops.forEach(stop => unassigned.push({ binId: stop.id, reason }));
+      continue;
     }
-    totalDist += haversineDistance(
-      optimizedBins[optimizedBins.length - 1].lat, optimizedBins[optimizedBins.length - 1].lng,
-      targetStation.lat, targetStation.lng
-    );
-    
-    // Estimate time based on traffic conditions (use slower speed during peak hours)
-    const currentHour = new Date().getHours();
-    const isPeakHour = (currentHour >= 8 && currentHour <= 10) || (currentHour >= 17 && currentHour <= 20);
-    const avgSpeed = isPeakHour ? 18 : 25; // km/h - slower during peak
-    const tripTime = Math.round((totalDist / avgSpeed) * 60);
-    satTimes.push(tripTime);
     
-    // Update station waste accumulation
-    const currentStationWaste = stationWaste.get(targetStation.id) || 0;
-    stationWaste.set(targetStation.id, currentStationWaste + currentLoad);
-    
-    // Build route coordinates
-    const routeCoords: [number, number][] = [
-      [targetStation.lat, targetStation.lng],
-      ...optimizedBins.map(b => [b.lat, b.lng] as [number, number]),
-      [targetStation.lat, targetStation.lng]
-    ];
+    const { shift, startTime } = pick;
+    shift.shiftStart = pick.shiftStart;
+    shift.trips++;
     
-    const route: OptimizedRoute = {
-      vehicleId: sat.id,
-      vehicleType: 'sat',
-      route: [
-        { lat: targetStation.lat, lng: targetStation.lng, type: 'compact-station', id: targetStation.id, action: 'pickup' },
-        ...optimizedBins.map(b => ({
-          lat: b.lat, lng: b.lng, type: 'smartbin' as const, id: b.id, action: 'pickup' as const
-        })),
-        { lat: targetStation.lat, lng: targetStation.lng, type: 'compact-station', id: targetStation.id, action: 'dropoff' }
-      ],
-      totalDistance: Math.round(totalDist * 10) / 10,
-      estimatedTime: tripTime,
-      startTime: 0,
-      tripNumber: 1,
-      targetStationId: targetStation.id,
-      coordinates: routeCoords,
-      osrmFetched: false
-    };
+    // Service windows depend on the actual start, so re-sequence at that time;
+    // otherwise the draft's order holds and only its times move
+    const options = buildOptionsFor(satBuild, shift.spec);
+    const route: OptimizedRoute = windowEnds.get(trip) !== Infinity
+      ? createSATRouteSync(shift.vehicle, trip.stops, trip.station, shift.trips, startTime, options)
+      : { ...retimeRoute(draftFor(shift.spec), startTime, options), vehicleId: shift.vehicle.id, profileId: shift.vehicle.profileId, tripNumber: shift.trips };
+    if (redirectedFrom) route.redirectedFrom = redirectedFrom;
     
-    routes.push(route);
+    // estimatedTime already covers unloading at the station
+    shift.availableAt = startTime + route.estimatedTime;
+    shift.location = trip.station;
+    stationReadyAt.set(trip.station.id, Math.max(stationReadyAt.get(trip.station.id) ?? 0, startTime + route.estimatedTime));
     
-    if (onRouteGenerated) {
-      onRouteGenerated(route, [...routes]);
-    }
+    // Update station waste accumulation
+    const currentStationWaste = stationWaste.get(trip.station.id) || 0;
+    stationWaste.set(trip.station.id, currentStationWaste + trip.load);
+    
+    routes.push(route);
+    shift.routes.push(route);
+    report('sat-scheduling', 1 - pendingTrips.length / satTripCount);
   }
   
-  // ========== BALANCED TRUCK DISTRIBUTION ==========
-  // Distribute stations equally to all trucks
+  addDepotLegs(routes, satShifts, satBuild);
+  
+  // ========== MULTI-TRIP TRUCK SCHEDULING ==========
+  report('truck-scheduling');
   if (activeTrucks.length > 0 && stations.length > 0) {
-    // Sort stations by waste level (descending)
-    const stationsWithWaste = stations.map(s => ({
-      station: s,
-      waste: stationWaste.get(s.id) || s.currentLevel || 0
-    })).filter(s => s.waste > 0).sort((a, b) => b.waste - a.waste);
+    // Station waste is compacted, so only weight limits a truck
+    const truckSpecs = new Map(activeTrucks.map(truck => [truck, resolveVehicleSpec(truck, profiles)]));
+    const maxTruckCapacity = Math.max(...[...truckSpecs.values()].map(spec => spec.weightCapacity));
     
-    // Calculate stations per truck for equal distribution
-    const stationsPerTruck = Math.ceil(stationsWithWaste.length / activeTrucks.length);
-    const effectiveStationsPerTruck = Math.min(stationsPerTruck, MAX_STATIONS_PER_TRUCK);
+    // Split each station's waste into truck-sized loads
+    const stationLoads: StationLoad[] = [];
+    stations.forEach(station => {
+      let waste = stationWaste.get(station.id) || station.currentLevel || 0;
+      while (waste > 0) {
+        const demand = Math.min(waste, maxTruckCapacity);
+        stationLoads.push({
+          id: station.id, lat: station.lat, lng: station.lng, demand, station, readyAt: stationReadyAt.get(station.id) ?? 0
+        });
+        waste -= demand;
+      }
+    });
+    
+    // Group loads into trips from the nearest dumpyard
+    const truckTrips: { dumpyard: Dumpyard; stops: StationLoad[]; load: number }[] = [];
+    assignStationsToDumpyards(stations, activeDumpyards, matrix).forEach((dumpyardStations, dumpyardId) => {
+      const loads = stationLoads.filter(load => dumpyardStations.includes(load.station));
+      if (loads.length === 0) return;
+      
+      const dumpyard = activeDumpyards.find(d => d.id === dumpyardId)!;
+      const solution = solveCVRP(dumpyard, loads, {
+        capacity: maxTruckCapacity,
+        maxStops: settings.maxStationsPerTruck,
+        distance
+      });
+      solution.trips.forEach(trip => truckTrips.push({ dumpyard, stops: trip.stops, load: trip.load }));
+    });
+    const truckWindowEnds = new Map(truckTrips.map(trip => [
+      trip, earliestWindowEnd([...trip.stops.map(s => s.station), trip.dumpyard])
+    ]));
+    const firstReady = (trip: { stops: StationLoad[] }) => Math.min(...trip.stops.map(s => s.readyAt));
+    truckTrips.sort((a, b) =>
+      (truckWindowEnds.get(a)! - truckWindowEnds.get(b)!) || (firstReady(a) - firstReady(b)) || (b.load - a.load));
     
-    console.log(`Balanced truck distribution: ${stationsWithWaste.length} stations across ${activeTrucks.length} trucks (${effectiveStationsPerTruck} each)`);
+    console.log(`Truck scheduling: ${stationLoads.length} station loads -> ${truckTrips.length} trips across ${activeTrucks.length} trucks`);
     
-    let stationIndex = 0;
+    // A truck leaves the dumpyard so it reaches its first station as that
+    // station's SATs finish; later stations on the trip wait for theirs
+    const truckTravel = travelMinutes(matrix, traffic.truck);
+    const tripReadyAt = (trip: { dumpyard: Dumpyard; stops: StationLoad[] }) =>
+      Math.max(0, Math.min(...trip.stops.map(s =>
+        s.readyAt - Math.round(truckTravel(trip.dumpyard, s, shiftStartClock + s.readyAt)))));
+    const truckShifts = activeTrucks.map(truck => createShift(truck, truckSpecs.get(truck)!, depotOf(truck), 0));
     
-    for (let truckIdx = 0; truckIdx < activeTrucks.length; truckIdx++) {
-      const truck = activeTrucks[truckIdx];
-      
-      // Calculate how many stations this truck should get
-      const remainingStations = stationsWithWaste.length - stationIndex;
-      const remainingTrucks = activeTrucks.length - truckIdx;
-      const stationsForThisTruck = Math.min(
-        Math.ceil(remainingStations / remainingTrucks),
-        MAX_STATIONS_PER_TRUCK
-      );
-      
-      if (stationsForThisTruck === 0 || stationIndex >= stationsWithWaste.length) {
-        continue;
+    // Dumpyard levels are in tonnes
+    const dumpyardFill = new Map(activeDumpyards.map(d => [d.id, d.currentLevel || 0]));
+    const dumpyardRoom = (dumpyard: Dumpyard) =>
+      fillLimit(dumpyard, settings.facilityFillLimit) - (dumpyardFill.get(dumpyard.id) || 0);
+    
+    // Loads of a dropped trip stay at their stations; one entry per station and reason
+    const leaveAtStations = (stops: StationLoad[], reason: UnassignedReason) => stops.forEach(stop => {
+      const entry = unassigned.find(e => 'stationId' in e && e.stationId === stop.id && e.reason === reason);
+      if (entry && 'stationId' in entry) {
+        entry.load += Math.round(stop.demand);
+      } else {
+        unassigned.push({ stationId: stop.id, load: Math.round(stop.demand), reason });
       }
+    });
+    
+    for (let t = 0; t < truckTrips.length; t++) {
+      signal?.throwIfAborted();
+      const trip = truckTrips[t];
       
-      const truckStations: CompactStation[] = [];
-      let truckLoad = 0;
-      
-      while (truckStations.length < stationsForThisTruck && stationIndex < stationsWithWaste.length) {
-        const { station, waste } = stationsWithWaste[stationIndex];
-        
-        if (truckLoad + waste > truck.capacity) {
-          stationIndex++;
-          continue;
-        }
-        
-        truckStations.push(station);
-        truckLoad += waste;
-        stationIndex++;
+      // A dumpyard that is (nearly) full sends the truck to the next nearest one with room
+      const dumpyard = facilityWithRoom(trip.dumpyard, activeDumpyards, kgToTonnes(trip.load), dumpyardRoom, matrix);
+      if (!dumpyard) {
+        leaveAtStations(trip.stops, 'dumpyard-full');
+        continue;
       }
-      
-      if (truckStations.length === 0) continue;
-      
-      // Find nearest dumpyard
-      let nearestDumpyard = activeDumpyards[0];
-      let nearestDumpDist = Infinity;
-      for (const dump of activeDumpyards) {
-        const dist = haversineDistance(truckStations[0].lat, truckStations[0].lng, dump.lat, dump.lng);
-        if (dist < nearestDumpDist) {
-          nearestDumpDist = dist;
-          nearestDumpyard = dump;
-        }
+      const redirectedFrom = dumpyard !== trip.dumpyard ? trip.dumpyard.id : undefined;
+      if (redirectedFrom) {
+        trip.dumpyard = dumpyard;
+        truckWindowEnds.set(trip, earliestWindowEnd([...trip.stops.map(s => s.station), dumpyard]));
       }
       
-      // Optimize station order using nearest neighbor
-      const optimizedStations = nearestNeighborTSP(nearestDumpyard, truckStations);
+      const readyAt = tripReadyAt(trip);
+      const draftFor = draftCache(spec =>
+        createTruckRouteSync(activeTrucks[0], trip.stops, trip.dumpyard, 1, readyAt, buildOptionsFor(truckBuild, spec)));
+      const needs: TripNeeds = { load: trip.load, volume: 0, narrowLane: false };
       
-      // Calculate distance
-      let totalDist = haversineDistance(nearestDumpyard.lat, nearestDumpyard.lng, optimizedStations[0].lat, optimizedStations[0].lng);
-      for (let i = 0; i < optimizedStations.length - 1; i++) {
-        totalDist += haversineDistance(
-          optimizedStations[i].lat, optimizedStations[i].lng,
-          optimizedStations[i + 1].lat, optimizedStations[i + 1].lng
-        );
+      const tripTime = (shift: VehicleShift, start: number) =>
+        retimeRoute(draftFor(shift.spec), start, buildOptionsFor(truckBuild, shift.spec)).estimatedTime;
+      const pick = pickVehicleForTrip(truckShifts, needs, trip.dumpyard, tripTime, truckBuild, settings.shiftLengthMinutes, readyAt);
+      if (!pick) {
+        leaveAtStations(trip.stops, truckShifts.some(shift => canServeTrip(shift.spec, needs)) ? 'shift-limit' : 'capacity');
+        continue;
       }
-      totalDist += haversineDistance(
-        optimizedStations[optimizedStations.length - 1].lat, optimizedStations[optimizedStations.length - 1].lng,
-        nearestDumpyard.lat, nearestDumpyard.lng
-      );
       
-      // Traffic-aware timing for trucks
-      const currentHour = new Date().getHours();
-      const isPeakHour = (currentHour >= 8 && currentHour <= 10) || (currentHour >= 17 && currentHour <= 20);
-      const avgTruckSpeed = isPeakHour ? 25 : 35; // km/h
-      const tripTime = Math.round((totalDist / avgTruckSpeed) * 60);
-      truckTimes.push(tripTime);
+      const { shift, startTime } = pick;
+      shift.shiftStart = pick.shiftStart;
+      shift.trips++;
       
-      const routeCoords: [number, number][] = [
-        [nearestDumpyard.lat, nearestDumpyard.lng],
-        ...optimizedStations.map(s => [s.lat, s.lng] as [number, number]),
-        [nearestDumpyard.lat, nearestDumpyard.lng]
-      ];
+      const options = buildOptionsFor(truckBuild, shift.spec);
+      const route: OptimizedRoute = truckWindowEnds.get(trip) !== Infinity
+        ? createTruckRouteSync(shift.vehicle, trip.stops, trip.dumpyard, shift.trips, startTime, options)
+        : { ...retimeRoute(draftFor(shift.spec), startTime, options), vehicleId: shift.vehicle.id, profileId: shift.vehicle.profileId, tripNumber: shift.trips };
+      if (redirectedFrom) route.redirectedFrom = redirectedFrom;
       
-      const route: OptimizedRoute = {
-        vehicleId: truck.id,
-        vehicleType: 'truck',
-        route: [
-          { lat: nearestDumpyard.lat, lng: nearestDumpyard.lng, type: 'dumpyard', id: nearestDumpyard.id, action: 'pickup' },
-          ...optimizedStations.map(s => ({
-            lat: s.lat, lng: s.lng, type: 'compact-station' as const, id: s.id, action: 'pickup' as const
-          })),
-          { lat: nearestDumpyard.lat, lng: nearestDumpyard.lng, type: 'dumpyard', id: nearestDumpyard.id, action: 'dropoff' }
-        ],
-        totalDistance: Math.round(totalDist * 10) / 10,
-        estimatedTime: tripTime,
-        startTime: Math.max(...satTimes, 0),
-        coordinates: routeCoords,
-        osrmFetched: false
-      };
+      shift.availableAt = startTime + route.estimatedTime;
+      shift.location = trip.dumpyard;
+      dumpyardFill.set(trip.dumpyard.id, (dumpyardFill.get(trip.dumpyard.id) || 0) + kgToTonnes(trip.load));
       
       routes.push(route);
-      
-      if (onRouteGenerated) {
-        onRouteGenerated(route, [...routes]);
-      }
+      shift.routes.push(route);
+      report('truck-scheduling', (t + 1) / truckTrips.length);
     }
+    
+    addDepotLegs(routes, truckShifts, truckBuild);
+  }
+  
+  // Plan minutes become real times on the plan day
+  const planStartAt = clockOnDate(planDate, shiftStartClock).getTime();
+  routes.forEach(route => { route.planStartAt = planStartAt; });
+  
+  // Now progressively fetch road routes for accurate paths with traffic data
+  if (fetchRoadGeometry) {
+    fetchRoadRoutesProgressively(routes, provider, shiftStartClock, traffic, report, signal);
   }
   
-  // Now progressively fetch OSRM routes for accurate paths with traffic data
-  fetchOSRMRoutesProgressively(routes, onRouteUpdated);
+  return { routes, unassigned };
+}
+
+// Replace a route's straight-line draft with road geometry and re-time its stops
+function applyRoadRoute(route: OptimizedRoute, roadRoute: RoadRoute, shiftStartClock: number, traffic: TrafficModel) {
+  // Fuel scales with distance at the profile's consumption rate
+  if (route.fuelLitres !== undefined && route.totalDistance > 0) {
+    route.fuelLitres = Math.round(route.fuelLitres * (roadRoute.distance / route.totalDistance) * 10) / 10;
+  }
+  route.coordinates = roadRoute.coords;
+  route.totalDistance = Math.round(roadRoute.distance * 10) / 10;
   
-  return routes;
+  // Re-time every stop from the road leg durations (one leg per pair of route points),
+  // slowed by the traffic when each leg departs
+  const { legDurations } = roadRoute;
+  if (legDurations.length === route.route.length - 1) {
+    const startClock = shiftStartClock + route.startTime;
+    const schedule = schedulePath(toPath(route.route, shiftStartClock), startClock,
+      (from, _to, leg, departClock) => legDurations[leg] * traffic.slowdown(departClock, from));
+    route.route = applySchedule(route.route, schedule, shiftStartClock);
+    route.estimatedTime = Math.round(schedule.endClock - startClock);
+  } else {
+    route.estimatedTime = Math.round(roadRoute.duration);
+  }
+  route.osrmFetched = true;
 }
 
-// Progressively fetch OSRM routes and update coordinates
-// OSRM public API limit: 1 request per second max
-async function fetchOSRMRoutesProgressively(
+// Progressively fetch road routes from the configured provider and update coordinates
+// Trips already in the route cache are applied first; the provider's request
+// delay keeps rate-limited servers (e.g. public OSRM) happy for the rest.
+// Stops quietly when the signal fires; otherwise ends with a 'done' report.
+async function fetchRoadRoutesProgressively(
   routes: OptimizedRoute[],
-  onRouteUpdated?: (routes: OptimizedRoute[]) => void
+  provider: RoutingProvider,
+  shiftStartClock: number,
+  traffic: Record<OptimizedRoute['vehicleType'], TrafficModel>,
+  report: (phase: PlanningPhase, fraction?: number) => void,
+  signal?: AbortSignal
 ) {
-  const DELAY_BETWEEN_REQUESTS = 1100; // 1.1 seconds between requests (respecting 1/sec limit)
+  const useCache = provider.engine !== 'haversine';
+  const pending: OptimizedRoute[] = [];
   
-  for (let i = 0; i < routes.length; i++) {
-    const route = routes[i];
+  for (const route of routes) {
     if (route.osrmFetched) continue;
     
+    const cached = useCache ? await getCachedRoadRoute(provider.id, route.coordinates) : null;
+    if (signal?.aborted) return;
+    if (cached) {
+      applyRoadRoute(route, cached, shiftStartClock, traffic[route.vehicleType]);
+    } else {
+      pending.push(route);
+    }
+  }
+  
+  report('road-geometry', routes.length > 0 ? 1 - pending.length / routes.length : 0);
+  
+  for (let i = 0; i < pending.length; i++) {
+    const route = pending[i];
+    const draftCoordinates = route.coordinates;
+    
     try {
-      const osrmResult = await getOSRMRoute(route.coordinates);
-      if (osrmResult) {
-        route.coordinates = osrmResult.coords;
-        route.totalDistance = Math.round(osrmResult.distance * 10) / 10;
-        route.estimatedTime = Math.round(osrmResult.duration);
-        route.osrmFetched = true;
+      const roadRoute = await provider.route(draftCoordinates, signal);
+      if (roadRoute) {
+        applyRoadRoute(route, roadRoute, shiftStartClock, traffic[route.vehicleType]);
+        if (useCache) {
+          await putCachedRoadRoute(provider.id, draftCoordinates, roadRoute);
+        }
       } else {
         route.osrmFetched = true; // Mark as attempted even if failed
       }
     } catch (error) {
-      console.warn(`OSRM routing failed for ${route.vehicleId}, using direct lines:`, error);
+      if (signal?.aborted) return;
+      console.warn(`${provider.name} routing failed for ${route.vehicleId}, using direct lines:`, error);
       route.osrmFetched = true;
     }
     
     // Notify about updates after each route
-    if (onRouteUpdated) {
-      onRouteUpdated([...routes]);
-    }
+    report('road-geometry', 1 - (pending.length - i - 1) / routes.length);
     
     // Delay between requests to respect rate limit
-    if (i < routes.length - 1) {
-      await new Promise(r => setTimeout(r, DELAY_BETWEEN_REQUESTS));
+    if (i < pending.length - 1 && provider.requestDelayMs > 0) {
+      try {
+        await sleep(provider.requestDelayMs, signal);
+      } catch {
+        return;
+      }
     }
   }
+  
+  report('done');
 }
 
-// Calculate total estimated time: max SAT time + max Truck time
-export function calculateTotalTime(routes: OptimizedRoute[]): { minutes: number; hours: number } {
-  const satRoutes = routes.filter(r => r.vehicleType === 'sat');
-  const truckRoutes = routes.filter(r => r.vehicleType === 'truck');
+// Makespan: from the first vehicle leaving to the last one finishing, as scheduled
+export function calculateMakespan(routes: OptimizedRoute[]): { minutes: number; hours: number } {
+  if (routes.length === 0) return { minutes: 0, hours: 0 };
   
-  const maxSatTime = satRoutes.length > 0 ? Math.max(...satRoutes.map(r => r.estimatedTime)) : 0;
-  const maxTruckTime = truckRoutes.length > 0 ? Math.max(...truckRoutes.map(r => r.estimatedTime)) : 0;
+  const start = Math.min(...routes.map(r => r.startTime));
+  const end = Math.max(...routes.map(r => r.startTime + r.estimatedTime));
+  const minutes = Math.round(end - start);
   
-  const totalMinutes = maxSatTime + maxTruckTime;
-  const hours = Math.round((totalMinutes / 60) * 10) / 10;
-  
-  return { minutes: totalMinutes, hours: Math.min(hours, 20) }; // Cap at 20 hours
+  return { minutes, hours: Math.round((minutes / 60) * 10) / 10 };
 }
 
 // Parse DMS coordinates (e.g., 17°23'23.38"N, 78°33'32.79"E)
@@ -654,6 +1157,7 @@ export interface ExcelData {
   dumpyards: Dumpyard[];
   sats: Vehicle[];
   trucks: Vehicle[];
+  profiles: VehicleProfile[]; // one per vehicle model in the fleet sheet
 }
 
 // Parse multi-sheet workbook format
@@ -664,7 +1168,8 @@ export function parseMultiSheetExcel(workbook: any): Partial<ExcelData> {
     stations: [],
     dumpyards: [],
     sats: [],
-    trucks: []
+    trucks: [],
+    profiles: []
   };
   
   // Parse GVPs sheet (dustbins/smartbins)
@@ -765,7 +1270,8 @@ export function parseMultiSheetExcel(workbook: any): Partial<ExcelData> {
         const row = data[i];
         if (!row || row.length < 4) continue;
         
-        const vehicleType = String(row[1] || '').toLowerCase();
+        const modelName = String(row[1] || '').trim();
+        const vehicleType = modelName.toLowerCase();
         const payloadCapacity = parseFloat(row[3]) || 4; // in tonnes
         const capacityInKg = payloadCapacity * 1000;
         const numVehicles = parseInt(row[4]) || 1;
@@ -775,12 +1281,22 @@ export function parseMultiSheetExcel(workbook: any): Partial<ExcelData> {
         // Vehicles with 16000+ kg capacity are trucks, Mini Tipper = SAT (if smaller capacity)
         const isTruck = capacityInKg >= 16000 || (!vehicleType.includes('mini') && !vehicleType.includes('tipper') && !vehicleType.includes('sat'));
         
+        // Each row becomes a profile shared by its vehicles; rows of one model
+        // differ by size, e.g. "Mini Tipper" at 7 T and 11 T GVW
+        const gvw = String(row[2] ?? '').trim();
+        const size = gvw ? (isNaN(Number(gvw)) ? gvw : `${gvw} T`) : `${payloadCapacity} T payload`;
+        const profile = profileFromFleetRow(`${modelName} ${size}`, capacityInKg, isTruck ? 'truck' : 'sat');
+        if (!result.profiles?.some(p => p.id === profile.id)) {
+          result.profiles?.push(profile);
+        }
+        
         for (let v = 0; v < numVehicles; v++) {
           const vehicle: Vehicle = {
             id: `${isTruck ? 'TRUCK' : 'SAT'}-${payloadCapacity}T-${v + 1}`,
             capacity: capacityInKg,
             status: 'active',
-            driver: ''
+            driver: '',
+            profileId: profile.id
           };
           
           if (isTruck) {
@@ -0,0 +1,104 @@
+import { PlanningProgress, RoutePlan } from '@/types';
+import { PlannerRequest, PlannerResponse, PlanRoutesParams } from '@/workers/routePlannerProtocol';
+
+// UI-side handle on the route planner worker. One worker is shared by all runs
+// and created on first use.
+
+export interface PlanRoutesOptions {
+  signal?: AbortSignal;
+  // Keeps firing after the plan resolves, while road geometry is fetched
+  onProgress?: (progress: PlanningProgress) => void;
+}
+
+interface PlannerJob {
+  resolve: (plan: RoutePlan) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: PlanningProgress) => void;
+  planned: boolean;
+  done: boolean;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const jobs = new Map<number, PlannerJob>();
+
+function abortError(): DOMException {
+  return new DOMException('Route generation cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function handleResponse(message: PlannerResponse) {
+  const job = jobs.get(message.jobId);
+  if (!job) return;
+
+  switch (message.type) {
+    case 'progress':
+      job.onProgress?.(message.progress);
+      job.done = message.progress.phase === 'done';
+      break;
+    case 'plan':
+      job.planned = true;
+      job.resolve(message.plan);
+      break;
+    case 'error':
+      job.reject(new Error(message.message));
+      jobs.delete(message.jobId);
+      return;
+  }
+
+  // Progress and the plan can arrive in either order; forget the job after both
+  if (job.planned && job.done) jobs.delete(message.jobId);
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/routePlanner.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PlannerResponse>) => handleResponse(event.data);
+    worker.onerror = event => {
+      // A crashed worker fails every job in flight; the next run starts a new one
+      console.error('Route planner worker failed:', event.message);
+      jobs.forEach(job => job.reject(new Error(event.message || 'Route planner stopped unexpectedly')));
+      jobs.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function send(message: PlannerRequest) {
+  getWorker().postMessage(message);
+}
+
+// Plan routes in the worker. Resolves with the straight-line plan; road geometry
+// arrives through onProgress. Aborting rejects with an AbortError and stops the
+// worker's optimization and routing requests.
+export function planRoutes(params: PlanRoutesParams, { signal, onProgress }: PlanRoutesOptions = {}): Promise<RoutePlan> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const jobId = nextJobId++;
+    jobs.set(jobId, { resolve, reject, onProgress, planned: false, done: false });
+
+    signal?.addEventListener('abort', () => {
+      const job = jobs.get(jobId);
+      if (!job) return;
+      jobs.delete(jobId);
+      send({ type: 'abort', jobId });
+      job.reject(abortError());
+    }, { once: true });
+
+    send({ type: 'plan', jobId, params });
+  });
+}
+
+// Drop the worker's in-memory distance matrix (no-op before the first run)
+export function clearPlannerCaches() {
+  worker?.postMessage({ type: 'clear-cache' } satisfies PlannerRequest);
+}
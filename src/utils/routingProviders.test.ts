@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRoutingProvider } from './routingProviders';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Valhalla provider', () => {
+  it('joins the legs of a route without repeating the point between them', async () => {
+    // Two legs encoded at precision 6: 17.40,78.47 → 17.41,78.48 → 17.42,78.47
+    const trip = {
+      summary: { length: 2.9, time: 420 },
+      legs: [
+        { shape: '_k_e`@_vlttC_pR_pR', summary: { time: 180 } },
+        { shape: '_|re`@_g`utC_pR~oR', summary: { time: 240 } }
+      ]
+    };
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ trip }))));
+
+    const provider = createRoutingProvider({ engine: 'valhalla', baseUrl: 'https://valhalla.test' });
+    const route = await provider.route([[17.4, 78.47], [17.41, 78.48], [17.42, 78.47]]);
+
+    expect(route).toEqual({
+      coords: [[17.4, 78.47], [17.41, 78.48], [17.42, 78.47]],
+      distance: 2.9,
+      duration: 7,
+      legDurations: [3, 4]
+    });
+  });
+});
@@ -0,0 +1,449 @@
+import { RoutingConfig, RoutingEngine } from '@/types';
+
+// Road routing engines behind one interface. Every provider takes [lat, lng]
+// waypoints and returns the road geometry plus per-leg durations, so the
+// optimizer can re-time stops without knowing which server answered.
+
+export interface RoadRoute {
+  coords: [number, number][]; // [lat, lng]
+  distance: number;           // km
+  duration: number;           // minutes
+  legDurations: number[];     // minutes, one per pair of consecutive waypoints
+}
+
+// Many-to-many travel costs, indexed [source][target]; null where no road path exists
+export interface TravelTable {
+  distances: (number | null)[][]; // km
+  durations: (number | null)[][]; // minutes
+}
+
+export interface RoutingProvider {
+  engine: RoutingEngine;
+  id: string; // engine + server, used to key caches
+  name: string;
+  requestDelayMs: number;
+  // Resolves to null when the engine has no road data (straight lines are kept).
+  // Both calls reject with an AbortError once the signal fires.
+  route(coordinates: [number, number][], signal?: AbortSignal): Promise<RoadRoute | null>;
+  // Distance/duration matrix; absent when the engine cannot provide one
+  table?(sources: [number, number][], targets: [number, number][], signal?: AbortSignal): Promise<TravelTable | null>;
+}
+
+export const ROUTING_ENGINE_LABELS: Record<RoutingEngine, string> = {
+  osrm: 'OSRM',
+  valhalla: 'Valhalla',
+  graphhopper: 'GraphHopper',
+  haversine: 'Straight lines (no routing server)'
+};
+
+export const DEFAULT_ROUTING_BASE_URLS: Record<RoutingEngine, string> = {
+  osrm: 'https://router.project-osrm.org',
+  valhalla: 'https://valhalla1.openstreetmap.de',
+  graphhopper: 'https://graphhopper.com/api/1',
+  haversine: ''
+};
+
+// The public OSRM demo server is rate limited to 1 request per second
+export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
+  engine: 'osrm',
+  baseUrl: DEFAULT_ROUTING_BASE_URLS.osrm,
+  apiKey: '',
+  requestDelayMs: 1100
+};
+
+type RoutingConfigKey = keyof RoutingConfig;
+
+// Returns a message per invalid field; empty object when the config is valid
+export function validateRoutingConfig(config: RoutingConfig): Partial<Record<RoutingConfigKey, string>> {
+  const errors: Partial<Record<RoutingConfigKey, string>> = {};
+
+  if (!(config.engine in ROUTING_ENGINE_LABELS)) {
+    errors.engine = 'Unknown routing engine';
+  }
+
+  if (config.engine !== 'haversine' && !/^https?:\/\/\S+$/.test(config.baseUrl || '')) {
+    errors.baseUrl = 'Must be an http(s) URL';
+  }
+
+  if (typeof config.apiKey !== 'string') {
+    errors.apiKey = 'Must be text';
+  }
+
+  const delay = config.requestDelayMs;
+  if (typeof delay !== 'number' || !Number.isInteger(delay) || delay < 0 || delay > 60000) {
+    errors.requestDelayMs = 'Must be a whole number between 0 and 60000';
+  }
+
+  return errors;
+}
+
+// Fill missing or malformed fields (e.g. from an older stored config) with defaults
+export function normalizeRoutingConfig(config?: Partial<RoutingConfig> | null): RoutingConfig {
+  const merged = { ...DEFAULT_ROUTING_CONFIG, ...(config || {}) };
+  const errors = validateRoutingConfig(merged);
+
+  (Object.keys(errors) as RoutingConfigKey[]).forEach(key => {
+    (merged as Record<RoutingConfigKey, unknown>)[key] = DEFAULT_ROUTING_CONFIG[key];
+  });
+
+  return merged;
+}
+
+// Wait that ends early with an AbortError when the signal fires
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Fetch JSON with a per-attempt timeout, retrying on errors and backing off on 429.
+// A caller abort (init.signal) cancels the request in flight and is never retried.
+async function fetchJSONWithRetry(
+  url: string,
+  init: RequestInit = {},
+  retries = 3,
+  timeout = 15000
+): Promise<unknown> {
+  const callerSignal = init.signal;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    callerSignal?.throwIfAborted();
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const onAbort = () => controller.abort(callerSignal!.reason);
+      callerSignal?.addEventListener('abort', onAbort, { once: true });
+
+      let response: Response;
+      try {
+        response = await fetch(url, { ...init, signal: controller.signal });
+      } finally {
+        clearTimeout(timeoutId);
+        callerSignal?.removeEventListener('abort', onAbort);
+      }
+
+      // Handle rate limiting (429) with exponential backoff
+      if (response.status === 429) {
+        if (attempt < retries) {
+          const backoffTime = 2000 * Math.pow(2, attempt); // 2s, 4s, 8s
+          console.log(`Routing server rate limited, waiting ${backoffTime}ms before retry...`);
+          await sleep(backoffTime, callerSignal);
+          continue;
+        }
+        throw new Error('Routing rate limit exceeded');
+      }
+
+      if (!response.ok) {
+        if (attempt < retries) {
+          await sleep(1000 * (attempt + 1), callerSignal);
+          continue;
+        }
+        throw new Error(`Routing request failed (${response.status})`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (callerSignal?.aborted) throw callerSignal.reason;
+      if (attempt < retries) {
+        await sleep(1500 * (attempt + 1), callerSignal);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return null;
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// Matrices are optional: one retry, then the caller falls back to straight lines
+const TABLE_RETRIES = 1;
+
+// Decode a Google-style encoded polyline (Valhalla uses precision 6)
+function decodePolyline(encoded: string, precision: number): [number, number][] {
+  const factor = Math.pow(10, precision);
+  const coords: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    coords.push([lat / factor, lng / factor]);
+  }
+
+  return coords;
+}
+
+interface OSRMResponse {
+  routes?: {
+    distance: number; // m
+    duration: number; // s
+    geometry: { coordinates: [number, number][] }; // [lng, lat]
+    legs?: { duration: number }[];
+  }[];
+}
+
+// OSRM with traffic-aware annotations; picks the fastest of the alternatives
+function createOSRMProvider(config: RoutingConfig): RoutingProvider {
+  const baseUrl = trimSlash(config.baseUrl);
+
+  return {
+    engine: 'osrm',
+    id: `osrm:${baseUrl}`,
+    name: ROUTING_ENGINE_LABELS.osrm,
+    requestDelayMs: config.requestDelayMs,
+    async route(coordinates, signal) {
+      if (coordinates.length < 2) return null;
+
+      const coordString = coordinates.map(c => `${c[1]},${c[0]}`).join(';');
+      const data = await fetchJSONWithRetry(
+        `${baseUrl}/route/v1/driving/${coordString}?overview=full&geometries=geojson&annotations=speed,duration&alternatives=true`,
+        { signal }
+      ) as OSRMResponse | null;
+
+      if (!data?.routes || data.routes.length === 0) return null;
+
+      // OSRM returns alternatives sorted by duration, but check to be safe
+      const bestRoute = data.routes.reduce((best, route) => route.duration < best.duration ? route : best);
+
+      return {
+        coords: bestRoute.geometry.coordinates.map(c => [c[1], c[0]] as [number, number]),
+        distance: bestRoute.distance / 1000,
+        duration: bestRoute.duration / 60,
+        legDurations: (bestRoute.legs || []).map(leg => leg.duration / 60)
+      };
+    },
+    async table(sources, targets, signal) {
+      const coordinates = [...sources, ...targets];
+      const coordString = coordinates.map(c => `${c[1]},${c[0]}`).join(';');
+      const sourceIdx = sources.map((_, i) => i).join(';');
+      const targetIdx = targets.map((_, i) => sources.length + i).join(';');
+
+      const data = await fetchJSONWithRetry(
+        `${baseUrl}/table/v1/driving/${coordString}?sources=${sourceIdx}&destinations=${targetIdx}&annotations=distance,duration`,
+        { signal },
+        TABLE_RETRIES
+      ) as OSRMTableResponse | null;
+
+      if (!data?.distances || !data.durations) return null;
+
+      return {
+        distances: data.distances.map(row => row.map(m => m === null ? null : m / 1000)),
+        durations: data.durations.map(row => row.map(sec => sec === null ? null : sec / 60))
+      };
+    }
+  };
+}
+
+interface OSRMTableResponse {
+  distances?: (number | null)[][]; // m
+  durations?: (number | null)[][]; // s
+}
+
+interface ValhallaResponse {
+  trip?: {
+    summary: { length: number; time: number }; // km, s
+    legs: { shape: string; summary: { time: number } }[];
+  };
+}
+
+function createValhallaProvider(config: RoutingConfig): RoutingProvider {
+  const baseUrl = trimSlash(config.baseUrl);
+
+  return {
+    engine: 'valhalla',
+    id: `valhalla:${baseUrl}`,
+    name: ROUTING_ENGINE_LABELS.valhalla,
+    requestDelayMs: config.requestDelayMs,
+    async route(coordinates, signal) {
+      if (coordinates.length < 2) return null;
+
+      const data = await fetchJSONWithRetry(`${baseUrl}/route`, {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locations: coordinates.map(([lat, lng]) => ({ lat, lon: lng, type: 'break' })),
+          costing: 'auto',
+          units: 'kilometers',
+          directions_type: 'none'
+        })
+      }) as ValhallaResponse | null;
+
+      if (!data?.trip) return null;
+
+      return {
+        // Each leg starts where the previous one ended; keep that point once
+        coords: data.trip.legs.flatMap((leg, i) => decodePolyline(leg.shape, 6).slice(i > 0 ? 1 : 0)),
+        distance: data.trip.summary.length,
+        duration: data.trip.summary.time / 60,
+        legDurations: data.trip.legs.map(leg => leg.summary.time / 60)
+      };
+    },
+    async table(sources, targets, signal) {
+      const toLocation = ([lat, lng]: [number, number]) => ({ lat, lon: lng });
+      const data = await fetchJSONWithRetry(`${baseUrl}/sources_to_targets`, {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sources: sources.map(toLocation),
+          targets: targets.map(toLocation),
+          costing: 'auto',
+          units: 'kilometers'
+        })
+      }, TABLE_RETRIES) as ValhallaMatrixResponse | null;
+
+      if (!data?.sources_to_targets) return null;
+
+      return {
+        distances: data.sources_to_targets.map(row => row.map(cell => cell.distance)),
+        durations: data.sources_to_targets.map(row => row.map(cell => cell.time === null ? null : cell.time / 60))
+      };
+    }
+  };
+}
+
+interface ValhallaMatrixResponse {
+  sources_to_targets?: { distance: number | null; time: number | null }[][]; // km, s
+}
+
+interface GraphHopperResponse {
+  paths?: {
+    distance: number; // m
+    time: number;     // ms
+    points: { coordinates: [number, number][] }; // [lng, lat]
+    instructions?: { time: number; sign: number }[];
+  }[];
+}
+
+interface GraphHopperMatrixResponse {
+  distances?: (number | null)[][]; // m
+  times?: (number | null)[][];     // s
+}
+
+// GraphHopper instruction signs that end a leg
+const GRAPHHOPPER_VIA_REACHED = 5;
+const GRAPHHOPPER_FINISH = 4;
+
+function createGraphHopperProvider(config: RoutingConfig): RoutingProvider {
+  const baseUrl = trimSlash(config.baseUrl);
+
+  return {
+    engine: 'graphhopper',
+    id: `graphhopper:${baseUrl}`,
+    name: ROUTING_ENGINE_LABELS.graphhopper,
+    requestDelayMs: config.requestDelayMs,
+    async route(coordinates, signal) {
+      if (coordinates.length < 2) return null;
+
+      const params = new URLSearchParams({
+        profile: 'car',
+        points_encoded: 'false',
+        instructions: 'true'
+      });
+      coordinates.forEach(([lat, lng]) => params.append('point', `${lat},${lng}`));
+      if (config.apiKey) params.set('key', config.apiKey);
+
+      const data = await fetchJSONWithRetry(`${baseUrl}/route?${params}`, { signal }) as GraphHopperResponse | null;
+      const path = data?.paths?.[0];
+      if (!path) return null;
+
+      // Leg durations are the instruction times summed up to each waypoint
+      const legDurations: number[] = [];
+      let legTime = 0;
+      (path.instructions || []).forEach(instruction => {
+        legTime += instruction.time;
+        if (instruction.sign === GRAPHHOPPER_VIA_REACHED || instruction.sign === GRAPHHOPPER_FINISH) {
+          legDurations.push(legTime / 60000);
+          legTime = 0;
+        }
+      });
+
+      return {
+        coords: path.points.coordinates.map(c => [c[1], c[0]] as [number, number]),
+        distance: path.distance / 1000,
+        duration: path.time / 60000,
+        legDurations
+      };
+    },
+    async table(sources, targets, signal) {
+      const toPoint = ([lat, lng]: [number, number]) => [lng, lat];
+      const query = config.apiKey ? `?key=${encodeURIComponent(config.apiKey)}` : '';
+      const data = await fetchJSONWithRetry(`${baseUrl}/matrix${query}`, {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          from_points: sources.map(toPoint),
+          to_points: targets.map(toPoint),
+          out_arrays: ['distances', 'times'],
+          profile: 'car'
+        })
+      }, TABLE_RETRIES) as GraphHopperMatrixResponse | null;
+
+      if (!data?.distances || !data.times) return null;
+
+      return {
+        distances: data.distances.map(row => row.map(m => m === null ? null : m / 1000)),
+        durations: data.times.map(row => row.map(sec => sec === null ? null : sec / 60))
+      };
+    }
+  };
+}
+
+// No routing server: the optimizer's straight-line estimates stay as they are
+const haversineProvider: RoutingProvider = {
+  engine: 'haversine',
+  id: 'haversine',
+  name: ROUTING_ENGINE_LABELS.haversine,
+  requestDelayMs: 0,
+  async route() {
+    return null;
+  }
+};
+
+export function createRoutingProvider(config?: Partial<RoutingConfig> | null): RoutingProvider {
+  const settings = normalizeRoutingConfig(config);
+
+  switch (settings.engine) {
+    case 'osrm':
+      return createOSRMProvider(settings);
+    case 'valhalla':
+      return createValhallaProvider(settings);
+    case 'graphhopper':
+      return createGraphHopperProvider(settings);
+    case 'haversine':
+      return haversineProvider;
+  }
+}
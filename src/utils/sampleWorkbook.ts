@@ -0,0 +1,39 @@
+import * as XLSX from 'xlsx';
+
+// The multi-sheet template offered for download on the Routes page, in the
+// layout parseMultiSheetExcel reads
+
+export function createSampleWorkbook(): XLSX.WorkBook {
+  const gvpData = [
+    ['Locations of GVPs'],
+    [],
+    ['S No.', 'Location of the GVPs', 'Longitude', 'Latitude', 'Estimated Waste'],
+    [1, 'Hitech City', 78.3867, 17.4435, 1.10],
+    [2, 'Madhapur', 78.3960, 17.4486, 0.85],
+    [3, 'Kondapur', 78.3619, 17.4615, 1.25]
+  ];
+
+  const fleetData = [
+    ['Fleet Data'],
+    [],
+    ['S No.', 'Vehicle Particulars', 'GVW (Gross Vehicle Weight)', 'Payload Capacity (in Tonnes)', 'No. of Vehicles Available'],
+    [1, 'Mini Tipper', '7 T', 4.00, 5],
+    [2, 'Mini Tipper', '11 T', 8.00, 3],
+    [3, 'Compactor Truck', '28 T', 16.00, 2]
+  ];
+
+  const sctpData = [
+    ['Locations of Transfer Stations'],
+    [],
+    ['S.No', 'Transferstation', 'Coordinates'],
+    [1, 'Nagole', '17°23\'23.38"N, 78°33\'32.79"E'],
+    [2, 'Mallapur', '17°26\'43.89"N, 78°34\'28.81"E'],
+    [3, 'Saket', '17°29\'43.13"N, 78°34\'47.31"E']
+  ];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(gvpData), 'Sample Data');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(fleetData), 'Fleet Details');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(sctpData), 'SCTP');
+  return wb;
+}
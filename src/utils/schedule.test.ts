@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { SchedulableStop, isValidTimeWindow, parseClock, schedulePath } from './schedule';
+
+const stop = (start?: string, end?: string): SchedulableStop =>
+  ({ lat: 0, lng: 0, serviceMinutes: 10, ...(start && end && { serviceWindow: { start, end } }) });
+
+// Every leg takes an hour and every stop ten minutes
+const hourly = () => 60;
+const clock = (value: string) => parseClock(value)!;
+
+describe('isValidTimeWindow', () => {
+  it('accepts windows that run past midnight but not empty ones', () => {
+    expect(isValidTimeWindow({ start: '22:00', end: '02:00' })).toBe(true);
+    expect(isValidTimeWindow({ start: '06:00', end: '06:00' })).toBe(false);
+    expect(isValidTimeWindow({ start: '06:00', end: '25:00' })).toBe(false);
+  });
+});
+
+describe('schedulePath', () => {
+  it('meets early-morning windows on an overnight shift instead of marking them late', () => {
+    const path = [stop(), stop('00:30', '01:00'), stop('03:00', '04:00'), stop()];
+    const schedule = schedulePath(path, clock('22:00'), hourly);
+
+    expect(schedule.totalLateness).toBe(0);
+    // Arrives 23:10 and waits for 00:30, then arrives 01:40 and waits for 03:00
+    expect(schedule.stops[1]).toMatchObject({ arrival: clock('23:10'), wait: 80, lateness: 0 });
+    expect(schedule.stops[2]).toMatchObject({ arrival: 1440 + clock('01:40'), wait: 80, lateness: 0 });
+    expect(schedule.endClock).toBe(1440 + clock('04:20'));
+  });
+
+  it('counts lateness against the window just missed after midnight', () => {
+    const schedule = schedulePath([stop(), stop('00:30', '01:00')], clock('00:40'), hourly);
+    expect(schedule.stops[1]).toMatchObject({ arrival: clock('01:50'), wait: 0, lateness: 50 });
+
+    const overnight = schedulePath([stop(), stop('01:30', '02:00')], clock('23:40'), hourly);
+    expect(overnight.stops[1]).toMatchObject({ arrival: 1440 + clock('00:50'), wait: 40, lateness: 0 });
+  });
+
+  it('serves overnight windows on either side of midnight', () => {
+    const window = ['22:00', '02:00'] as const;
+    const beforeMidnight = schedulePath([stop(), stop(...window)], clock('21:30'), hourly);
+    const afterMidnight = schedulePath([stop(), stop(...window)], clock('23:50'), hourly);
+    const tooLate = schedulePath([stop(), stop(...window)], 1440 + clock('02:00'), hourly);
+
+    expect(beforeMidnight.stops[1]).toMatchObject({ wait: 0, lateness: 0 });
+    expect(afterMidnight.stops[1]).toMatchObject({ arrival: 1440 + clock('01:00'), wait: 0, lateness: 0 });
+    expect(tooLate.stops[1]).toMatchObject({ arrival: 1440 + clock('03:10'), wait: 0, lateness: 70 });
+  });
+
+  it('keeps a late daytime arrival late rather than waiting for the next day', () => {
+    const schedule = schedulePath([stop(), stop('06:00', '07:00')], clock('06:20'), hourly);
+    expect(schedule.stops[1]).toMatchObject({ arrival: clock('07:30'), wait: 0, lateness: 30 });
+  });
+});
@@ -0,0 +1,117 @@
+import { TimeWindow } from '@/types';
+
+// Time-window scheduling helpers (VRPTW)
+// Clock values are minutes after midnight; plan times are minutes from shift start.
+
+// Parse "HH:MM" into minutes after midnight
+export function parseClock(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+// Format minutes after midnight as "HH:MM" (wraps past midnight)
+export function formatClock(minutes: number): string {
+  const normalized = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  const mins = normalized % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+// Date of `clock` minutes after midnight on a "YYYY-MM-DD" day (today when missing or malformed)
+export function clockOnDate(date: string | undefined, clock: number): Date {
+  const day = date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T00:00`) : new Date();
+  const start = isNaN(day.getTime()) ? new Date() : day;
+  start.setHours(0, 0, 0, 0);
+  return new Date(start.getTime() + clock * 60000);
+}
+
+// A window that closes before it opens runs overnight, e.g. 22:00–02:00
+export function isValidTimeWindow(window: TimeWindow): boolean {
+  const start = parseClock(window.start);
+  const end = parseClock(window.end);
+  return start !== null && end !== null && start !== end;
+}
+
+// Opening and closing clock of a valid window; overnight windows close after 1440
+export function windowClocks(window: TimeWindow): { open: number; close: number } {
+  const open = parseClock(window.start)!;
+  const close = parseClock(window.end)!;
+  return { open, close: close < open ? close + 1440 : close };
+}
+
+// The occurrence of a daily window nearest to `clock`: arrivals past midnight meet the
+// next day's window, and a late arrival is not made to wait a whole day
+function windowAround(window: TimeWindow, clock: number): { open: number; close: number } {
+  const { open, close } = windowClocks(window);
+  const day = Math.floor(clock / 1440) * 1440;
+  const distance = (offset: number) => Math.max(open + offset - clock, clock - close - offset, 0);
+  const offset = [day - 1440, day, day + 1440].reduce((best, candidate) => (distance(candidate) < distance(best) ? candidate : best));
+  return { open: open + offset, close: close + offset };
+}
+
+export interface SchedulableStop {
+  lat: number;
+  lng: number;
+  serviceWindow?: TimeWindow;
+  serviceMinutes?: number; // time spent at the stop once service starts
+  earliestStart?: number;  // clock minutes; service waits until then even inside the window
+}
+
+export interface StopSchedule {
+  arrival: number;   // clock minutes
+  departure: number; // clock minutes, after waiting and service
+  wait: number;      // minutes waited for the window to open
+  lateness: number;  // minutes after the window closed
+}
+
+export interface PathSchedule {
+  stops: StopSchedule[];
+  totalLateness: number;
+  endClock: number;
+}
+
+// Walk a path from `startClock`, waiting for windows that have not opened yet
+// (or a stop's earliest start) and recording lateness where a window has already closed. `travelMinutes`
+// receives the leg index so callers can plug in measured leg durations, and the
+// departure clock so travel can depend on the time of day.
+export function schedulePath(
+  path: SchedulableStop[],
+  startClock: number,
+  travelMinutes: (a: SchedulableStop, b: SchedulableStop, leg: number, departClock: number) => number
+): PathSchedule {
+  const stops: StopSchedule[] = [];
+  let clock = startClock;
+  let totalLateness = 0;
+
+  path.forEach((stop, i) => {
+    if (i > 0) {
+      clock += travelMinutes(path[i - 1], stop, i - 1, clock);
+    }
+
+    const arrival = clock;
+    let start = Math.max(arrival, stop.earliestStart ?? -Infinity);
+    let lateness = 0;
+
+    if (stop.serviceWindow && isValidTimeWindow(stop.serviceWindow)) {
+      const { open, close } = windowAround(stop.serviceWindow, start);
+      if (start < open) {
+        start = open;
+      } else if (start > close) {
+        lateness = start - close;
+      }
+    }
+
+    const wait = start - arrival;
+    clock = start + (stop.serviceMinutes || 0);
+    totalLateness += lateness;
+    stops.push({ arrival, departure: clock, wait, lateness });
+  });
+
+  return { stops, totalLateness, endClock: clock };
+}
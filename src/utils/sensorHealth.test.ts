@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { BinLevelSample } from '@/types';
+import { detectSensorAnomalies } from './sensorHealth';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.UTC(2026, 9, 19, 12);
+
+// Hourly readings ending at `now`
+const readings = (levels: number[]): BinLevelSample[] => levels.map((level, i) => ({
+  binId: 'BIN1',
+  level,
+  at: now - (levels.length - 1 - i) * HOUR_MS,
+  source: 'sensor'
+}));
+
+describe('detectSensorAnomalies', () => {
+  const emptied = readings([70, 80, 5, 10]); // emptied between the 2nd and 3rd reading
+
+  it('excuses a drop with a collection scheduled between the two readings', () => {
+    expect(detectSensorAnomalies(emptied, [now - 1.5 * HOUR_MS], now)).toEqual([]);
+  });
+
+  it('flags a drop when the only scheduled collection is hours away from it', () => {
+    expect(detectSensorAnomalies(emptied, [now + 6 * HOUR_MS], now)).toEqual(['unexpected-drop']);
+    expect(detectSensorAnomalies(emptied, [], now)).toEqual(['unexpected-drop']);
+  });
+
+  it('ignores manual readings and ones older than a day', () => {
+    const old = readings([90, 10]).map(sample => ({ ...sample, at: sample.at - 48 * HOUR_MS }));
+    const manual = readings([90, 10]).map(sample => ({ ...sample, source: 'manual' as const }));
+    expect(detectSensorAnomalies([...old, ...manual], [], now)).toEqual([]);
+  });
+});
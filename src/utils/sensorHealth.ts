@@ -0,0 +1,107 @@
+import { BinLevelSample, SmartBin } from '@/types';
+
+// Sensor health: which smart bin sensors can be trusted, judged from their
+// recent readings (drops without a collection, stuck values, impossible jumps)
+// and from whether they still report at all.
+
+export type SensorAnomaly = 'unexpected-drop' | 'stuck' | 'impossible-jump';
+
+export const SENSOR_ANOMALY_LABELS: Record<SensorAnomaly, string> = {
+  'unexpected-drop': 'Level dropped without a collection',
+  stuck: 'Level stuck',
+  'impossible-jump': 'Impossible jump in level'
+};
+
+export const LOW_BATTERY_PERCENT = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+// Only readings this recent can raise an anomaly, so a fixed sensor clears itself
+const ANOMALY_WINDOW_MS = 24 * HOUR_MS;
+// A fall larger than this (% points) is an emptying, which needs a collection
+const DROP_TOLERANCE = 10;
+// Collections run this early or late against their scheduled time
+const COLLECTION_SLACK_MS = HOUR_MS / 2;
+// This many identical readings spanning this long mean the sensor is stuck
+const STUCK_MIN_READINGS = 6;
+const STUCK_MIN_SPAN_MS = 12 * HOUR_MS;
+// No bin fills faster than this; smaller rises are left to noise
+const MAX_RISE_PER_HOUR = 30;
+const MIN_JUMP = 25;
+
+export interface SensorHealth {
+  binId: string;
+  battery?: number;
+  firmware?: string;
+  lastReportAt?: number;
+  stale: boolean;
+  lowBattery: boolean;
+  anomalies: SensorAnomaly[];
+  trusted: boolean; // reporting and free of anomalies
+}
+
+// `collections` are the bin's scheduled collection times (epoch ms); one between
+// two readings explains a drop
+export function detectSensorAnomalies(samples: BinLevelSample[], collections: number[], now = Date.now()): SensorAnomaly[] {
+  const readings = samples
+    .filter(sample => sample.source === 'sensor' && sample.at >= now - ANOMALY_WINDOW_MS)
+    .sort((a, b) => a.at - b.at);
+  const anomalies = new Set<SensorAnomaly>();
+
+  for (let i = 1; i < readings.length; i++) {
+    const change = readings[i].level - readings[i - 1].level;
+    const hours = Math.max((readings[i].at - readings[i - 1].at) / HOUR_MS, 1 / 60);
+    const collected = collections.some(at =>
+      at >= readings[i - 1].at - COLLECTION_SLACK_MS && at <= readings[i].at + COLLECTION_SLACK_MS);
+    if (change < -DROP_TOLERANCE && !collected) anomalies.add('unexpected-drop');
+    if (change >= MIN_JUMP && change / hours > MAX_RISE_PER_HOUR) anomalies.add('impossible-jump');
+  }
+
+  // Empty and full bins legitimately read the same for hours
+  const last = readings[readings.length - 1];
+  if (last && last.level > 0 && last.level < 100) {
+    let run = 1;
+    while (run < readings.length && readings[readings.length - 1 - run].level === last.level) run++;
+    const first = readings[readings.length - run];
+    if (run >= STUCK_MIN_READINGS && last.at - first.at >= STUCK_MIN_SPAN_MS) anomalies.add('stuck');
+  }
+
+  return [...anomalies];
+}
+
+// Health of every smart bin; `staleSensorIds` comes from the telemetry settings
+export function evaluateSensorHealth(
+  bins: SmartBin[],
+  history: Map<string, BinLevelSample[]>,
+  collections: Map<string, number[]>,
+  staleSensorIds: Set<string>,
+  now = Date.now()
+): Map<string, SensorHealth> {
+  return new Map(bins.filter(bin => bin.isSmartBin).map(bin => {
+    const anomalies = detectSensorAnomalies(history.get(bin.id) ?? [], collections.get(bin.id) ?? [], now);
+    const stale = staleSensorIds.has(bin.id);
+    return [bin.id, {
+      binId: bin.id,
+      battery: bin.sensor?.battery,
+      firmware: bin.sensor?.firmware,
+      lastReportAt: bin.sensor?.lastReportAt,
+      stale,
+      lowBattery: bin.sensor !== undefined && bin.sensor.battery < LOW_BATTERY_PERCENT,
+      anomalies,
+      trusted: !stale && anomalies.length === 0
+    }];
+  }));
+}
+
+export interface SensorIssue {
+  label: string;
+  severity: 'untrusted' | 'warning'; // warnings leave the readings usable
+}
+
+// Everything wrong with a sensor, most serious first
+export function sensorIssues(health: SensorHealth): SensorIssue[] {
+  return [
+    ...(health.stale ? [{ label: 'Not reporting', severity: 'untrusted' as const }] : []),
+    ...health.anomalies.map(anomaly => ({ label: SENSOR_ANOMALY_LABELS[anomaly], severity: 'untrusted' as const })),
+    ...(health.lowBattery ? [{ label: 'Low battery', severity: 'warning' as const }] : [])
+  ];
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SensorReading, SmartBin, TelemetryStatus } from '@/types';
+import { TelemetrySocket } from './mqttClient';
+import { acceptsSensorReading, connectTelemetry, DEFAULT_TELEMETRY_CONFIG, parseSensorReading, parseTelemetryMessage } from './telemetry';
+
+const now = Date.UTC(2026, 9, 19, 12);
+const reading = { binId: 'SB001', level: 72, battery: 88, firmware: '1.4.2', timestamp: now - 60000 };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('parseSensorReading', () => {
+  it('accepts epoch milliseconds, epoch seconds and ISO timestamps', () => {
+    const expected = { ...reading, timestamp: now - 60000 };
+    expect(parseSensorReading(reading, now)).toEqual(expected);
+    expect(parseSensorReading({ ...reading, timestamp: (now - 60000) / 1000 }, now)).toEqual(expected);
+    expect(parseSensorReading({ ...reading, timestamp: new Date(now - 60000).toISOString() }, now)).toEqual(expected);
+  });
+
+  it('trims the bin id and firmware and leaves a blank firmware out', () => {
+    expect(parseSensorReading({ ...reading, binId: ' SB001 ', firmware: ' ' }, now))
+      .toEqual({ binId: 'SB001', level: 72, battery: 88, timestamp: now - 60000 });
+  });
+
+  it('rejects missing ids, levels outside 0–100, bad types and readings from the future', () => {
+    const invalid = [
+      null, 'SB001', { ...reading, binId: ' ' }, { ...reading, binId: 7 },
+      { ...reading, level: 101 }, { ...reading, level: -1 }, { ...reading, level: '72' }, { ...reading, battery: NaN },
+      { ...reading, firmware: 142 }, { ...reading, timestamp: 'yesterday' }, { ...reading, timestamp: 0 },
+      { ...reading, timestamp: now + 6 * 60000 }
+    ];
+    invalid.forEach(message => expect(parseSensorReading(message, now)).toBeNull());
+    // A sensor clock a little ahead is tolerated
+    expect(parseSensorReading({ ...reading, timestamp: now + 60000 }, now)).not.toBeNull();
+  });
+});
+
+describe('parseTelemetryMessage', () => {
+  it('splits a batch into valid readings and a count of rejected ones', () => {
+    const raw = JSON.stringify([reading, { ...reading, binId: 'SB002', level: 150 }, { ...reading, binId: 'SB003' }]);
+    const { readings, rejected } = parseTelemetryMessage(raw, now);
+
+    expect(readings.map(r => r.binId)).toEqual(['SB001', 'SB003']);
+    expect(rejected).toBe(1);
+  });
+
+  it('counts a message that is not JSON as one rejected reading', () => {
+    expect(parseTelemetryMessage('{"binId": "SB001",', now)).toEqual({ readings: [], rejected: 1 });
+  });
+});
+
+describe('connectTelemetry over MQTT', () => {
+  const frame = (...parts: (number[] | string)[]) =>
+    new Uint8Array(parts.flatMap(part => (typeof part === 'string' ? [...new TextEncoder().encode(part)] : part))).buffer;
+  // QoS 0 publish; payloads here stay under 128 bytes so the length fits one byte
+  const publish = (topic: string, payload: string) =>
+    frame([0x30, 2 + topic.length + payload.length, 0x00, topic.length], topic, payload);
+
+  it('hands over the readings a broker publishes and counts the malformed ones', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    const socket: TelemetrySocket = {
+      binaryType: 'blob', send: vi.fn(), close: vi.fn(), onopen: null, onmessage: null, onerror: null, onclose: null
+    };
+    const accepted: SensorReading[] = [];
+    const rejected: number[] = [];
+    const statuses: TelemetryStatus[] = [];
+    const createSocket = vi.fn(() => socket);
+
+    const stop = connectTelemetry({ ...DEFAULT_TELEMETRY_CONFIG, enabled: true, transport: 'mqtt', url: 'ws://broker.test' }, {
+      onReadings: readings => accepted.push(...readings),
+      onRejected: count => rejected.push(count),
+      onStatus: status => statuses.push(status)
+    }, createSocket);
+
+    expect(createSocket).toHaveBeenCalledWith('ws://broker.test', ['mqtt']);
+    expect(socket.binaryType).toBe('arraybuffer');
+    socket.onopen!({});
+    socket.onmessage!({ data: frame([0x20, 0x02, 0x00, 0x00], [0x90, 0x03, 0x00, 0x01, 0x01]) });
+    expect(statuses).toEqual(['connecting', 'connected']);
+
+    const { firmware: _, ...bare } = reading;
+    socket.onmessage!({ data: publish('bins/SB001/telemetry', JSON.stringify(bare)) });
+    socket.onmessage!({ data: publish('bins/SB002/telemetry', JSON.stringify({ ...bare, binId: 'SB002', battery: 120 })) });
+    socket.onmessage!({ data: publish('bins/SB003/telemetry', 'not json') });
+
+    expect(accepted).toEqual([bare]);
+    expect(rejected).toEqual([1, 1]);
+
+    stop();
+    expect(socket.close).toHaveBeenCalled();
+    expect(statuses.at(-1)).toBe('disabled');
+  });
+});
+
+describe('acceptsSensorReading', () => {
+  const bin: SmartBin = {
+    id: 'SB001', lat: 17.4, lng: 78.47, capacity: 240, currentLevel: 40, area: 'Kukatpally', isSmartBin: true,
+    sensor: { battery: 90, lastReportAt: now - 60000 }
+  };
+  const inKukatpally = (area: string) => area === 'Kukatpally';
+  const sensor = (lastReportAt: number) => ({ battery: 88, lastReportAt });
+
+  it('applies newer readings to smart bins in areas the user may edit', () => {
+    expect(acceptsSensorReading(bin, sensor(now), inKukatpally)).toBe(true);
+    expect(acceptsSensorReading({ ...bin, sensor: undefined }, sensor(now), inKukatpally)).toBe(true);
+  });
+
+  it('rejects readings for other areas, regular bins, and ones no newer than the reading applied', () => {
+    expect(acceptsSensorReading({ ...bin, area: 'Madhapur' }, sensor(now), inKukatpally)).toBe(false);
+    expect(acceptsSensorReading({ ...bin, isSmartBin: false }, sensor(now), inKukatpally)).toBe(false);
+    expect(acceptsSensorReading(bin, sensor(now - 60000), inKukatpally)).toBe(false);
+    expect(acceptsSensorReading(bin, sensor(now - 120000), inKukatpally)).toBe(false);
+  });
+});
@@ -0,0 +1,250 @@
+import { SensorInfo, SensorReading, SmartBin, TelemetryConfig, TelemetryStatus, TelemetryTransport } from '@/types';
+import { startMqttSession, TelemetrySocket } from './mqttClient';
+
+// Smart bin telemetry: subscribes to a plain WebSocket or an MQTT broker's
+// WebSocket listener, validates each message and hands the readings over.
+// Messages are JSON, either one reading or an array of them:
+//   { "binId": "SB001", "level": 72, "battery": 88, "firmware": "1.4.2", "timestamp": 1718000000000 }
+// `firmware` is optional; `timestamp` may be epoch milliseconds, epoch seconds or an ISO 8601 string.
+
+export const TELEMETRY_TRANSPORT_LABELS: Record<TelemetryTransport, string> = {
+  websocket: 'WebSocket (JSON)',
+  mqtt: 'MQTT over WebSocket'
+};
+
+// Matches scripts/mock-telemetry-server.mjs
+export const DEFAULT_TELEMETRY_CONFIG: TelemetryConfig = {
+  enabled: false,
+  transport: 'websocket',
+  url: 'ws://localhost:8090',
+  topic: 'bins/+/telemetry',
+  username: '',
+  password: '',
+  staleAfterMinutes: 60
+};
+
+// Readings stamped further ahead than this are treated as a wrong sensor clock
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// Epoch values below this are in seconds (it is 2001-09-09 in milliseconds)
+const EPOCH_SECONDS_LIMIT = 1e12;
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+type TelemetryConfigKey = keyof TelemetryConfig;
+
+// Returns a message per invalid field; empty object when the config is valid
+export function validateTelemetryConfig(config: TelemetryConfig): Partial<Record<TelemetryConfigKey, string>> {
+  const errors: Partial<Record<TelemetryConfigKey, string>> = {};
+
+  if (typeof config.enabled !== 'boolean') {
+    errors.enabled = 'Must be on or off';
+  }
+
+  if (!(config.transport in TELEMETRY_TRANSPORT_LABELS)) {
+    errors.transport = 'Unknown transport';
+  }
+
+  if (!/^wss?:\/\/\S+$/.test(config.url || '')) {
+    errors.url = 'Must be a ws:// or wss:// URL';
+  }
+
+  if (config.transport === 'mqtt' && (typeof config.topic !== 'string' || !config.topic.trim())) {
+    errors.topic = 'Required for MQTT';
+  }
+
+  if (typeof config.username !== 'string') {
+    errors.username = 'Must be text';
+  }
+
+  if (typeof config.password !== 'string') {
+    errors.password = 'Must be text';
+  }
+
+  const stale = config.staleAfterMinutes;
+  if (typeof stale !== 'number' || !Number.isInteger(stale) || stale < 1 || stale > 10080) {
+    errors.staleAfterMinutes = 'Must be a whole number between 1 and 10080';
+  }
+
+  return errors;
+}
+
+// Fill missing or malformed fields (e.g. from an older stored config) with defaults
+export function normalizeTelemetryConfig(config?: Partial<TelemetryConfig> | null): TelemetryConfig {
+  const merged = { ...DEFAULT_TELEMETRY_CONFIG, ...(config || {}) };
+  const errors = validateTelemetryConfig(merged);
+
+  (Object.keys(errors) as TelemetryConfigKey[]).forEach(key => {
+    (merged as Record<TelemetryConfigKey, unknown>)[key] = DEFAULT_TELEMETRY_CONFIG[key];
+  });
+
+  return merged;
+}
+
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    return value < EPOCH_SECONDS_LIMIT ? value * 1000 : value;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+const isPercent = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+// A reading if the message is well formed, otherwise null
+export function parseSensorReading(message: unknown, now = Date.now()): SensorReading | null {
+  if (!message || typeof message !== 'object') return null;
+  const { binId, level, battery, firmware, timestamp } = message as Record<string, unknown>;
+
+  if (typeof binId !== 'string' || !binId.trim()) return null;
+  if (!isPercent(level) || !isPercent(battery)) return null;
+  if (firmware !== undefined && typeof firmware !== 'string') return null;
+
+  const at = parseTimestamp(timestamp);
+  if (at === null || at > now + MAX_CLOCK_SKEW_MS) return null;
+
+  return {
+    binId: binId.trim(),
+    level,
+    battery,
+    ...(typeof firmware === 'string' && firmware.trim() && { firmware: firmware.trim() }),
+    timestamp: at
+  };
+}
+
+// Splits a raw message (one reading or an array) into valid readings and a count of rejected ones
+export function parseTelemetryMessage(raw: string, now = Date.now()): { readings: SensorReading[]; rejected: number } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { readings: [], rejected: 1 };
+  }
+
+  const messages = Array.isArray(parsed) ? parsed : [parsed];
+  const readings = messages
+    .map(message => parseSensorReading(message, now))
+    .filter((reading): reading is SensorReading => reading !== null);
+  return { readings, rejected: messages.length - readings.length };
+}
+
+// A smart bin whose sensor has not reported within the limit (or ever)
+export function isSensorStale(bin: SmartBin, staleAfterMinutes: number, now = Date.now()): boolean {
+  if (!bin.isSmartBin) return false;
+  return !bin.sensor || now - bin.sensor.lastReportAt > staleAfterMinutes * 60000;
+}
+
+// Whether a sensor reading may be applied to a bin: only to smart bins the user may
+// edit, and only when newer than the reading applied (which may have come from another
+// tab via the server)
+export function acceptsSensorReading(bin: SmartBin, sensor: SensorInfo, canEdit: (area: string) => boolean): boolean {
+  if (!bin.isSmartBin || !canEdit(bin.area)) return false;
+  return !bin.sensor || bin.sensor.lastReportAt < sensor.lastReportAt;
+}
+
+export interface TelemetryHandlers {
+  onReadings: (readings: SensorReading[]) => void;
+  onRejected?: (count: number) => void;
+  onStatus: (status: TelemetryStatus, detail?: string) => void;
+}
+
+export type TelemetrySocketFactory = (url: string, protocols?: string[]) => TelemetrySocket;
+
+const browserSocket: TelemetrySocketFactory = (url, protocols) => new WebSocket(url, protocols);
+
+// Connects and keeps reconnecting with backoff until the returned function is called
+export function connectTelemetry(
+  config: TelemetryConfig,
+  handlers: TelemetryHandlers,
+  createSocket: TelemetrySocketFactory = browserSocket
+): () => void {
+  let socket: TelemetrySocket | null = null;
+  let endMqttSession: (() => void) | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = RECONNECT_MIN_MS;
+  let stopped = false;
+
+  const handleRaw = (raw: string) => {
+    const { readings, rejected } = parseTelemetryMessage(raw);
+    if (readings.length > 0) handlers.onReadings(readings);
+    if (rejected > 0) handlers.onRejected?.(rejected);
+  };
+
+  const scheduleReconnect = (detail?: string) => {
+    if (stopped || reconnectTimer) return;
+    handlers.onStatus('error', detail);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+  };
+
+  const connect = () => {
+    handlers.onStatus('connecting');
+    try {
+      socket = createSocket(config.url, config.transport === 'mqtt' ? ['mqtt'] : undefined);
+    } catch (error) {
+      scheduleReconnect(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    const current = socket;
+
+    const onConnected = () => {
+      reconnectDelay = RECONNECT_MIN_MS;
+      handlers.onStatus('connected');
+    };
+
+    if (config.transport === 'mqtt') {
+      current.binaryType = 'arraybuffer';
+      current.onopen = () => {
+        endMqttSession = startMqttSession(current, {
+          clientId: `ajastra-${Math.random().toString(36).slice(2, 10)}`,
+          topic: config.topic,
+          username: config.username || undefined,
+          password: config.password || undefined
+        }, {
+          onSubscribed: onConnected,
+          onMessage: (_topic, payload) => handleRaw(payload),
+          onError: (error) => {
+            scheduleReconnect(error.message);
+            current.close();
+          }
+        });
+      };
+    } else {
+      current.onopen = onConnected;
+      current.onmessage = (event) => {
+        if (typeof event.data === 'string') handleRaw(event.data);
+      };
+    }
+
+    // Late events of a replaced socket are ignored
+    current.onerror = () => {
+      if (current === socket) scheduleReconnect(`Could not reach ${config.url}`);
+    };
+    current.onclose = () => {
+      if (current !== socket) return;
+      endMqttSession?.();
+      endMqttSession = null;
+      scheduleReconnect('Connection closed');
+    };
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    endMqttSession?.();
+    if (socket) {
+      socket.onclose = null;
+      socket.onerror = null;
+      socket.close();
+    }
+    handlers.onStatus('disabled');
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SpeedBand } from '@/types';
+import { schedulePath } from './schedule';
+import { createTrafficModel, DEFAULT_SPEED_BANDS } from './trafficProfile';
+
+const MONDAY = 1;
+const FRIDAY = 5;
+const SATURDAY = 6;
+const center = { lat: 17.4, lng: 78.47 };
+const clock = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+describe('createTrafficModel', () => {
+  it('covers a band from its first hour up to, not including, its end hour', () => {
+    const sat = createTrafficModel(DEFAULT_SPEED_BANDS, 'sat', 25, MONDAY);
+    const truck = createTrafficModel(DEFAULT_SPEED_BANDS, 'truck', 35, MONDAY);
+
+    expect(sat.speed(clock(7, 59), center)).toBe(25);
+    expect(sat.speed(clock(8), center)).toBe(18);
+    expect(sat.speed(clock(10, 59), center)).toBe(18);
+    expect(sat.speed(clock(11), center)).toBe(25);
+    expect(truck.speed(clock(8), center)).toBe(25);
+    expect(sat.slowdown(clock(8), center)).toBeCloseTo(25 / 18);
+  });
+
+  it('prefers a zone band for legs leaving inside the zone', () => {
+    const bands: SpeedBand[] = [
+      ...DEFAULT_SPEED_BANDS,
+      { id: 'market', vehicleClass: 'sat', days: [], startHour: 8, endHour: 11, speed: 8, zone: { name: 'Market', ...center, radiusKm: 1 } }
+    ];
+    const model = createTrafficModel(bands, 'sat', 25, MONDAY);
+
+    expect(model.speed(clock(9), { lat: 17.405, lng: 78.47 })).toBe(8);
+    expect(model.speed(clock(9), { lat: 17.45, lng: 78.47 })).toBe(18);
+  });
+
+  const weekend: SpeedBand[] = [
+    { id: 'friday-night', vehicleClass: 'sat', days: [FRIDAY], startHour: 22, endHour: 24, speed: 10 },
+    { id: 'saturday-early', vehicleClass: 'sat', days: [SATURDAY], startHour: 0, endHour: 2, speed: 40 },
+    { id: 'sunday-early', vehicleClass: 'sat', days: [0], startHour: 0, endHour: 2, speed: 50 }
+  ];
+
+  it('moves clocks past midnight onto the next weekday, wrapping Saturday into Sunday', () => {
+    const friday = createTrafficModel(weekend, 'sat', 25, FRIDAY);
+    expect(friday.speed(clock(23, 59), center)).toBe(10);
+    expect(friday.speed(1440 + clock(0), center)).toBe(40);
+    expect(friday.speed(1440 + clock(2), center)).toBe(25);
+    expect(friday.speed(2 * 1440 + clock(1), center)).toBe(50);
+
+    const saturday = createTrafficModel(weekend, 'sat', 25, SATURDAY);
+    expect(saturday.speed(1440 + clock(1), center)).toBe(50);
+  });
+
+  it('drives each leg of an overnight path at the speed of the day it departs on', () => {
+    const model = createTrafficModel(weekend, 'sat', 25, FRIDAY);
+    // 10 km legs, the first leaving at 23:30 on Friday and arriving after midnight
+    const path = [0, 0.09, 0.18].map(offset => ({ lat: center.lat + offset, lng: center.lng }));
+    const schedule = schedulePath(path, clock(23, 30), (_a, _b, _leg, departClock) => 10 / model.speed(departClock, center) * 60);
+
+    expect(schedule.stops[1].arrival).toBe(clock(23, 30) + 60);
+    expect(schedule.stops[2].arrival).toBe(1440 + clock(0, 30) + 15);
+  });
+});
@@ -0,0 +1,91 @@
+import { SpeedBand } from '@/types';
+import { haversineDistance, LatLng } from './distanceMatrix';
+
+// Time-of-day traffic: each leg is driven at the speed of the band that covers
+// its departure (weekday, hour, vehicle class, optionally zone). Legs outside
+// every band use the off-peak speed from the planning config.
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Morning and evening rush hours on every day
+export const DEFAULT_SPEED_BANDS: SpeedBand[] = [
+  { id: 'sat-morning', vehicleClass: 'sat', days: [], startHour: 8, endHour: 11, speed: 18 },
+  { id: 'sat-evening', vehicleClass: 'sat', days: [], startHour: 17, endHour: 21, speed: 18 },
+  { id: 'truck-morning', vehicleClass: 'truck', days: [], startHour: 8, endHour: 11, speed: 25 },
+  { id: 'truck-evening', vehicleClass: 'truck', days: [], startHour: 17, endHour: 21, speed: 25 }
+];
+
+// Returns a message per invalid band id; empty object when every band is valid
+export function validateSpeedBands(bands: SpeedBand[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+  bands.forEach(band => {
+    if (!['sat', 'truck'].includes(band.vehicleClass)) {
+      errors[band.id] = 'Vehicle class must be SAT or truck';
+    } else if (!Array.isArray(band.days) || band.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      errors[band.id] = 'Days must be weekdays';
+    } else if (!Number.isInteger(band.startHour) || !Number.isInteger(band.endHour) ||
+      band.startHour < 0 || band.endHour > 24 || band.startHour >= band.endHour) {
+      errors[band.id] = 'Hours must be whole numbers with 0 ≤ from < to ≤ 24';
+    } else if (!isNumber(band.speed) || band.speed < 1 || band.speed > 120) {
+      errors[band.id] = 'Speed must be between 1 and 120 km/h';
+    } else if (band.zone && (!band.zone.name.trim() || !isNumber(band.zone.lat) || !isNumber(band.zone.lng) ||
+      !isNumber(band.zone.radiusKm) || band.zone.radiusKm <= 0)) {
+      errors[band.id] = 'Zone needs a name, coordinates and a positive radius';
+    }
+  });
+
+  return errors;
+}
+
+// Keep the valid bands of a stored table; anything unreadable falls back to the defaults
+export function normalizeSpeedBands(bands?: unknown): SpeedBand[] {
+  if (!Array.isArray(bands)) return DEFAULT_SPEED_BANDS;
+  const errors = validateSpeedBands(bands as SpeedBand[]);
+  return (bands as SpeedBand[]).filter(band => !errors[band.id]);
+}
+
+export interface TrafficModel {
+  // km/h for a leg leaving `from` at `clock` (minutes after midnight of the plan day)
+  speed(clock: number, from: LatLng): number;
+  // Factor on road-engine durations, which are taken as off-peak travel times
+  slowdown(clock: number, from: LatLng): number;
+}
+
+// `planDay` is the weekday (0 = Sunday) the shift starts on; clocks past
+// midnight fall on the following days
+export function createTrafficModel(
+  bands: SpeedBand[],
+  vehicleClass: SpeedBand['vehicleClass'],
+  offPeakSpeed: number,
+  planDay: number
+): TrafficModel {
+  const classBands = bands.filter(band => band.vehicleClass === vehicleClass);
+  // Zone-specific bands win over citywide ones
+  const ordered = [...classBands.filter(band => band.zone), ...classBands.filter(band => !band.zone)];
+
+  const speed = (clock: number, from: LatLng) => {
+    const dayOffset = Math.floor(clock / 1440);
+    const weekday = (((planDay + dayOffset) % 7) + 7) % 7;
+    const hour = Math.floor((clock - dayOffset * 1440) / 60);
+
+    const band = ordered.find(b =>
+      (b.days.length === 0 || b.days.includes(weekday)) &&
+      hour >= b.startHour && hour < b.endHour &&
+      (!b.zone || haversineDistance(from.lat, from.lng, b.zone.lat, b.zone.lng) <= b.zone.radiusKm)
+    );
+    return band ? band.speed : offPeakSpeed;
+  };
+
+  return {
+    speed,
+    slowdown: (clock, from) => offPeakSpeed / speed(clock, from)
+  };
+}
+
+// Weekday of a "YYYY-MM-DD" date, or of today when missing or malformed
+export function weekdayOf(date?: string): number {
+  const parsed = date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T00:00`) : null;
+  return parsed && !isNaN(parsed.getTime()) ? parsed.getDay() : new Date().getDay();
+}
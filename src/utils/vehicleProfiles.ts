@@ -0,0 +1,70 @@
+import { Vehicle, VehicleProfile } from '@/types';
+
+// Vehicle profiles describe a model once (capacities, speed, access, running
+// costs); vehicles reference one by id. Vehicles without a profile keep their
+// own weight capacity and are treated as unrestricted-speed, no narrow-lane access.
+
+// What the optimizer needs to know about one vehicle
+export interface VehicleSpec {
+  weightCapacity: number;   // kg
+  volumeCapacity: number;   // m³, Infinity when unknown
+  maxSpeed: number;         // km/h, Infinity when unknown
+  narrowLaneAccess: boolean;
+  fuelConsumption: number;  // litres per 100 km
+  fixedCostPerTrip: number;
+}
+
+// Loose municipal waste, used to estimate a volume for imported profiles
+const WASTE_DENSITY_KG_PER_M3 = 350;
+// Imported SATs up to this payload are assumed small enough for narrow lanes
+const NARROW_LANE_MAX_KG = 8000;
+
+export function findProfile(profiles: VehicleProfile[] | undefined, profileId?: string): VehicleProfile | undefined {
+  return profileId ? profiles?.find(profile => profile.id === profileId) : undefined;
+}
+
+export function resolveVehicleSpec(vehicle: Vehicle, profiles?: VehicleProfile[]): VehicleSpec {
+  const profile = findProfile(profiles, vehicle.profileId);
+
+  if (!profile) {
+    return {
+      weightCapacity: vehicle.capacity,
+      volumeCapacity: Infinity,
+      maxSpeed: Infinity,
+      narrowLaneAccess: false,
+      fuelConsumption: 0,
+      fixedCostPerTrip: 0
+    };
+  }
+
+  return {
+    weightCapacity: profile.weightCapacity,
+    volumeCapacity: profile.volumeCapacity,
+    maxSpeed: profile.maxSpeed,
+    narrowLaneAccess: profile.narrowLaneAccess,
+    fuelConsumption: profile.fuelConsumption,
+    fixedCostPerTrip: profile.fixedCostPerTrip
+  };
+}
+
+// Stable id for a fleet sheet model name, e.g. "Mini Tipper 7T" -> "mini-tipper-7t"
+export function profileIdFromName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// Profile for a model read from a fleet sheet; fields the sheet lacks are estimated
+export function profileFromFleetRow(name: string, weightCapacity: number, vehicleClass: VehicleProfile['vehicleClass']): VehicleProfile {
+  const isSAT = vehicleClass === 'sat';
+
+  return {
+    id: profileIdFromName(name),
+    name: name.trim(),
+    vehicleClass,
+    weightCapacity,
+    volumeCapacity: Math.round((weightCapacity / WASTE_DENSITY_KG_PER_M3) * 10) / 10,
+    maxSpeed: isSAT ? 40 : 60,
+    narrowLaneAccess: isSAT && weightCapacity <= NARROW_LANE_MAX_KG,
+    fuelConsumption: isSAT ? 12 : 30,
+    fixedCostPerTrip: isSAT ? 150 : 800
+  };
+}
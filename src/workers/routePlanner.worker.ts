@@ -0,0 +1,54 @@
+import { generateOptimizedRoutes } from '@/utils/routeOptimizer';
+import { clearDistanceMatrixCache } from '@/utils/distanceMatrix';
+import { PlannerRequest, PlannerResponse, PlanRoutesParams } from './routePlannerProtocol';
+
+// Runs the optimizer off the UI thread. The worker lives for the whole session,
+// so the distance matrix cache carries over between planning runs.
+
+const controllers = new Map<number, AbortController>();
+
+function post(message: PlannerResponse) {
+  self.postMessage(message);
+}
+
+async function plan(jobId: number, params: PlanRoutesParams) {
+  const controller = new AbortController();
+  controllers.set(jobId, controller);
+
+  try {
+    const result = await generateOptimizedRoutes({
+      ...params,
+      signal: controller.signal,
+      onProgress: progress => {
+        if (controller.signal.aborted) return;
+        post({ type: 'progress', jobId, progress });
+        if (progress.phase === 'done') controllers.delete(jobId);
+      }
+    });
+    if (!controller.signal.aborted) {
+      post({ type: 'plan', jobId, plan: result });
+    }
+  } catch (error) {
+    controllers.delete(jobId);
+    if (!controller.signal.aborted) {
+      post({ type: 'error', jobId, message: error instanceof Error ? error.message : 'Failed to generate routes' });
+    }
+  }
+}
+
+self.onmessage = (event: MessageEvent<PlannerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'plan':
+      plan(message.jobId, message.params);
+      break;
+    case 'abort':
+      controllers.get(message.jobId)?.abort();
+      controllers.delete(message.jobId);
+      break;
+    case 'clear-cache':
+      clearDistanceMatrixCache();
+      break;
+  }
+};
@@ -0,0 +1,18 @@
+import { PlanningProgress, RoutePlan } from '@/types';
+import type { GenerateRoutesParams } from '@/utils/routeOptimizer';
+
+// Messages between the UI thread and the route planner worker. Every planning
+// run gets a jobId from the client so replies can be matched to their request.
+
+// Everything the optimizer needs, minus the callbacks that cannot cross threads
+export type PlanRoutesParams = Omit<GenerateRoutesParams, 'onProgress' | 'signal'>;
+
+export type PlannerRequest =
+  | { type: 'plan'; jobId: number; params: PlanRoutesParams }
+  | { type: 'abort'; jobId: number }
+  | { type: 'clear-cache' }; // drop the worker's in-memory distance matrix
+
+export type PlannerResponse =
+  | { type: 'progress'; jobId: number; progress: PlanningProgress }
+  | { type: 'plan'; jobId: number; plan: RoutePlan } // straight-line plan; road geometry follows as progress
+  | { type: 'error'; jobId: number; message: string };